@@ -3,9 +3,22 @@
  */
 
 import { describe, it, expect } from 'vitest';
+import { createHash, createHmac, timingSafeEqual } from 'node:crypto';
+import ts from 'typescript';
 import { convertWorkflow } from '../converter/index.js';
 import { parseWorkflow } from '../parser/workflow-parser.js';
-import { N8nWorkflow } from '../types/n8n.js';
+import { IRNode } from '../types/ir.js';
+import { N8nNode, N8nWorkflow } from '../types/n8n.js';
+
+// Load generated module-level functions, with the given variables in scope
+const loadHelpers = (code: string, names: string[], scope: Record<string, unknown>): Record<string, (...args: any[]) => any> => {
+  const source = names.map(name => {
+    const start = code.indexOf(`function ${name}(`);
+    return code.slice(start, code.indexOf('\n}', start) + 2);
+  }).join('\n\n');
+  const js = ts.transpile(`${source}\nreturn { ${names.join(', ')} };`, { target: ts.ScriptTarget.ES2022 });
+  return new Function(...Object.keys(scope), js)(...Object.values(scope));
+};
 
 // Sample n8n workflow JSON for testing
 const sampleWorkflow: N8nWorkflow = {
@@ -86,7 +99,8 @@ describe('convertWorkflow', () => {
     const result = convertWorkflow(sampleWorkflow);
 
     expect(result.code).toBeDefined();
-    expect(result.code).toContain('import { Inngest }');
+    expect(result.code).toContain('import { Inngest, EventSchemas } from "inngest";');
+    expect(result.code.match(/from "inngest";/g)).toHaveLength(1);
     expect(result.code).toContain('createFunction');
     expect(result.functions).toHaveLength(1);
   });
@@ -142,6 +156,61 @@ describe('Cron Trigger Conversion', () => {
     expect(result.code).toContain('cron:');
     expect(result.code).toContain('30 * * * *');
   });
+
+  it('should convert every schedule rule interval in the workflow timezone', () => {
+    const result = convertWorkflow({
+      name: 'Reports',
+      nodes: [
+        {
+          id: '1',
+          name: 'Schedule Trigger',
+          type: 'n8n-nodes-base.scheduleTrigger',
+          typeVersion: 1,
+          position: [250, 300],
+          parameters: {
+            rule: {
+              interval: [
+                { field: 'weeks', triggerAtDay: [1, 3, 5], triggerAtHour: 9, weeksInterval: 2 },
+                { field: 'cronExpression', expression: '0 */15 * * * *' },
+              ],
+            },
+          },
+        },
+      ],
+      connections: {},
+      settings: { timezone: 'Europe/Berlin' },
+    });
+
+    expect(result.program.functions[0].triggers).toEqual([
+      { type: 'cron', cron: 'TZ=Europe/Berlin 0 9 * * 1,3,5' },
+      { type: 'cron', cron: 'TZ=Europe/Berlin */15 * * * *' },
+    ]);
+    expect(result.code).toContain('[{ cron: "TZ=Europe/Berlin 0 9 * * 1,3,5" }, { cron: "TZ=Europe/Berlin */15 * * * *" }]');
+    expect(result.code).toContain(' * Schedule: TZ=Europe/Berlin *\\/15 * * * *');
+    expect(result.warnings.some(w => w.includes('every 2 weeks'))).toBe(true);
+  });
+
+  it('should warn about schedule intervals cron can only approximate', () => {
+    const schedule = (interval: Record<string, unknown>) => convertWorkflow({
+      name: 'Schedule',
+      nodes: [{ id: '1', name: 'Schedule Trigger', type: 'n8n-nodes-base.scheduleTrigger', typeVersion: 1.2, position: [250, 300], parameters: { rule: { interval: [interval] } } }],
+      connections: {},
+    });
+
+    const minutes = schedule({ field: 'minutes', minutesInterval: 7 });
+    expect(minutes.program.functions[0].triggers).toEqual([{ type: 'cron', cron: '*/7 * * * *' }]);
+    expect(minutes.warnings.some(w => w.includes('7 does not divide 60'))).toBe(true);
+    expect(schedule({ field: 'minutes', minutesInterval: 15 }).warnings).toEqual([]);
+
+    expect(schedule({ field: 'hours', hoursInterval: 5 }).warnings.some(w => w.includes('5 does not divide 24'))).toBe(true);
+    expect(schedule({ field: 'days', daysInterval: 3 }).warnings.some(w => w.includes('restarting on the 1st'))).toBe(true);
+    expect(schedule({ field: 'months', monthsInterval: 5 }).warnings.some(w => w.includes('5 does not divide 12'))).toBe(true);
+
+    const everySecond = schedule({ field: 'cronExpression', expression: '* */5 * * * *' });
+    expect(everySecond.program.functions[0].triggers).toEqual([{ type: 'cron', cron: '*/5 * * * *' }]);
+    expect(everySecond.warnings.some(w => w.includes('runs once a minute instead of every second'))).toBe(true);
+    expect(schedule({ field: 'cronExpression', expression: '*/10 * * * * *' }).warnings.some(w => w.includes('instead of every 10 seconds'))).toBe(true);
+  });
 });
 
 describe('IF Node Conversion', () => {
@@ -189,6 +258,658 @@ describe('IF Node Conversion', () => {
     expect(result.code).toContain('condition');
     expect(result.code).toContain('branch');
   });
+
+  it('should wrap branch steps in if/else and rejoin at the merge point', () => {
+    const branchingWorkflow: N8nWorkflow = {
+      ...ifWorkflow,
+      nodes: [
+        ...ifWorkflow.nodes,
+        { id: '3', name: 'Active Path', type: 'n8n-nodes-base.noOp', typeVersion: 1, position: [650, 200], parameters: {} },
+        { id: '4', name: 'Inactive Path', type: 'n8n-nodes-base.noOp', typeVersion: 1, position: [650, 400], parameters: {} },
+        { id: '5', name: 'Merge', type: 'n8n-nodes-base.merge', typeVersion: 2, position: [850, 300], parameters: { mode: 'append' } },
+      ],
+      connections: {
+        ...ifWorkflow.connections,
+        'Check Condition': {
+          main: [
+            [{ node: 'Active Path', type: 'main', index: 0 }],
+            [{ node: 'Inactive Path', type: 'main', index: 0 }],
+          ],
+        },
+        'Active Path': { main: [[{ node: 'Merge', type: 'main', index: 0 }]] },
+        'Inactive Path': { main: [[{ node: 'Merge', type: 'main', index: 1 }]] },
+      },
+    };
+
+    const result = convertWorkflow(branchingWorkflow);
+    const body = result.program.functions[0].body;
+
+    expect(body.map(node => node.kind)).toEqual(['step', 'declare', 'branch', 'merge', 'step']);
+    expect(body[2]).toMatchObject({
+      kind: 'branch',
+      branchType: 'if',
+      condition: 'checkCondition',
+      branches: [
+        { outputIndex: 0, body: [{ kind: 'step', nodeName: 'Active Path', binding: { variable: 'activePath', kind: 'assign' } }] },
+        { outputIndex: 1, body: [{ kind: 'step', nodeName: 'Inactive Path', binding: { variable: 'inactivePath', kind: 'assign' } }] },
+      ],
+    });
+    expect(body[3]).toEqual({ kind: 'merge', nodeName: 'Merge', branchNodeName: 'Check Condition' });
+
+    const ifIndex = result.code.indexOf("if (checkCondition.branch === 'true'");
+    const elseIndex = result.code.indexOf('} else {');
+
+    expect(ifIndex).toBeGreaterThan(-1);
+    expect(result.code).toContain('let activePath: any;');
+    expect(result.code.indexOf('activePath = await step.run("active-path"')).toBeGreaterThan(ifIndex);
+    expect(result.code.indexOf('inactivePath = await step.run("inactive-path"')).toBeGreaterThan(elseIndex);
+    expect(result.code.indexOf('step.run("merge"')).toBeGreaterThan(result.code.indexOf('inactive-path'));
+    expect(parseWorkflow(branchingWorkflow).executionGraph.branches[0].branches[0].mergePoint).toBe('Merge');
+  });
+
+  it('should guard nodes that only some outputs of a Switch reach', () => {
+    const rule = (value: string) => ({
+      conditions: [{ leftValue: '={{ $json.type }}', rightValue: value, operator: { type: 'string', operation: 'equals' } }],
+    });
+    const switchWorkflow: N8nWorkflow = {
+      name: 'Switch Join',
+      nodes: [
+        ifWorkflow.nodes[0],
+        {
+          id: '2',
+          name: 'Route',
+          type: 'n8n-nodes-base.switch',
+          typeVersion: 3,
+          position: [450, 300],
+          parameters: { mode: 'rules', rules: [rule('order'), rule('refund'), rule('other')] },
+        },
+        { id: '3', name: 'Order', type: 'n8n-nodes-base.noOp', typeVersion: 1, position: [650, 100], parameters: {} },
+        { id: '4', name: 'Refund', type: 'n8n-nodes-base.noOp', typeVersion: 1, position: [650, 300], parameters: {} },
+        { id: '5', name: 'Other', type: 'n8n-nodes-base.noOp', typeVersion: 1, position: [650, 500], parameters: {} },
+        { id: '6', name: 'Join', type: 'n8n-nodes-base.merge', typeVersion: 2, position: [850, 200], parameters: { mode: 'append' } },
+        { id: '7', name: 'Notify', type: 'n8n-nodes-base.noOp', typeVersion: 1, position: [1050, 200], parameters: {} },
+      ],
+      connections: {
+        [ifWorkflow.nodes[0].name]: { main: [[{ node: 'Route', type: 'main', index: 0 }]] },
+        Route: {
+          main: [
+            [{ node: 'Order', type: 'main', index: 0 }],
+            [{ node: 'Refund', type: 'main', index: 0 }],
+            [{ node: 'Other', type: 'main', index: 0 }],
+          ],
+        },
+        Order: { main: [[{ node: 'Join', type: 'main', index: 0 }]] },
+        Refund: { main: [[{ node: 'Join', type: 'main', index: 1 }]] },
+        Join: { main: [[{ node: 'Notify', type: 'main', index: 0 }]] },
+      },
+    };
+
+    const result = convertWorkflow(switchWorkflow);
+    const body = result.program.functions[0].body;
+
+    expect(body.map(node => node.kind)).toEqual(['step', 'declare', 'branch', 'branchGuard']);
+    expect(body[3]).toMatchObject({
+      kind: 'branchGuard',
+      nodeName: 'Route',
+      outputIndexes: [0, 1],
+      body: [{ kind: 'step', nodeName: 'Join' }, { kind: 'step', nodeName: 'Notify' }],
+    });
+    const guardIndex = result.code.indexOf('if (route.branch === 0 || route.branch === 1) {');
+    expect(guardIndex).toBeGreaterThan(result.code.indexOf('switch (route.branch)'));
+    expect(result.code.indexOf('join = await step.run("join"')).toBeGreaterThan(guardIndex);
+
+    const items = convertWorkflow(switchWorkflow, { itemSemantics: true });
+    expect(items.code).toContain('if (route.outputs[0]?.length || route.outputs[1]?.length) {');
+  });
+});
+
+describe('Multiple Trigger Conversion', () => {
+  const multiTriggerWorkflow: N8nWorkflow = {
+    name: 'Order Sync',
+    nodes: [
+      {
+        id: '1',
+        name: 'Webhook',
+        type: 'n8n-nodes-base.webhook',
+        typeVersion: 1,
+        position: [250, 200],
+        parameters: { path: 'orders', httpMethod: 'POST' },
+      },
+      {
+        id: '2',
+        name: 'Schedule',
+        type: 'n8n-nodes-base.scheduleTrigger',
+        typeVersion: 1,
+        position: [250, 400],
+        parameters: { rule: { interval: [{ field: 'hours', hoursInterval: 1 }] } },
+      },
+      { id: '3', name: 'Normalize Webhook', type: 'n8n-nodes-base.noOp', typeVersion: 1, position: [450, 200], parameters: {} },
+      { id: '4', name: 'Fetch Orders', type: 'n8n-nodes-base.noOp', typeVersion: 1, position: [450, 400], parameters: {} },
+      { id: '5', name: 'Save Order', type: 'n8n-nodes-base.noOp', typeVersion: 1, position: [650, 300], parameters: {} },
+    ],
+    connections: {
+      Webhook: { main: [[{ node: 'Normalize Webhook', type: 'main', index: 0 }]] },
+      Schedule: { main: [[{ node: 'Fetch Orders', type: 'main', index: 0 }]] },
+      'Normalize Webhook': { main: [[{ node: 'Save Order', type: 'main', index: 0 }]] },
+      'Fetch Orders': { main: [[{ node: 'Save Order', type: 'main', index: 0 }]] },
+    },
+  };
+
+  it('should only include reachable nodes in each function', () => {
+    const result = convertWorkflow(multiTriggerWorkflow);
+
+    expect(result.functions).toHaveLength(2);
+    expect(result.functions[0].code).toContain('step.run("normalize-webhook"');
+    expect(result.functions[0].code).not.toContain('step.run("fetch-orders"');
+    expect(result.functions[1].code).toContain('step.run("fetch-orders"');
+    expect(result.functions[1].code).not.toContain('step.run("normalize-webhook"');
+  });
+
+  it('should number functions only when their IDs collide', () => {
+    const result = convertWorkflow({
+      ...multiTriggerWorkflow,
+      nodes: [
+        ...multiTriggerWorkflow.nodes,
+        {
+          id: '6',
+          name: 'Daily',
+          type: 'n8n-nodes-base.scheduleTrigger',
+          typeVersion: 1,
+          position: [250, 600],
+          parameters: { rule: { interval: [{ field: 'days', daysInterval: 1 }] } },
+        },
+        { id: '7', name: 'Report', type: 'n8n-nodes-base.noOp', typeVersion: 1, position: [450, 600], parameters: {} },
+      ],
+      connections: {
+        ...multiTriggerWorkflow.connections,
+        Daily: { main: [[{ node: 'Report', type: 'main', index: 0 }]] },
+      },
+    });
+
+    expect(result.program.functions.map(fn => [fn.name, fn.config.id])).toEqual([
+      ['webhookOrders', 'webhook-orders'],
+      ['orderSync', 'order-sync'],
+      ['orderSync2', 'order-sync-2'],
+    ]);
+  });
+
+  it('should extract shared downstream steps into a helper', () => {
+    const result = convertWorkflow(multiTriggerWorkflow);
+
+    expect(result.code).toContain('async function runSharedSaveOrder(');
+    expect(result.code.match(/step\.run\("save-order"/g)).toHaveLength(1);
+    expect(result.functions[0].code).toContain('await runSharedSaveOrder(step, inputData, { normalizeWebhook })');
+    expect(result.functions[1].code).toContain('await runSharedSaveOrder(step, inputData, { fetchOrders })');
+  });
+
+  it('should combine triggers feeding the same node into one function', () => {
+    const result = convertWorkflow({
+      ...multiTriggerWorkflow,
+      connections: {
+        Webhook: { main: [[{ node: 'Save Order', type: 'main', index: 0 }]] },
+        Schedule: { main: [[{ node: 'Save Order', type: 'main', index: 0 }]] },
+      },
+    });
+    const [fn] = result.program.functions;
+
+    expect(result.functions).toHaveLength(1);
+    expect(fn.triggers).toEqual([
+      { type: 'event', event: 'app/orders.post' },
+      { type: 'cron', cron: '0 */1 * * *' },
+    ]);
+    expect(result.code).toContain('[{ event: "app/orders.post" }, { cron: "0 */1 * * *" }]');
+    expect(result.code).toContain('type WebhookOrScheduleTriggerEvent =\n  | AppOrdersPostEvent\n  | InngestScheduledTimerEvent;');
+    expect(result.code).toContain('const triggerEvent = event as WebhookOrScheduleTriggerEvent;');
+    expect(result.code).toContain('triggerEvent.name === "app/orders.post" ? "Webhook" :\n      "Schedule";');
+
+    // Only one trigger fires per run, so the node reads its payload once
+    expect(result.code).toMatch(/step\.run\("save-order"[\s\S]*?return inputData;/);
+    expect(result.code).not.toContain('input0: inputData');
+  });
+});
+
+describe('Webhook Routes', () => {
+  const webhookWorkflow: N8nWorkflow = {
+    name: 'Order Hook',
+    nodes: [
+      {
+        id: '1',
+        name: 'Webhook',
+        type: 'n8n-nodes-base.webhook',
+        typeVersion: 1,
+        position: [250, 300],
+        parameters: { path: 'orders', httpMethod: 'POST', authentication: 'headerAuth' },
+      },
+    ],
+    connections: {},
+  };
+
+  it('should send the trigger event from a route for the webhook path and method', () => {
+    const result = convertWorkflow(webhookWorkflow);
+
+    expect(result.code).toContain('{ method: "POST", path: "/webhook/orders", handle: handleOrdersPostWebhook }');
+    expect(result.code).toContain('name: "app/orders.post",');
+    expect(result.code).toContain('if (!n8nCheckHeaderAuth(request.headers)) {');
+    expect(result.code).toContain('export async function handleWebhookRequest(req: IncomingMessage, res: ServerResponse)');
+  });
+
+  it('should route paths with :param segments and pass their values as params', async () => {
+    const result = convertWorkflow({
+      ...webhookWorkflow,
+      nodes: [
+        { ...webhookWorkflow.nodes[0], webhookId: 'abc123', parameters: { path: 'users/:id', httpMethod: 'GET' } },
+        { ...webhookWorkflow.nodes[0], id: '2', name: 'Me', parameters: { path: 'users/me', httpMethod: 'GET' } },
+      ],
+    });
+
+    expect(result.code).toContain('{ method: "GET", path: "/webhook/abc123/users/:id", handle: handleUsersIdGetWebhook }');
+    expect(result.code).toContain('params: request.params ?? {},');
+    expect(result.program.functions[0].triggers).toEqual([{ type: 'event', event: 'app/users/id.get' }]);
+
+    const sent: any[] = [];
+    const { routeWebhook } = loadHelpers(result.code, ['n8nMatchPath', 'routeWebhook'], {
+      webhookRoutes: [
+        { method: 'GET', path: '/webhook/abc123/users/:id', handle: async (request: any) => ({ status: 200, body: request.params }) },
+        { method: 'GET', path: '/webhook/users/me', handle: async () => ({ status: 200, body: 'me' }) },
+      ],
+      sent,
+    });
+    const request = (path: string) => ({ method: 'GET', path, headers: {}, query: {}, body: undefined });
+
+    expect(await routeWebhook(request('/webhook/abc123/users/42'))).toEqual({ status: 200, body: { id: '42' } });
+    expect(await routeWebhook(request('/webhook/users/me'))).toEqual({ status: 200, body: 'me' });
+    expect((await routeWebhook(request('/webhook/abc123/users'))).status).toBe(404);
+  });
+
+  it('should reject requests when the credentials env vars are unset', () => {
+    const authWorkflow = (authentication: string): N8nWorkflow => ({
+      ...webhookWorkflow,
+      nodes: [{ ...webhookWorkflow.nodes[0], parameters: { path: 'orders', httpMethod: 'POST', authentication } }],
+    });
+    const check = (authentication: string, name: string, env: Record<string, string>, headers: Record<string, string>) => {
+      const { code } = convertWorkflow(authWorkflow(authentication));
+      const helpers = loadHelpers(code, ['n8nAuthEnv', 'n8nSafeEqual', name], {
+        process: { env },
+        console: { error: () => {} },
+        timingSafeEqual,
+        createHmac,
+      });
+      return helpers[name](headers) as boolean;
+    };
+    const emptyBasic = `Basic ${Buffer.from(':').toString('base64')}`;
+    const unsignedJwt = (secret: string) => {
+      const token = `${Buffer.from('{"alg":"HS256"}').toString('base64url')}.${Buffer.from('{}').toString('base64url')}`;
+      return `Bearer ${token}.${createHmac('sha256', secret).update(token).digest('base64url')}`;
+    };
+
+    expect(check('basicAuth', 'n8nCheckBasicAuth', {}, { authorization: emptyBasic })).toBe(false);
+    expect(check('basicAuth', 'n8nCheckBasicAuth', { N8N_API_USERNAME: 'user', N8N_API_PASSWORD: '' }, {
+      authorization: `Basic ${Buffer.from('user:').toString('base64')}`,
+    })).toBe(false);
+    expect(check('basicAuth', 'n8nCheckBasicAuth', { N8N_API_USERNAME: 'user', N8N_API_PASSWORD: 'pass' }, {
+      authorization: `Basic ${Buffer.from('user:pass').toString('base64')}`,
+    })).toBe(true);
+
+    expect(check('headerAuth', 'n8nCheckHeaderAuth', { N8N_API_HEADER_NAME: 'X-Api-Key' }, { 'x-api-key': '' })).toBe(false);
+    expect(check('headerAuth', 'n8nCheckHeaderAuth', { N8N_API_HEADER_NAME: 'X-Api-Key', N8N_API_HEADER_VALUE: 'key' }, {
+      'x-api-key': 'key',
+    })).toBe(true);
+
+    expect(check('jwtAuth', 'n8nCheckJwtAuth', {}, { authorization: unsignedJwt('') })).toBe(false);
+    expect(check('jwtAuth', 'n8nCheckJwtAuth', { N8N_JWT_SECRET: 'secret' }, { authorization: unsignedJwt('secret') })).toBe(true);
+  });
+
+  it('should generate the adapter for the selected framework', () => {
+    const express = convertWorkflow(webhookWorkflow, { webhookFramework: 'express' });
+    expect(express.code).toContain('webhookRouter.all("/webhook/orders", handleExpressWebhook);');
+
+    const nextjs = convertWorkflow(webhookWorkflow, { webhookFramework: 'nextjs' });
+    expect(nextjs.code).toContain('export async function handleWebhookRoute(request: Request): Promise<Response>');
+    expect(nextjs.code).toContain('request.headers.forEach((value, name) => {');
+    expect(nextjs.code).not.toContain('Object.fromEntries(request.headers)');
+
+    const none = convertWorkflow(webhookWorkflow, { webhookFramework: 'none' });
+    expect(none.code).not.toContain('routeWebhook');
+  });
+
+  it('should answer 400 for unparsable bodies and 500 when handling the request fails', () => {
+    const node = convertWorkflow(webhookWorkflow);
+    expect(node.code).toContain('throw new Error("Invalid JSON body");');
+    expect(node.code).toContain('return { status: 400, body: { message: error instanceof Error ? error.message : "Invalid request body" } };');
+    expect(node.code).toContain('return { status: 500, body: { message: "Error in workflow" } };');
+    expect(node.code).toContain('const response = await n8nHandleWebhook(async () => {');
+
+    const express = convertWorkflow(webhookWorkflow, { webhookFramework: 'express' });
+    expect(express.code).toContain('const response = await n8nHandleWebhook(() => ({');
+    expect(express.code).toContain('res.status(invalidBody ? 400 : 500)');
+    expect(express.code).toContain('webhookRouter.use(handleExpressError);');
+
+    const nextjs = convertWorkflow(webhookWorkflow, { webhookFramework: 'nextjs' });
+    expect(nextjs.code).toContain('const response = await n8nHandleWebhook(async () => ({');
+  });
+
+  it('should wait for the Respond to Webhook response (responseMode "responseNode")', () => {
+    const result = convertWorkflow({
+      name: 'Order Hook',
+      nodes: [
+        {
+          id: '1',
+          name: 'Webhook',
+          type: 'n8n-nodes-base.webhook',
+          typeVersion: 1,
+          position: [250, 300],
+          parameters: { path: 'orders', httpMethod: 'POST', responseMode: 'responseNode' },
+        },
+        {
+          id: '2',
+          name: 'Reply',
+          type: 'n8n-nodes-base.respondToWebhook',
+          typeVersion: 1,
+          position: [450, 300],
+          parameters: {
+            respondWith: 'text',
+            responseBody: 'created',
+            options: { responseCode: 201, responseHeaders: { entries: [{ name: 'X-Order', value: 'new' }] } },
+          },
+        },
+      ],
+      connections: { Webhook: { main: [[{ node: 'Reply', type: 'main', index: 0 }]] } },
+    });
+
+    expect(result.code).toContain('const responseId = randomUUID();');
+    expect(result.code).toContain('return n8nWaitForWebhookResponse(responseId);');
+    expect(result.code).toContain('status: 201,');
+    expect(result.code).toContain('headers: {"X-Order":"new"},');
+    expect(result.code).toContain('await n8nSendWebhookResponse(inputData.responseId, response);');
+  });
+
+  it('should respond with the last node output (responseMode "lastNode")', () => {
+    const result = convertWorkflow({
+      ...webhookWorkflow,
+      nodes: [{ ...webhookWorkflow.nodes[0], parameters: { path: 'orders', responseMode: 'lastNode', responseData: 'allEntries' } }],
+    });
+
+    expect(result.code).toContain('await step.run("respond-to-webhook", async () => {');
+    expect(result.code).toContain('body: entries,');
+  });
+
+  it('should answer a public chat trigger from a chat endpoint', () => {
+    const chatTrigger = {
+      id: '1',
+      name: 'When chat message received',
+      type: '@n8n/n8n-nodes-langchain.chatTrigger',
+      typeVersion: 1.1,
+      webhookId: 'support',
+      position: [250, 300] as [number, number],
+      parameters: { public: true, initialMessages: 'Hi there!\nHow can I help?', options: { allowedOrigins: 'https://example.com' } },
+    };
+    const chatWorkflow: N8nWorkflow = {
+      name: 'Support Bot',
+      nodes: [chatTrigger, { id: '2', name: 'Reply', type: 'n8n-nodes-base.noOp', typeVersion: 1, position: [450, 300], parameters: {} }],
+      connections: { 'When chat message received': { main: [[{ node: 'Reply', type: 'main', index: 0 }]] } },
+    };
+
+    const result = convertWorkflow(chatWorkflow);
+    expect(result.code).toContain('{ method: "POST", path: "/webhook/support/chat", handle: handleSupportBotChat },');
+    expect(result.code).toContain('{ method: "OPTIONS", path: "/webhook/support/chat", handle: handleSupportBotChat },');
+    expect(result.code).toContain('n8nChatCorsHeaders(request.headers["origin"], "https://example.com")');
+    expect(result.code).toContain('n8nHostedChatPage("/webhook/support/chat", ["Hi there!","How can I help?"])');
+    expect(result.code).toContain('await step.run("respond-to-webhook", async () => {');
+
+    const privateChat = convertWorkflow({ ...chatWorkflow, nodes: [{ ...chatTrigger, parameters: {} }, chatWorkflow.nodes[1]] });
+    expect(privateChat.code).not.toContain('handleSupportBotChat');
+  });
+
+  it('should render and validate form pages and wait for Form node pages', () => {
+    const result = convertWorkflow({
+      name: 'Signup',
+      nodes: [
+        {
+          id: '1',
+          name: 'On form submission',
+          type: 'n8n-nodes-base.formTrigger',
+          typeVersion: 2.2,
+          webhookId: 'signup',
+          position: [250, 300],
+          parameters: {
+            formTitle: 'Sign up',
+            formFields: {
+              values: [
+                { fieldLabel: 'Name', requiredField: true },
+                { fieldLabel: 'Guests', fieldType: 'number' },
+              ],
+            },
+          },
+        },
+        {
+          id: '2',
+          name: 'Preferences',
+          type: 'n8n-nodes-base.form',
+          typeVersion: 1,
+          position: [450, 300],
+          parameters: { formFields: { values: [{ fieldLabel: 'Diet', fieldType: 'dropdown', fieldOptions: { values: [{ option: 'Any' }] } }] } },
+        },
+      ],
+      connections: {
+        'On form submission': { main: [[{ node: 'Preferences', type: 'main', index: 0 }]] },
+      },
+    });
+
+    expect(result.code).toContain('    Name: string;\n    Guests?: number;');
+    expect(result.code).toContain('{ key: "Guests", label: "Guests", type: "number", required: false },');
+    expect(result.code).toContain('{ method: "GET", path: "/form/signup", handle: handleSignupForm },');
+    expect(result.code).toContain('const { data, errors } = n8nValidateForm(page, request.body);');
+    expect(result.code).toContain('n8nRenderForm(preferencesFormPage, `/form/signup?submission=${encodeURIComponent(inputData.responseId)}&page=preferences`)');
+    expect(result.code).toContain('await step.waitForEvent("preferences-submission", { event: "app/signup.page"');
+  });
+});
+
+describe('Polling Trigger Conversion', () => {
+  // Run a generated step's code with the given variables in scope
+  const runStep = (node: IRNode, scope: Record<string, unknown>): Promise<any> => {
+    if (node.kind !== 'step' || node.step.type !== 'run') throw new Error(`Not a step.run: ${node.kind}`);
+    const code = ts.transpile(`(async () => {\n${node.step.code}\n})()`, { target: ts.ScriptTarget.ES2022 });
+    return new Function(...Object.keys(scope), `return ${code}`)(...Object.values(scope));
+  };
+
+  const pollingWorkflow: N8nWorkflow = {
+    name: 'Sheet Sync',
+    nodes: [
+      {
+        id: '1',
+        name: 'New Orders',
+        type: 'n8n-nodes-base.googleSheetsTrigger',
+        typeVersion: 1,
+        position: [250, 300],
+        parameters: {
+          pollTimes: { item: [{ mode: 'everyX', value: 5, unit: 'minutes' }] },
+          documentId: { mode: 'id', value: 'sheet-doc' },
+          sheetName: { mode: 'list', value: 'gid=0', cachedResultName: 'Orders' },
+          event: 'rowAdded',
+        },
+      },
+      { id: '2', name: 'Save Order', type: 'n8n-nodes-base.noOp', typeVersion: 1, position: [450, 300], parameters: {} },
+    ],
+    connections: {
+      'New Orders': { main: [[{ node: 'Save Order', type: 'main', index: 0 }]] },
+    },
+  };
+
+  it('should classify polling triggers as triggers', () => {
+    const parsed = parseWorkflow(pollingWorkflow);
+
+    expect(parsed.triggers.map(t => t.name)).toEqual(['New Orders']);
+  });
+
+  it('should poll from a cron function and send one event per new row', () => {
+    const result = convertWorkflow(pollingWorkflow);
+    const [workflowFn, poller] = result.program.functions;
+
+    expect(workflowFn.triggers).toEqual([{ type: 'event', event: 'app/sheet-sync.google-sheets.row-added' }]);
+    expect(poller.kind).toBe('poller');
+    expect(poller.triggers).toEqual([{ type: 'cron', cron: '*/5 * * * *' }]);
+    expect(result.code).toContain('const cursor = await pollCursorStore.get("sheet-sync/new-orders");');
+    expect(result.code).toContain('.filter(row => row.row_number > cursor.lastRow)');
+    expect(result.code).toContain('name: "app/sheet-sync.google-sheets.row-added", data: item.data');
+    expect(result.code).toContain('await pollCursorStore.set("sheet-sync/new-orders", poll.cursor);');
+  });
+
+  it('should run one poll at a time and only send events for new items', () => {
+    const result = convertWorkflow(pollingWorkflow);
+    const poller = result.program.functions[1];
+
+    expect(poller.config.concurrency).toEqual([{ limit: 1, key: '"sheet-sync/new-orders"' }]);
+    expect(result.code).toContain('if (poll.items.length > 0) {\n      await step.sendEvent("send-new-items", poll.items.map(');
+  });
+
+  it('should read new IMAP messages into email/received events', () => {
+    const result = convertWorkflow({
+      name: 'Inbox',
+      nodes: [
+        {
+          id: '1',
+          name: 'Support Mail',
+          type: 'n8n-nodes-base.emailReadImap',
+          typeVersion: 2,
+          position: [250, 300],
+          parameters: { mailbox: 'Support', options: { customEmailConfig: '["UNSEEN", ["FROM", "a@example.com"]]' } },
+        },
+        { id: '2', name: 'Triage', type: 'n8n-nodes-base.noOp', typeVersion: 1, position: [450, 300], parameters: {} },
+      ],
+      connections: {
+        'Support Mail': { main: [[{ node: 'Triage', type: 'main', index: 0 }]] },
+      },
+    });
+    const [workflowFn, poller] = result.program.functions;
+
+    expect(workflowFn.triggers).toEqual([
+      { type: 'event', event: 'email/received', expression: "event.data.source == 'inbox/support-mail'" },
+    ]);
+    expect(poller.kind).toBe('poller');
+    expect(result.code).toContain('const lock = await client.getMailboxLock("Support");');
+    expect(result.code).toContain('client.search({ seen: false, from: "a@example.com", uid: `${lastUid + 1}:*` }, { uid: true })');
+    expect(result.code).toContain('messageFlagsAdd(poll.items.map(item => item.data.uid).join(","), ["\\\\Seen"], { uid: true })');
+  });
+
+  it('should send attachment metadata and download the content in a step', async () => {
+    const result = convertWorkflow({
+      name: 'Inbox',
+      nodes: [
+        {
+          id: '1',
+          name: 'Support Mail',
+          type: 'n8n-nodes-base.emailReadImap',
+          typeVersion: 2,
+          position: [250, 300],
+          parameters: { mailbox: 'Support', downloadAttachments: true, postProcessAction: 'nothing' },
+        },
+        { id: '2', name: 'Triage', type: 'n8n-nodes-base.noOp', typeVersion: 1, position: [450, 300], parameters: {} },
+      ],
+      connections: {
+        'Support Mail': { main: [[{ node: 'Triage', type: 'main', index: 0 }]] },
+      },
+    });
+    const [workflowFn, poller] = result.program.functions;
+
+    // Fake IMAP mailbox with one message carrying a PDF, read through the imapflow calls the steps make
+    const invoice = Buffer.from('%PDF-1.4 invoice');
+    const mailbox = {
+      uidValidity: 9,
+      messages: new Map([[42, {
+        messageId: '<42@example.com>',
+        subject: 'Invoice',
+        from: [{ text: 'billing@example.com' }],
+        attachments: [{ filename: 'invoice.pdf', contentType: 'application/pdf', size: invoice.length, content: invoice }],
+      }]]),
+    };
+    const scope = {
+      process: { env: { N8N_IMAP_HOST: 'imap.test', N8N_IMAP_USER: 'user', N8N_IMAP_PASSWORD: 'secret' } },
+      pollCursorStore: { get: async () => undefined },
+      n8nImapConnect: async () => ({
+        mailbox: { uidValidity: mailbox.uidValidity },
+        getMailboxLock: async (path: string) => {
+          expect(path).toBe('Support');
+          return { release: () => {} };
+        },
+        search: async () => [...mailbox.messages.keys()],
+        fetchOne: async (uid: string) => ({ source: Buffer.from(uid) }),
+        logout: async () => {},
+      }),
+      simpleParser: async (source: Buffer) => mailbox.messages.get(Number(source.toString())),
+      n8nAddressText: (value: Array<{ text: string }> | undefined) => (value ?? []).map(a => a.text).join(', '),
+    };
+
+    const poll = await runStep(poller.body[0], scope);
+    expect(poll.items).toHaveLength(1);
+    expect(poll.items[0].data.attachments).toEqual([{ fileName: 'invoice.pdf', mimeType: 'application/pdf', size: invoice.length }]);
+
+    const attachments = await runStep(workflowFn.body[0], { ...scope, inputData: poll.items[0].data });
+    expect(attachments).toEqual([
+      { fileName: 'invoice.pdf', mimeType: 'application/pdf', size: invoice.length, data: invoice.toString('base64') },
+    ]);
+    expect(result.code).toContain('const supportMailAttachments = await step.run("download-support-mail-attachments"');
+  });
+});
+
+describe('Event Schema Inference', () => {
+  const signupWorkflow: N8nWorkflow = {
+    name: 'Signup',
+    nodes: [
+      {
+        id: '1',
+        name: 'Webhook',
+        type: 'n8n-nodes-base.webhook',
+        typeVersion: 1,
+        position: [250, 300],
+        parameters: { path: 'signup', httpMethod: 'POST' },
+      },
+      {
+        id: '2',
+        name: 'Greet',
+        type: 'n8n-nodes-base.set',
+        typeVersion: 3,
+        position: [450, 300],
+        parameters: {
+          values: { string: [{ name: 'greeting', value: '=Hello {{ $json.body.name.toUpperCase() }} from {{ $json.body.address.city }}' }] },
+        },
+      },
+    ],
+    connections: {
+      Webhook: { main: [[{ node: 'Greet', type: 'main', index: 0 }]] },
+    },
+    pinData: {
+      Webhook: [
+        { json: { headers: {}, query: {}, body: { name: 'Ada', email: 'ada@example.com', age: 36 } } },
+        { json: { headers: {}, query: {}, body: { name: 'Bob', email: null } } },
+      ],
+    },
+  };
+
+  it('should type trigger events from pinned data and expression paths', () => {
+    const result = convertWorkflow(signupWorkflow);
+
+    expect(result.code).toContain(`    body: {
+      name: string;
+      email: string | null;
+      age?: number;
+      address: {
+        city: unknown;
+      };
+    };`);
+    expect(result.code).toContain('schemas: new EventSchemas().fromUnion<AppSignupPostEvent>(),');
+    expect(result.code).toContain('} as AppSignupPostEvent["data"],');
+  });
+
+  it('should generate Zod event schemas', () => {
+    const result = convertWorkflow(signupWorkflow, { eventSchemas: 'zod' });
+
+    expect(result.code).toContain('import { z } from "zod";');
+    expect(result.code).toContain(`      body: z.object({
+        name: z.string(),
+        email: z.union([z.string(), z.null()]),
+        age: z.number().optional(),`);
+    expect(result.code).toContain('schemas: new EventSchemas().fromZod(eventSchemas),');
+  });
 });
 
 describe('HTTP Request Conversion', () => {
@@ -238,6 +959,258 @@ describe('HTTP Request Conversion', () => {
   });
 });
 
+describe('AI Agent Conversion', () => {
+  const agentWorkflow: N8nWorkflow = {
+    name: 'Agent Workflow',
+    nodes: [
+      sampleWorkflow.nodes[0],
+      {
+        id: '2',
+        name: 'AI Agent',
+        type: '@n8n/n8n-nodes-langchain.agent',
+        typeVersion: 1.7,
+        position: [450, 300],
+        parameters: { options: { systemMessage: 'Answer briefly.' } },
+      },
+      {
+        id: '3',
+        name: 'Calculator',
+        type: '@n8n/n8n-nodes-langchain.toolCalculator',
+        typeVersion: 1,
+        position: [450, 500],
+        parameters: {},
+      },
+    ],
+    connections: {
+      'Manual Trigger': { main: [[{ node: 'AI Agent', type: 'main', index: 0 }]] },
+      'Calculator': { ai_tool: [[{ node: 'AI Agent', type: 'ai_tool', index: 0 }]] },
+    },
+  };
+
+  it('should declare AgentKit agents at module scope and run the network in the function body', () => {
+    const result = convertWorkflow(agentWorkflow, { useAgentKit: true });
+
+    expect(result.code).toContain('\nconst calculatorTool = createTool({');
+    expect(result.code).toContain('\nconst aiAgentNetwork = createNetwork({');
+    expect(result.code).toContain('    const aiAgent = n8nAgentOutput(await aiAgentNetwork.run(n8nAgentInput(inputData)));');
+    expect(result.code).not.toContain('step.run("ai-agent"');
+    expect(result.code).not.toContain('step.run("calculator"');
+  });
+
+  it('should keep the conversation of the session in the chat memory', () => {
+    const withMemory = (type: string, parameters: Record<string, unknown>): N8nWorkflow => ({
+      ...agentWorkflow,
+      nodes: [...agentWorkflow.nodes, { id: '4', name: 'Memory', type, typeVersion: 1.3, position: [650, 500], parameters }],
+      connections: {
+        ...agentWorkflow.connections,
+        'Memory': { ai_memory: [[{ node: 'AI Agent', type: 'ai_memory', index: 0 }]] },
+      },
+    });
+
+    const postgres = convertWorkflow(withMemory('@n8n/n8n-nodes-langchain.memoryPostgresChat', { tableName: 'chats', contextWindowLength: 3 }), { useAgentKit: true });
+    expect(postgres.code).toContain('import { Pool } from "pg";');
+    expect(postgres.code).toContain('const aiAgentMemory = n8nPostgresChatMemory("chats");');
+    expect(postgres.code).toContain('  history: n8nChatHistory(aiAgentMemory, 6, "ai-agent"),');
+    expect(postgres.code).toContain('{ state: createState({}, { threadId: n8nChatSessionKey(((data: any) => data.sessionId)(inputData)) }) }');
+
+    const buffer = convertWorkflow(withMemory('@n8n/n8n-nodes-langchain.memoryBufferWindow', { sessionIdType: 'customKey', sessionKey: '={{ $json.userId }}' }), { useAgentKit: false });
+    expect(buffer.code).toContain('const aiAgentMemory = n8nInMemoryChatMemory();');
+    expect(buffer.code).toContain('const sessionKey = n8nChatSessionKey(data.userId);');
+    expect(buffer.code).toContain('await aiAgentMemory.append(sessionKey, [{ role: "user", content: input }, { role: "assistant", content: output }]);');
+  });
+
+  it('should validate the agent output with the output parser schema and re-prompt on errors', () => {
+    const withParser = (parameters: Record<string, unknown>, typeVersion: number): N8nWorkflow => ({
+      ...agentWorkflow,
+      nodes: [...agentWorkflow.nodes, { id: '4', name: 'Parser', type: '@n8n/n8n-nodes-langchain.outputParserStructured', typeVersion, position: [650, 500], parameters }],
+      connections: {
+        ...agentWorkflow.connections,
+        'Parser': { ai_outputParser: [[{ node: 'AI Agent', type: 'ai_outputParser', index: 0 }]] },
+      },
+    });
+
+    const example = convertWorkflow(withParser({ jsonSchemaExample: '{ "city": "Paris", "tags": ["a"] }' }, 1.3), { useAgentKit: true });
+    expect(example.code).toContain('const aiAgentOutputSchema = z.object({\n  city: z.string(),\n  tags: z.array(z.string()),\n});');
+    expect(example.code).toContain('parameters: z.object({ output: aiAgentOutputSchema }),');
+    expect(example.code).toContain('tools: [calculatorTool, aiAgentOutputTool],');
+    expect(example.code).toContain('const aiAgent = n8nAgentStructuredOutput(await aiAgentNetwork.run(n8nAgentInput(inputData)));');
+    expect(example.code).not.toContain('step.run("parser"');
+
+    const schema = JSON.stringify({ type: 'object', properties: { name: { type: 'string' }, age: { type: 'integer' } }, required: ['name'] });
+    const manual = convertWorkflow(withParser({ schemaType: 'manual', inputSchema: schema }, 1.2), { useAgentKit: false });
+    expect(manual.code).toContain('const aiAgentOutputSchema = z.object({\n  name: z.string(),\n  age: z.number().int().optional(),\n});');
+    expect(manual.code).toContain('const parsed = n8nParseStructuredOutput(aiAgentOutputSchema, output ?? "");');
+    expect(manual.code).toContain('if (attempt === 2) {');
+  });
+});
+
+describe('RAG Conversion', () => {
+  const subNode = (id: string, name: string, type: string, parameters: Record<string, unknown>, typeVersion = 1): N8nNode => ({
+    id, name, type: `@n8n/n8n-nodes-langchain.${type}`, typeVersion, position: [450, 500], parameters,
+  });
+  const connect = (from: string, to: string, type: string) => ({ [from]: { [type]: [[{ node: to, type, index: 0 }]] } });
+
+  it('should split, embed and insert documents into the vector store', () => {
+    const workflow: N8nWorkflow = {
+      name: 'Ingest',
+      nodes: [
+        sampleWorkflow.nodes[0],
+        subNode('2', 'Pinecone Vector Store', 'vectorStorePinecone', { mode: 'insert', pineconeIndex: { __rl: true, value: 'docs', mode: 'list' } }),
+        subNode('3', 'Embeddings OpenAI', 'embeddingsOpenAi', {}),
+        subNode('4', 'Data Loader', 'documentDefaultDataLoader', { jsonMode: 'expressionData', jsonData: '={{ $json.body }}', textSplittingMode: 'custom' }, 1.1),
+        subNode('5', 'Splitter', 'textSplitterRecursiveCharacterTextSplitter', { chunkSize: 500, chunkOverlap: 50 }),
+      ],
+      connections: {
+        'Manual Trigger': { main: [[{ node: 'Pinecone Vector Store', type: 'main', index: 0 }]] },
+        ...connect('Embeddings OpenAI', 'Pinecone Vector Store', 'ai_embedding'),
+        ...connect('Data Loader', 'Pinecone Vector Store', 'ai_document'),
+        ...connect('Splitter', 'Data Loader', 'ai_textSplitter'),
+      },
+    };
+
+    const result = convertWorkflow(workflow);
+
+    expect(result.code).toContain('const pineconeVectorStoreClient = n8nPineconeVectorStore("docs");');
+    expect(result.code).toContain('const documents = items.flatMap((data) => n8nSplitText(String(data.body), 500, 50)');
+    expect(result.code).toContain('await n8nAddDocuments(pineconeVectorStoreClient, embeddingsOpenai, documents);');
+    expect(result.code).toContain('id: n8nDocumentId(document),');
+    expect(result.code).not.toContain('step.run("data-loader"');
+  });
+
+  it('should add documents idempotently, so step retries do not duplicate them', () => {
+    const workflow: N8nWorkflow = {
+      name: 'Ingest',
+      nodes: [
+        sampleWorkflow.nodes[0],
+        subNode('2', 'Postgres Store', 'vectorStorePGVector', { mode: 'insert', tableName: 'docs' }),
+        subNode('3', 'Embeddings OpenAI', 'embeddingsOpenAi', {}),
+      ],
+      connections: {
+        'Manual Trigger': { main: [[{ node: 'Postgres Store', type: 'main', index: 0 }]] },
+        ...connect('Embeddings OpenAI', 'Postgres Store', 'ai_embedding'),
+      },
+    };
+
+    const { code } = convertWorkflow(workflow);
+    expect(code).toContain('VALUES ($1, $2, $3, $4::vector) ON CONFLICT (${columns.id}) DO NOTHING');
+    expect(code).toContain('[n8nDocumentId(document), document.pageContent');
+
+    const { n8nDocumentId } = loadHelpers(code, ['n8nDocumentId'], { createHash });
+    const document = { pageContent: 'Refunds take 5 days.', metadata: { source: 'faq' } };
+    expect(n8nDocumentId(document)).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/);
+    expect(n8nDocumentId({ ...document })).toBe(n8nDocumentId(document));
+    expect(n8nDocumentId({ ...document, metadata: { source: 'handbook' } })).not.toBe(n8nDocumentId(document));
+  });
+
+  it('should answer from the retrieved documents and search the store from agent tools', () => {
+    const storeNodes = [
+      subNode('4', 'Vector Store', 'vectorStoreInMemory', { memoryKey: 'kb' }),
+      subNode('5', 'Embeddings', 'embeddingsOpenAi', {}),
+    ];
+    const qa: N8nWorkflow = {
+      name: 'QA',
+      nodes: [
+        sampleWorkflow.nodes[0],
+        subNode('2', 'QA Chain', 'chainRetrievalQa', { promptType: 'define', text: '={{ $json.question }}' }, 1.5),
+        subNode('3', 'Retriever', 'retrieverVectorStore', { topK: 6 }),
+        ...storeNodes,
+      ],
+      connections: {
+        'Manual Trigger': { main: [[{ node: 'QA Chain', type: 'main', index: 0 }]] },
+        ...connect('Retriever', 'QA Chain', 'ai_retriever'),
+        ...connect('Vector Store', 'Retriever', 'ai_vectorStore'),
+        ...connect('Embeddings', 'Vector Store', 'ai_embedding'),
+      },
+    };
+
+    const chain = convertWorkflow(qa);
+    expect(chain.code).toContain('const vectorStoreClient = n8nInMemoryVectorStore("kb");');
+    expect(chain.code).toContain('const matches = await n8nSimilaritySearch(vectorStoreClient, embeddings, query, 6);');
+    // A function replacer keeps `$&` and the like in the documents literal
+    expect(chain.code).toContain('.replace("{context}", () => documents) },');
+    expect(chain.code).toContain('return { response: output };');
+
+    const agent = convertWorkflow({
+      name: 'Agent',
+      nodes: [
+        sampleWorkflow.nodes[0],
+        subNode('2', 'AI Agent', 'agent', {}, 1.7),
+        subNode('3', 'Docs Tool', 'toolVectorStore', { name: 'company_docs', description: 'Company handbook' }),
+        ...storeNodes,
+      ],
+      connections: {
+        'Manual Trigger': { main: [[{ node: 'AI Agent', type: 'main', index: 0 }]] },
+        ...connect('Docs Tool', 'AI Agent', 'ai_tool'),
+        ...connect('Vector Store', 'Docs Tool', 'ai_vectorStore'),
+        ...connect('Embeddings', 'Vector Store', 'ai_embedding'),
+      },
+    }, { useAgentKit: true });
+    expect(agent.code).toContain('name: "company_docs",');
+    expect(agent.code).toContain('const run = async () => (await n8nSimilaritySearch(vectorStoreClient, embeddings, query, 4)).map(({ document }) => document);');
+  });
+});
+
+describe('LLM Inference Conversion', () => {
+  const chain = (model: N8nNode, parameters: Record<string, unknown> = {}, extra: N8nNode[] = []): N8nWorkflow => ({
+    name: 'Chain',
+    nodes: [
+      sampleWorkflow.nodes[0],
+      { id: '2', name: 'Summarize', type: '@n8n/n8n-nodes-langchain.chainLlm', typeVersion: 1.5, position: [450, 300], parameters: { promptType: 'define', text: '=Summarize {{ $json.text }}', ...parameters } },
+      model,
+      ...extra,
+    ],
+    connections: {
+      'Manual Trigger': { main: [[{ node: 'Summarize', type: 'main', index: 0 }]] },
+      [model.name]: { ai_languageModel: [[{ node: 'Summarize', type: 'ai_languageModel', index: 0 }]] },
+      ...(extra.length > 0 ? { [extra[0].name]: { ai_outputParser: [[{ node: 'Summarize', type: 'ai_outputParser', index: 0 }]] } } : {}),
+    },
+  });
+  const model = (type: string, parameters: Record<string, unknown>): N8nNode => ({
+    id: '3', name: 'Model', type: `@n8n/n8n-nodes-langchain.${type}`, typeVersion: 1, position: [450, 500], parameters,
+  });
+
+  it('should offload LLM chain prompts to step.ai.infer with the model provider adapter', () => {
+    const openai = convertWorkflow(chain(model('lmChatOpenAi', { model: { __rl: true, value: 'gpt-4o-mini', mode: 'list' }, options: { temperature: 0.2 } }), {
+      messages: { messageValues: [{ message: 'You summarize tickets.' }] },
+    }));
+    expect(openai.code).toContain('const summarize = n8nLlmChainOutput(await step.ai.infer("summarize", {');
+    expect(openai.code).toContain('model: step.ai.models.openai({ model: "gpt-4o-mini", apiKey: process.env.N8N_OPENAI_API_KEY }),');
+    expect(openai.code).toContain('body: { messages: [{ role: "system", content: "You summarize tickets." }, { role: "user", content: `Summarize ${(inputData as any).text}` }], temperature: 0.2 },');
+    expect(openai.code).not.toContain('fetch(');
+
+    const parser: N8nNode = {
+      id: '4', name: 'Parser', type: '@n8n/n8n-nodes-langchain.outputParserStructured', typeVersion: 1.3, position: [650, 500],
+      parameters: { jsonSchemaExample: '{ "topic": "billing" }' },
+    };
+    const anthropic = convertWorkflow(chain(model('lmChatAnthropic', { model: 'claude-3-5-haiku-latest' }), {}, [parser]));
+    expect(anthropic.code).toContain('model: step.ai.models.anthropic({ model: "claude-3-5-haiku-latest", apiKey: process.env.N8N_ANTHROPIC_API_KEY, defaultParameters: { max_tokens: 4096 } }),');
+    expect(anthropic.code).toContain('system: "Respond only with JSON in the format of this example:\\n{\\"topic\\":\\"billing\\"}"');
+    expect(anthropic.code).toContain('const summarize = summarizeOutput(await step.ai.infer("summarize", {');
+    expect(anthropic.code).toContain('const parsed = n8nParseStructuredOutput(summarizeOutputSchema, n8nInferText(result));');
+  });
+
+  it('should call OpenAI message operations with step.ai.infer and Ollama models with fetch', () => {
+    const openai = convertWorkflow({
+      name: 'Ask',
+      nodes: [
+        sampleWorkflow.nodes[0],
+        {
+          id: '2', name: 'Ask OpenAI', type: 'n8n-nodes-base.openAi', typeVersion: 1, position: [450, 300],
+          parameters: { resource: 'chat', model: 'gpt-4o', messages: { values: [{ role: 'user', content: '={{ $json.question }}' }] }, options: { topP: 0.9 } },
+        },
+      ],
+      connections: { 'Manual Trigger': { main: [[{ node: 'Ask OpenAI', type: 'main', index: 0 }]] } },
+    });
+    expect(openai.code).toContain('const askOpenai = n8nOpenAIMessageOutput(await step.ai.infer("ask-openai", {');
+    expect(openai.code).toContain('body: { messages: [{ role: "user", content: String((inputData as any).question) }], top_p: 0.9 },');
+
+    const ollama = convertWorkflow(chain(model('lmChatOllama', { model: 'llama3' })));
+    expect(ollama.code).toContain('const summarize = await step.run("summarize", async () => {');
+    expect(ollama.code).toContain('process.env.N8N_OLLAMA_BASE_URL || "http://localhost:11434/v1"}/chat/completions');
+    expect(ollama.code).not.toContain('step.ai.infer');
+  });
+});
+
 describe('Code Node Conversion', () => {
   const codeWorkflow: N8nWorkflow = {
     name: 'Code Workflow',
@@ -283,6 +1256,110 @@ describe('Code Node Conversion', () => {
   });
 });
 
+describe('Expression Conversion', () => {
+  const expressionWorkflow = (value: string): N8nWorkflow => ({
+    name: 'Expression Workflow',
+    nodes: [
+      {
+        id: '1',
+        name: 'Manual Trigger',
+        type: 'n8n-nodes-base.manualTrigger',
+        typeVersion: 1,
+        position: [250, 300],
+        parameters: {},
+      },
+      {
+        id: '2',
+        name: 'Get User',
+        type: 'n8n-nodes-base.httpRequest',
+        typeVersion: 4,
+        position: [450, 300],
+        parameters: { url: 'https://api.example.com/user', method: 'GET' },
+      },
+      {
+        id: '3',
+        name: 'Build Message',
+        type: 'n8n-nodes-base.set',
+        typeVersion: 3,
+        position: [650, 300],
+        parameters: {
+          assignments: { assignments: [{ name: 'message', value }] },
+        },
+      },
+    ],
+    connections: {
+      'Manual Trigger': { main: [[{ node: 'Get User', type: 'main', index: 0 }]] },
+      'Get User': { main: [[{ node: 'Build Message', type: 'main', index: 0 }]] },
+    },
+  });
+
+  it('should translate every interpolation in mixed text', () => {
+    const result = convertWorkflow(expressionWorkflow(
+      "=Hi {{ $json.name }}, you have {{ $('Get User').item.json.count + 1 }} `new` items"
+    ));
+
+    expect(result.code).toContain('"message": `Hi ${data.name}, you have ${getUser.count + 1} \\`new\\` items`');
+  });
+
+  it('should keep a lone expression as raw JavaScript', () => {
+    const result = convertWorkflow(expressionWorkflow(
+      "={{ $json.tags?.length > 0 ? $input.all().map(item => item.json.id).join(', ') : $vars.DEFAULT_TAG }}"
+    ));
+
+    expect(result.code).toContain(
+      '"message": (data.tags?.length > 0 ? [data].flat().map((json) => ({ json })).map(item => item.json.id).join(", ") : process.env.DEFAULT_TAG)'
+    );
+  });
+
+  it('should warn instead of emitting broken code for invalid expressions', () => {
+    const result = convertWorkflow(expressionWorkflow('={{ $json.total + }}'));
+
+    expect(result.code).toContain('"message": "={{ $json.total + }}"');
+    expect(result.warnings).toContainEqual(expect.stringContaining('Node "Build Message": Could not translate expression'));
+  });
+
+  it('should translate date expressions to Luxon', () => {
+    const result = convertWorkflow(expressionWorkflow(
+      "={{ $now.minus({days: 1}).toFormat('yyyy-MM-dd') }} / {{ $json.createdAt.toDateTime().plus(2, 'weeks').format('DD') }}"
+    ));
+
+    expect(result.code).toContain('import { DateTime } from "luxon";');
+    expect(result.code).toContain('function n8nToDateTime(');
+    expect(result.code).toContain(
+      '"message": `${DateTime.now().minus({ days: 1 }).toFormat("yyyy-MM-dd")} / ${n8nToDateTime(data.createdAt).plus({ weeks: 2 }).toFormat("DD")}`'
+    );
+  });
+
+  it('should map n8n extension methods to generated helpers', () => {
+    const result = convertWorkflow(expressionWorkflow(
+      '={{ $json.tags.isEmpty() ? $json.email.extractDomain() : $json.tags.pluck("name").first().toTitleCase() }}'
+    ));
+
+    expect(result.code).toContain(
+      '"message": (n8nIsEmpty(data.tags) ? n8nExtractDomain(data.email) : n8nToTitleCase(n8nFirst(n8nPluck(data.tags, "name"))))'
+    );
+    ['n8nIsEmpty', 'n8nExtractDomain', 'n8nPluck', 'n8nFirst', 'n8nToTitleCase'].forEach(helper => {
+      expect(result.code).toContain(`function ${helper}(`);
+    });
+  });
+
+  it('should resolve workflow and parameter variables at conversion time', () => {
+    const value = '={{ $workflow.id }} {{ $workflow.name }} {{ $parameter.mode }}';
+    const result = convertWorkflow({ ...expressionWorkflow(value), id: 'wf-42' });
+
+    expect(result.code).toContain('"message": `${"wf-42"} ${"Expression Workflow"} ${undefined}`');
+    expect(result.warnings).toContain('Node "Build Message": Parameter "mode" does not exist on the node; it resolves to undefined.');
+  });
+
+  it('should warn when $workflow.id or $prevNode cannot be resolved', () => {
+    const workflow = expressionWorkflow('={{ $workflow.id }} {{ $prevNode.name }}');
+    const result = convertWorkflow({ ...workflow, connections: {} });
+
+    expect(result.warnings).toContain('Node "Build Message": $workflow.id is not set in the workflow JSON; it resolves to undefined.');
+    expect(result.warnings).toContain('Node "Build Message": $prevNode is used on a node without an input connection; it resolves to undefined.');
+  });
+});
+
 describe('Supabase Node Conversion', () => {
   const supabaseWorkflow: N8nWorkflow = {
     name: 'Supabase Workflow',
@@ -410,6 +1487,268 @@ describe('Loop/Batch Conversion', () => {
       expect.stringMatching(/loop|batch/i)
     );
   });
+  const loopBodyWorkflow: N8nWorkflow = {
+    name: 'Batch Sync',
+    nodes: [
+      ...loopWorkflow.nodes,
+      { id: '3', name: 'Send Batch', type: 'n8n-nodes-base.noOp', typeVersion: 1, position: [650, 200], parameters: {} },
+      { id: '4', name: 'Report', type: 'n8n-nodes-base.noOp', typeVersion: 1, position: [650, 400], parameters: {} },
+    ],
+    connections: {
+      ...loopWorkflow.connections,
+      'Loop Over Items': {
+        main: [
+          [{ node: 'Report', type: 'main', index: 0 }],
+          [{ node: 'Send Batch', type: 'main', index: 0 }],
+        ],
+      },
+      'Send Batch': {
+        main: [[{ node: 'Loop Over Items', type: 'main', index: 0 }]],
+      },
+    },
+  };
+
+  it('should run the loop body once per batch', () => {
+    const result = convertWorkflow(loopBodyWorkflow);
+
+    expect(result.code).toContain('for (let loopOverItemsIndex = 0; loopOverItemsIndex < loopOverItems.batches.length; loopOverItemsIndex++)');
+    expect(result.code).toContain('step.run(`send-batch-${loopOverItemsIndex}`');
+    expect(result.code).toContain('loopOverItemsDone.push(');
+    expect(result.code.indexOf('step.run("report"')).toBeGreaterThan(result.code.indexOf('loopOverItemsDone.push('));
+  });
+
+  it('should fan out batches to a child function', () => {
+    const result = convertWorkflow(loopBodyWorkflow, { batchStrategy: 'fanOut' });
+
+    expect(result.code).toContain('step.sendEvent("loop-over-items-fan-out"');
+    expect(result.code).toContain('{ event: "app/batch-sync.loop-over-items.batch" }');
+    expect(result.code).toContain('export const functions = [batchSync, loopOverItemsBatchHandler];');
+    expect(result.functions[0].code).not.toContain('step.run("send-batch"');
+  });
+});
+
+describe('Item Semantics', () => {
+  const itemsWorkflow: N8nWorkflow = {
+    name: 'Items Workflow',
+    nodes: [
+      { id: '1', name: 'Manual Trigger', type: 'n8n-nodes-base.manualTrigger', typeVersion: 1, position: [250, 300], parameters: {} },
+      {
+        id: '2',
+        name: 'Set Greeting',
+        type: 'n8n-nodes-base.set',
+        typeVersion: 3,
+        position: [450, 300],
+        parameters: { assignments: { assignments: [{ name: 'greeting', value: '=Hi {{ $json.name }} #{{ $itemIndex }}' }] } },
+      },
+      {
+        id: '3',
+        name: 'Is VIP',
+        type: 'n8n-nodes-base.if',
+        typeVersion: 2,
+        position: [650, 300],
+        parameters: {
+          conditions: {
+            conditions: [{ leftValue: '={{ $json.vip }}', rightValue: 'yes', operator: { type: 'string', operation: 'equals' } }],
+            combinator: 'and',
+          },
+        },
+      },
+      { id: '4', name: 'VIP Path', type: 'n8n-nodes-base.noOp', typeVersion: 1, position: [850, 200], parameters: {} },
+      { id: '5', name: 'Regular Path', type: 'n8n-nodes-base.noOp', typeVersion: 1, position: [850, 400], parameters: {} },
+    ],
+    connections: {
+      'Manual Trigger': { main: [[{ node: 'Set Greeting', type: 'main', index: 0 }]] },
+      'Set Greeting': { main: [[{ node: 'Is VIP', type: 'main', index: 0 }]] },
+      'Is VIP': {
+        main: [
+          [{ node: 'VIP Path', type: 'main', index: 0 }],
+          [{ node: 'Regular Path', type: 'main', index: 0 }],
+        ],
+      },
+    },
+  };
+
+  it('should run per-item nodes once for every input item', () => {
+    const result = convertWorkflow(itemsWorkflow, { itemSemantics: true });
+
+    expect(result.code).toContain('function n8nToItems(');
+    expect(result.code).toContain('const items = n8nToItems(inputData);');
+    expect(result.code).toContain('const data = item.json;');
+    expect(result.code).toContain('"greeting": `Hi ${data.name} #${itemIndex}`');
+    expect(result.code).toContain('results.push(...n8nToItems(await runItem(items[itemIndex], itemIndex)));');
+  });
+
+  it('should route items to every IF output that receives them', () => {
+    const result = convertWorkflow(itemsWorkflow, { itemSemantics: true });
+
+    expect(result.program.functions[0].body.find(node => node.kind === 'branch')).toMatchObject({ routing: 'items' });
+    expect(result.code).toContain('if ((data.vip === "yes")) return 0;');
+    expect(result.code).toContain('if (isVip.outputs[0]?.length) {');
+    expect(result.code).toContain('if (isVip.outputs[1]?.length) {');
+    expect(result.code).toContain('return n8nToItems(isVip.outputs[1]);');
+    expect(result.code).not.toContain('} else {');
+  });
+});
+
+describe('Node Error Settings', () => {
+  const errorWorkflow: N8nWorkflow = {
+    name: 'Error Settings Workflow',
+    nodes: [
+      { id: '1', name: 'Manual Trigger', type: 'n8n-nodes-base.manualTrigger', typeVersion: 1, position: [250, 300], parameters: {} },
+      {
+        id: '2',
+        name: 'Fetch Data',
+        type: 'n8n-nodes-base.httpRequest',
+        typeVersion: 4,
+        position: [450, 300],
+        parameters: { method: 'GET', url: 'https://api.example.com/data' },
+        retryOnFail: true,
+        maxTries: 5,
+        waitBetweenTries: 2000,
+        onError: 'continueErrorOutput',
+      },
+      { id: '3', name: 'Handle Data', type: 'n8n-nodes-base.noOp', typeVersion: 1, position: [650, 200], parameters: {} },
+      { id: '4', name: 'Log Error', type: 'n8n-nodes-base.noOp', typeVersion: 1, position: [650, 400], parameters: {}, continueOnFail: true },
+    ],
+    connections: {
+      'Manual Trigger': { main: [[{ node: 'Fetch Data', type: 'main', index: 0 }]] },
+      'Fetch Data': {
+        main: [
+          [{ node: 'Handle Data', type: 'main', index: 0 }],
+          [{ node: 'Log Error', type: 'main', index: 0 }],
+        ],
+      },
+    },
+  };
+
+  it('should parse error settings, mapping continueOnFail to continueRegularOutput', () => {
+    const parsed = parseWorkflow(errorWorkflow);
+
+    expect(parsed.nodes.find(n => n.name === 'Fetch Data')?.errorSettings).toEqual({
+      onError: 'continueErrorOutput',
+      retryOnFail: true,
+      maxTries: 5,
+      waitBetweenTries: 2000,
+    });
+    expect(parsed.nodes.find(n => n.name === 'Log Error')?.errorSettings.onError).toBe('continueRegularOutput');
+  });
+
+  it('should retry with RetryAfterError and route failures to the error output', () => {
+    const result = convertWorkflow(errorWorkflow);
+
+    expect(result.code).toContain('import { Inngest, EventSchemas, RetryAfterError } from "inngest";');
+    expect(result.code).toContain('async ({ event, step, attempt }) => {');
+    expect(result.code).toContain('retries: 4');
+    expect(result.code).toContain('if (attempt < 4) {');
+    expect(result.code).toContain('throw new RetryAfterError(message, 2000, { cause: error });');
+    expect(result.code).toContain('return { ok: true as const, data: await runNode() };');
+    expect(result.code).toContain('return { ok: false as const, error: { error: message } };');
+    expect(result.code).toContain('if (fetchData.ok) {');
+    expect(result.code).toContain('return fetchData.data;');
+    expect(result.code).toContain('return fetchData.error;');
+    expect(result.code).not.toContain('fetchData.error) {');
+    expect(result.code).toContain('return { error: message };');
+  });
+});
+
+describe('Error Workflow', () => {
+  const failingWorkflow: N8nWorkflow = {
+    ...sampleWorkflow,
+    id: 'main-wf',
+    settings: { errorWorkflow: 'AlertsWf' },
+  };
+
+  it('should send failures to the error workflow as Error Trigger data', () => {
+    const result = convertWorkflow(failingWorkflow);
+
+    expect(result.code).not.toContain('onFailure: true');
+    expect(result.code).toContain('onFailure: async ({ error, event, step }) => {');
+    expect(result.code).toContain('workflow: { id: "main-wf", name: "Test Workflow" },');
+    expect(result.code).toContain('name: "app/alertswf.error",');
+  });
+
+  it('should trigger the error workflow on the event its callers send', () => {
+    const errorWorkflow: N8nWorkflow = {
+      name: 'Alerts',
+      id: 'AlertsWf',
+      nodes: [
+        { id: '1', name: 'Error Trigger', type: 'n8n-nodes-base.errorTrigger', typeVersion: 1, position: [250, 300], parameters: {} },
+      ],
+      connections: {},
+    };
+    const result = convertWorkflow(errorWorkflow);
+
+    expect(result.code).toContain('{ event: "app/alertswf.error" }');
+  });
+
+  it('should inline a user-supplied onFailure handler', () => {
+    const result = convertWorkflow(failingWorkflow, {
+      onFailureHandler: 'await notifyOps(errorData);',
+    });
+
+    expect(result.code).toContain('    await notifyOps(errorData);');
+    expect(result.code).not.toContain('send-to-error-workflow');
+  });
+});
+
+describe('Sub-workflows', () => {
+  const subWorkflow: N8nWorkflow = {
+    name: 'Enrich Order',
+    id: 'EnrichWf',
+    nodes: [
+      {
+        id: '1',
+        name: 'When Executed',
+        type: 'n8n-nodes-base.executeWorkflowTrigger',
+        typeVersion: 1.1,
+        position: [250, 300],
+        parameters: { workflowInputs: { values: [{ name: 'orderId', type: 'string' }, { name: 'total', type: 'number' }] } },
+      },
+    ],
+    connections: {},
+  };
+
+  const callWorkflow = (options: Record<string, unknown>): N8nWorkflow => ({
+    ...sampleWorkflow,
+    nodes: [
+      sampleWorkflow.nodes[0],
+      {
+        id: '2',
+        name: 'Enrich',
+        type: 'n8n-nodes-base.executeWorkflow',
+        typeVersion: 1.2,
+        position: [450, 300],
+        parameters: {
+          workflowId: { __rl: true, value: 'EnrichWf', mode: 'list' },
+          workflowInputs: { mappingMode: 'defineBelow', value: { orderId: '={{ $json.body.id }}' } },
+          options,
+        },
+      },
+    ],
+    connections: { 'Manual Trigger': { main: [[{ node: 'Enrich', type: 'main', index: 0 }]] } },
+  });
+
+  it('should convert the Execute Workflow Trigger to a function with typed input', () => {
+    const result = convertWorkflow(subWorkflow);
+
+    expect(result.code).toContain("id: 'sub-workflow-enrich-order'");
+    expect(result.code).toContain('{ event: "app/enrich-order.execute" }');
+    expect(result.code).toContain('    orderId: string;\n    total: number;');
+  });
+
+  it('should invoke the sub-workflow function found by workflow ID', () => {
+    const result = convertWorkflow(callWorkflow({}), { workflows: [{ id: 'EnrichWf', name: 'Enrich Order' }] });
+
+    expect(result.code).toContain('import { Inngest, EventSchemas, referenceFunction } from "inngest";');
+    expect(result.code).toContain('const enrichResult: any = await step.invoke("enrich", { function: referenceFunction({ appId: "enrich-order", functionId: "sub-workflow-enrich-order" }), data: ((data) => ({ orderId: data.body.id }))(inputData) });');
+  });
+
+  it('should send the sub-workflow event when not waiting for it', () => {
+    const result = convertWorkflow(callWorkflow({ waitForSubWorkflow: false }), { workflows: [{ id: 'EnrichWf', name: 'Enrich Order' }] });
+
+    expect(result.code).toContain('await step.sendEvent("enrich", { name: "app/enrich-order.execute", data: ((data) => ({ orderId: data.body.id }))(inputData) });');
+    expect(result.code).not.toContain('step.invoke');
+  });
 });
 
 describe('Complex Workflow', () => {
@@ -9,15 +9,19 @@ import { readFileSync, writeFileSync, existsSync } from 'fs';
 import { resolve, dirname, basename } from 'path';
 import { N8nWorkflow } from './types/n8n.js';
 import { convertWorkflow, ConversionOutput } from './converter/index.js';
-import { CodeGenerationOptions } from './types/inngest.js';
+import { CodeGenerationOptions, EventSchemaMode, WebhookFramework } from './types/inngest.js';
 
 interface CLIOptions {
-  input: string;
+  inputs: string[];
   output?: string;
   useAgentKit?: boolean;
   eventPrefix?: string;
   includeComments?: boolean;
   format?: boolean;
+  itemSemantics?: boolean;
+  onFailure?: string;
+  webhookFramework?: WebhookFramework;
+  eventSchemas?: EventSchemaMode;
 }
 
 const HELP_TEXT = `
@@ -27,24 +31,30 @@ n8n to Inngest Converter
 Convert n8n workflow JSON files to Inngest TypeScript functions.
 
 Usage:
-  npx n8n-to-inngest <input-file> [options]
-  ts-node src/cli.ts <input-file> [options]
+  npx n8n-to-inngest <input-file...> [options]
+  ts-node src/cli.ts <input-file...> [options]
 
 Arguments:
-  input-file          Path to n8n workflow JSON file
+  input-file          Path to n8n workflow JSON file; pass several to resolve Execute Workflow
+                      nodes against each other's sub-workflows
 
 Options:
-  -o, --output <file>     Output file path (default: <input>-inngest.ts)
+  -o, --output <file>     Output file path, with a single input (default: <input>-inngest.ts)
   -a, --use-agentkit      Use AgentKit for AI nodes (default: true)
   -p, --prefix <prefix>   Event name prefix (default: "app")
   -c, --no-comments       Exclude comments from output
   -f, --format            Format output with Prettier
+  -i, --item-semantics    Pass n8n items arrays between steps, running per-item nodes once per item
+  -w, --webhook <name>    Webhook ingress to generate: node, express, nextjs or none (default: node)
+  -s, --schemas <mode>    Event schemas of the Inngest client: types, zod or none (default: types)
+  --on-failure <file>     Inline this onFailure handler body instead of sending failures to the error workflow
   -h, --help              Show this help message
 
 Examples:
   npx n8n-to-inngest workflow.json
   npx n8n-to-inngest workflow.json -o functions.ts
   npx n8n-to-inngest workflow.json --prefix myapp --no-comments
+  npx n8n-to-inngest main.json enrich-order.json
 
 Output:
   The tool generates a TypeScript file containing:
@@ -67,7 +77,7 @@ Environment Variables:
  */
 function parseArgs(args: string[]): CLIOptions {
   const options: CLIOptions = {
-    input: '',
+    inputs: [],
     useAgentKit: true,
     eventPrefix: 'app',
     includeComments: true,
@@ -96,8 +106,16 @@ function parseArgs(args: string[]): CLIOptions {
       options.includeComments = true;
     } else if (arg === '-f' || arg === '--format') {
       options.format = true;
-    } else if (!arg.startsWith('-') && !options.input) {
-      options.input = arg;
+    } else if (arg === '-i' || arg === '--item-semantics') {
+      options.itemSemantics = true;
+    } else if (arg === '-w' || arg === '--webhook') {
+      options.webhookFramework = args[++i] as WebhookFramework;
+    } else if (arg === '-s' || arg === '--schemas') {
+      options.eventSchemas = args[++i] as EventSchemaMode;
+    } else if (arg === '--on-failure') {
+      options.onFailure = args[++i];
+    } else if (!arg.startsWith('-')) {
+      options.inputs.push(arg);
     }
   }
 
@@ -188,8 +206,31 @@ function printSummary(output: ConversionOutput, outputPath: string): void {
     });
   }
 
+  const packages = ['inngest', '@inngest/agent-kit'];
+  if (output.code.includes('from "luxon"')) {
+    packages.push('luxon');
+  }
+  if (output.code.includes('from "express"')) {
+    packages.push('express');
+  }
+  if (output.code.includes('from "zod"')) {
+    packages.push('zod');
+  }
+  if (output.code.includes('from "imapflow"')) {
+    packages.push('imapflow');
+  }
+  if (output.code.includes('from "mailparser"')) {
+    packages.push('mailparser');
+  }
+  if (output.code.includes('from "pg"')) {
+    packages.push('pg');
+  }
+  if (output.code.includes('from "redis"')) {
+    packages.push('redis');
+  }
+
   console.log('\n🚀 Next Steps:');
-  console.log('   1. Install dependencies: npm install inngest @inngest/agent-kit');
+  console.log(`   1. Install dependencies: npm install ${packages.join(' ')}`);
   console.log('   2. Configure environment variables in .env');
   console.log('   3. Review and adjust the generated code');
   console.log('   4. Set up Inngest in your app: https://www.inngest.com/docs');
@@ -199,14 +240,14 @@ function printSummary(output: ConversionOutput, outputPath: string): void {
 /**
  * Generate .env.example file content
  */
-function generateEnvExample(output: ConversionOutput): string {
+function generateEnvExample(envVars: string[]): string {
   const lines = [
     '# Environment Variables for Inngest Functions',
     '# Generated from n8n workflow conversion',
     '',
   ];
 
-  output.envVars.forEach(v => {
+  envVars.forEach(v => {
     lines.push(`${v}=`);
   });
 
@@ -226,50 +267,67 @@ async function main(): Promise<void> {
 
   const options = parseArgs(args);
 
-  if (!options.input) {
+  if (options.inputs.length === 0) {
     console.error('Error: No input file specified\n');
-    console.log('Usage: npx n8n-to-inngest <input-file> [options]');
+    console.log('Usage: npx n8n-to-inngest <input-file...> [options]');
     process.exit(1);
   }
 
-  try {
-    console.log(`\n🔄 Converting: ${options.input}\n`);
-
-    // Read workflow
-    const workflow = readWorkflow(options.input);
-    console.log(`   Workflow: ${workflow.name || 'Unnamed'}`);
-    console.log(`   Nodes: ${workflow.nodes.length}`);
-
-    // Convert
-    const conversionOptions: CodeGenerationOptions = {
-      includeComments: options.includeComments,
-      eventPrefix: options.eventPrefix,
-      useAgentKit: options.useAgentKit,
-      credentialsStrategy: 'env',
-    };
-
-    const output = convertWorkflow(workflow, conversionOptions);
-
-    // Format if requested
-    let code = output.code;
-    if (options.format) {
-      console.log('   Formatting with Prettier...');
-      code = await formatCode(code);
-    }
-
-    // Write output
-    const outputPath = getOutputPath(options.input, options.output);
-    writeFileSync(outputPath, code, 'utf-8');
+  if (options.output && options.inputs.length > 1) {
+    console.error('Error: --output can only be used with a single input file\n');
+    process.exit(1);
+  }
 
-    // Generate .env.example
-    const envExamplePath = resolve(dirname(outputPath), '.env.example');
-    if (output.envVars.length > 0) {
-      writeFileSync(envExamplePath, generateEnvExample(output), 'utf-8');
+  try {
+    // Read all workflows first so Execute Workflow nodes can resolve each other's sub-workflows
+    const workflows = options.inputs.map(input => ({ input, workflow: readWorkflow(input) }));
+    const references = workflows.map(({ workflow }) => ({ id: workflow.id, name: workflow.name || 'converted-workflow' }));
+    const envVars = new Map<string, Set<string>>();
+
+    for (const { input, workflow } of workflows) {
+      console.log(`\n🔄 Converting: ${input}\n`);
+      console.log(`   Workflow: ${workflow.name || 'Unnamed'}`);
+      console.log(`   Nodes: ${workflow.nodes.length}`);
+
+      // Convert
+      const conversionOptions: CodeGenerationOptions = {
+        includeComments: options.includeComments,
+        eventPrefix: options.eventPrefix,
+        useAgentKit: options.useAgentKit,
+        credentialsStrategy: 'env',
+        itemSemantics: options.itemSemantics,
+        webhookFramework: options.webhookFramework,
+        eventSchemas: options.eventSchemas,
+        onFailureHandler: options.onFailure ? readFileSync(resolve(options.onFailure), 'utf-8') : undefined,
+        workflows: references,
+      };
+
+      const output = convertWorkflow(workflow, conversionOptions);
+
+      // Format if requested
+      let code = output.code;
+      if (options.format) {
+        console.log('   Formatting with Prettier...');
+        code = await formatCode(code);
+      }
+
+      // Write output
+      const outputPath = getOutputPath(input, options.output);
+      writeFileSync(outputPath, code, 'utf-8');
+
+      // Generate .env.example, shared by the outputs written to the same directory
+      if (output.envVars.length > 0) {
+        const envExamplePath = resolve(dirname(outputPath), '.env.example');
+        const vars = envVars.get(envExamplePath) ?? new Set<string>();
+        output.envVars.forEach(v => vars.add(v));
+        envVars.set(envExamplePath, vars);
+        writeFileSync(envExamplePath, generateEnvExample([...vars]), 'utf-8');
+      }
+
+      // Print summary
+      printSummary(output, outputPath);
     }
 
-    // Print summary
-    printSummary(output, outputPath);
-
   } catch (error) {
     console.error(`\n❌ Error: ${(error as Error).message}\n`);
     process.exit(1);
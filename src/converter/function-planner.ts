@@ -0,0 +1,175 @@
+/**
+ * Function Planner
+ * Splits a workflow into one node set per function and finds subgraphs shared between functions
+ * Triggers feeding the same first node(s) start the same function
+ */
+
+import {
+  ParsedWorkflow,
+  getReachableNodes,
+  getExclusiveBranchNodes,
+} from '../parser/workflow-parser.js';
+import { groupTriggers } from '../converters/trigger-converters.js';
+
+export interface FunctionPlan {
+  triggerName: string;
+  // Every trigger starting the function, triggerName first
+  triggerNames: string[];
+  nodes: string[];
+}
+
+export interface SharedSubgraph {
+  nodes: string[];
+  triggers: string[];
+}
+
+export interface WorkflowPlan {
+  functions: FunctionPlan[];
+  shared: SharedSubgraph[];
+  unreachable: string[];
+}
+
+/**
+ * Plan the generated functions for a workflow
+ * `executionOrder` lists the converted nodes that emit steps, in execution order
+ */
+export function planFunctions(parsed: ParsedWorkflow, executionOrder: string[]): WorkflowPlan {
+  const graph = parsed.executionGraph;
+  const emitted = new Set(executionOrder);
+
+  // Reachability per function, keyed by its first trigger
+  const triggerGroups = groupTriggers(parsed.triggers).map(group => group.map(t => t.name));
+  const reach = new Map<string, Set<string>>();
+  for (const [triggerName, ...others] of triggerGroups) {
+    const reachable = [triggerName, ...others].flatMap(t => [...getReachableNodes(graph, t)]);
+    reach.set(triggerName, new Set(reachable.filter(n => emitted.has(n))));
+  }
+
+  // Group nodes by the exact set of functions that reach them
+  const groups = new Map<string, SharedSubgraph>();
+  for (const nodeName of executionOrder) {
+    const owners = triggerGroups
+      .map(([t]) => t)
+      .filter(t => reach.get(t)!.has(nodeName));
+    if (owners.length < 2) continue;
+
+    const key = owners.join('\u0000');
+    const group = groups.get(key) || { nodes: [], triggers: owners };
+    group.nodes.push(nodeName);
+    groups.set(key, group);
+  }
+
+  const shared = Array.from(groups.values()).filter(group => isExtractable(group, parsed, reach));
+
+  // Keep every shared subgraph contiguous so it can be emitted as a single call
+  const ordered = orderWithSharedUnits(executionOrder, shared, parsed);
+  shared.forEach(group => {
+    group.nodes = ordered.filter(n => group.nodes.includes(n));
+  });
+
+  const functions = triggerGroups.map(triggerNames => ({
+    triggerName: triggerNames[0],
+    triggerNames,
+    nodes: ordered.filter(n => reach.get(triggerNames[0])!.has(n)),
+  }));
+
+  const unreachable = executionOrder.filter(nodeName =>
+    !functions.some(fn => reach.get(fn.triggerName)!.has(nodeName))
+  );
+
+  return { functions, shared, unreachable };
+}
+
+/**
+ * Check whether a shared group can be lifted out as one unit
+ * It must not be split by a branch block or a batch loop, in any function that reaches it
+ */
+function isExtractable(
+  group: SharedSubgraph,
+  parsed: ParsedWorkflow,
+  reach: Map<string, Set<string>>
+): boolean {
+  const members = new Set(group.nodes);
+
+  for (const triggerName of group.triggers) {
+    const reachable = reach.get(triggerName)!;
+
+    for (const branchInfo of parsed.executionGraph.branches) {
+      if (!reachable.has(branchInfo.conditionNodeName)) continue;
+
+      const branchNodes = Array.from(getExclusiveBranchNodes(branchInfo).values())
+        .flatMap(nodes => [...nodes])
+        .filter(n => reachable.has(n));
+
+      if (members.has(branchInfo.conditionNodeName)) {
+        // Every branch of a member conditional must stay inside the group
+        if (branchNodes.some(n => !members.has(n))) return false;
+      } else if (branchNodes.some(n => members.has(n))) {
+        // Group would start inside another function's branch block
+        return false;
+      }
+    }
+
+    for (const loop of parsed.executionGraph.loops) {
+      if (!reachable.has(loop.startNodeName)) continue;
+
+      const loopNodes = loop.loopNodes.filter(n => reachable.has(n));
+      const inside = loopNodes.filter(n => members.has(n)).length;
+
+      // A loop must be either entirely inside the group or entirely outside it
+      if (members.has(loop.startNodeName) ? inside < loopNodes.length : inside > 0) {
+        return false;
+      }
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Reorder nodes topologically, treating each shared group as a single unit
+ */
+function orderWithSharedUnits(
+  executionOrder: string[],
+  shared: SharedSubgraph[],
+  parsed: ParsedWorkflow
+): string[] {
+  const position = new Map(executionOrder.map((n, i) => [n, i]));
+  const unitOf = new Map<string, string>(executionOrder.map(n => [n, n]));
+  shared.forEach((group, i) => group.nodes.forEach(n => unitOf.set(n, `shared:${i}`)));
+
+  // Unit dependencies from forward edges (back edges of loops are ignored)
+  const dependencies = new Map<string, Set<string>>();
+  unitOf.forEach(unit => dependencies.set(unit, new Set()));
+  for (const edge of parsed.executionGraph.edges) {
+    const from = position.get(edge.from);
+    const to = position.get(edge.to);
+    if (from === undefined || to === undefined || from >= to) continue;
+
+    const fromUnit = unitOf.get(edge.from)!;
+    const toUnit = unitOf.get(edge.to)!;
+    if (fromUnit !== toUnit) {
+      dependencies.get(toUnit)!.add(fromUnit);
+    }
+  }
+
+  const ordered: string[] = [];
+  const placed = new Set<string>();
+
+  while (placed.size < dependencies.size) {
+    // Earliest unit (by original position) whose dependencies are all placed
+    const next = executionOrder
+      .map(n => unitOf.get(n)!)
+      .find(unit => !placed.has(unit) && [...dependencies.get(unit)!].every(d => placed.has(d)));
+
+    if (!next) {
+      // Cyclic units - fall back to the original order for whatever is left
+      ordered.push(...executionOrder.filter(n => !placed.has(unitOf.get(n)!)));
+      break;
+    }
+    placed.add(next);
+    ordered.push(...executionOrder.filter(n => unitOf.get(n) === next));
+  }
+
+  return ordered;
+}
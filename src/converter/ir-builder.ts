@@ -0,0 +1,739 @@
+/**
+ * IR Builder
+ * Builds the intermediate representation of the generated program
+ * from the parsed workflow, converter results and function plan
+ */
+
+import { CodeGenerationOptions, InngestFunctionConfig, InngestStep, InngestTrigger } from '../types/inngest.js';
+import {
+  IRProgram,
+  IRFunction,
+  IRSharedFunction,
+  IRUpstreamInput,
+  IRBlock,
+  IRNode,
+  IRBinding,
+  IRFailureHandler,
+  IRWebhookRoute,
+  IRPoller,
+  IRTriggerSource,
+  IREventSchema,
+} from '../types/ir.js';
+import { ParsedWorkflow, getExclusiveBranchNodes, getPartialBranchNodes, hasErrorOutput } from '../parser/workflow-parser.js';
+import {
+  ConversionContext,
+  ConversionResult,
+  generateSourceAccess,
+  toVariableName,
+  toStepId,
+} from '../converters/base-converter.js';
+import {
+  TriggerConversionResult,
+  errorWorkflowEventName,
+  generateCombinedTriggers,
+} from '../converters/trigger-converters.js';
+import { useWebhookRoutes, generateLastNodeResponseCode } from '../converters/webhook-routes.js';
+import { isFormCompletionNode } from '../converters/form-converters.js';
+import { WorkflowPlan } from './function-planner.js';
+
+/**
+ * Inputs shared by every part of a single build
+ */
+interface BuildState {
+  parsed: ParsedWorkflow;
+  nodeResults: Map<string, ConversionResult>;
+  context: ConversionContext;
+  options: CodeGenerationOptions;
+  // Child functions for fanned-out batch loops, by function ID
+  batchHandlers: Map<string, IRFunction>;
+}
+
+/**
+ * Block-level state for a (possibly nested) sequence of nodes
+ */
+interface BlockScope {
+  // Variables already declared in an enclosing block
+  hoisted: Set<string>;
+  sharedByNode: Map<string, IRSharedFunction>;
+  // Loop index variables of the enclosing batch loops, outermost first
+  loopIndexes: string[];
+}
+
+/**
+ * Build the program for a converted workflow
+ */
+export function buildProgram(
+  parsed: ParsedWorkflow,
+  triggers: TriggerConversionResult[],
+  nodeResults: Map<string, ConversionResult>,
+  plan: WorkflowPlan,
+  context: ConversionContext,
+  options: CodeGenerationOptions
+): IRProgram {
+  const state: BuildState = { parsed, nodeResults, context, options, batchHandlers: new Map() };
+
+  const sharedFunctions: IRSharedFunction[] = plan.shared.map(subgraph => ({
+    name: toVariableName(`run shared ${subgraph.nodes[0]}`),
+    nodes: subgraph.nodes,
+    triggers: subgraph.triggers,
+    inputs: findReferencedVariables(subgraph.nodes, nodeResults),
+    outputs: subgraph.nodes.flatMap(n => getStepVariables(nodeResults.get(n))),
+    body: [],
+    usesAttempt: false,
+  }));
+  sharedFunctions.forEach(shared => {
+    shared.body = buildBlock(shared.nodes, state, createScope());
+    shared.usesAttempt = blockUsesAttempt(shared.body);
+  });
+
+  const sharedByNode = new Map<string, IRSharedFunction>();
+  sharedFunctions.forEach(shared => shared.nodes.forEach(n => sharedByNode.set(n, shared)));
+
+  // One function per trigger (or triggers feeding the same nodes), each with only the nodes it reaches
+  const combinedTypes: string[] = [];
+  const functionIds = new Set<string>();
+  const functions: IRFunction[] = plan.functions.map(fnPlan => {
+    const nodes = fnPlan.triggerNames.map(name => parsed.triggers.find(t => t.name === name)!);
+    const results = nodes.map(node => triggers[parsed.triggers.indexOf(node)]);
+    const trigger = results.length > 1 ? generateCombinedTriggers(nodes, results, context) : results[0];
+    if (trigger.eventTypeDef && results.length > 1) {
+      combinedTypes.push(trigger.eventTypeDef);
+    }
+
+    const functionId = uniqueFunctionId(trigger.config.id || toStepId(parsed.name), functionIds);
+    const title = trigger.config.name || parsed.name;
+    const isCron = trigger.trigger.type === 'cron';
+    const functionTriggers = (trigger.triggers ?? [trigger.trigger]).map(t => withTimezone(t, state));
+    const body: IRBlock = [
+      ...results.flatMap((result, j) => (result.setupSteps ?? []).map(({ step, variable }): IRNode => ({
+        kind: 'step',
+        nodeName: fnPlan.triggerNames[j],
+        step,
+        binding: { variable, kind: 'const' },
+        loopIndexes: [],
+      }))),
+      ...buildBlock(fnPlan.nodes, state, createScope({ sharedByNode })),
+    ];
+    // A form completion screen is the form's response already
+    const responseRoute = results.map(r => r.webhook).find(route => route?.responseMode === 'lastNode');
+    const completesForm = fnPlan.nodes.some(n => isFormCompletionNode(parsed.nodes.find(node => node.name === n)));
+    if (responseRoute && !completesForm) {
+      body.push(buildLastNodeResponse(responseRoute, fnPlan.nodes, state));
+    }
+
+    return {
+      kind: 'trigger',
+      name: toVariableName(functionId),
+      config: buildFunctionConfig(state, functionId, title, fnPlan.nodes),
+      triggers: functionTriggers,
+      description: [
+        title,
+        ...functionTriggers.map(t => (t.type === 'cron' ? `Schedule: ${t.cron}` : `Event: ${t.event}`)),
+      ],
+      input: results.length > 1
+        ? { kind: 'combined', eventType: trigger.eventType!, triggers: buildTriggerSources(fnPlan.triggerNames, results, state) }
+        : isCron ? { kind: 'cron' } : { kind: 'event' },
+      body,
+      // Sub-workflows return their output to the workflow invoking them
+      returnValue: trigger.returnsOutput ? getLastOutput(fnPlan.nodes, state) ?? 'inputData' : '{ success: true }',
+      usesAttempt: blockUsesAttempt(body),
+      onFailure: buildFailureHandler(state),
+    };
+  });
+
+  // Cron functions feeding polling triggers
+  const pollers = triggers
+    .map(t => t.poller)
+    .filter((poller): poller is IRPoller => Boolean(poller))
+    .map(poller => buildPoller(poller, state));
+
+  const webhookRoutes = triggers
+    .map(t => t.webhook)
+    .filter((route): route is IRWebhookRoute => Boolean(route) && options.webhookFramework !== 'none');
+  useWebhookRoutes(webhookRoutes, options.webhookFramework || 'node', context);
+
+  // Events the program triggers on, sends or waits for besides the trigger events
+  const otherEvents = [
+    ...functions.map(fn => fn.onFailure?.eventName),
+    ...Array.from(state.nodeResults.values()).flatMap(r =>
+      r.steps.map(step => (step.type === 'waitForEvent' || step.type === 'sendEvent' ? step.eventName : undefined))
+    ),
+    ...Array.from(state.batchHandlers.values()).flatMap(fn => fn.triggers.map(t => (t.type === 'event' ? t.event : undefined))),
+  ].filter((event): event is string => Boolean(event));
+  const eventSchemas = buildEventSchemas(triggers, otherEvents, options);
+
+  // One import of the inngest values, and one of its types
+  const inngestValues = eventSchemas.length > 0 ? ['Inngest', 'EventSchemas'] : ['Inngest'];
+  const inngestTypes = sharedFunctions.length > 0 ? ['GetStepTools'] : [];
+  const imports: string[] = [];
+  if (eventSchemas.some(schema => schema.schema)) {
+    imports.push('import { z } from "zod";');
+  }
+  context.imports.forEach(imp => {
+    const inngestImport = imp.match(/^import (type )?\{ (.+) \} from "inngest";$/);
+    if (inngestImport) {
+      const names = inngestImport[1] ? inngestTypes : inngestValues;
+      names.push(...inngestImport[2].split(', ').filter(name => !names.includes(name)));
+    } else if (!imports.includes(imp)) {
+      imports.push(imp);
+    }
+  });
+  imports.unshift(
+    `import { ${inngestValues.join(', ')} } from "inngest";`,
+    ...(inngestTypes.length > 0 ? [`import type { ${inngestTypes.join(', ')} } from "inngest";`] : [])
+  );
+
+  return {
+    workflowName: parsed.name,
+    appId: toStepId(parsed.name),
+    imports,
+    eventTypes: [
+      ...triggers.map(t => t.eventTypeDef).filter((def): def is string => Boolean(def)),
+      ...combinedTypes,
+    ],
+    eventSchemas,
+    helpers: Array.from(context.helpers),
+    sharedFunctions,
+    functions: [...functions, ...pollers, ...state.batchHandlers.values()],
+    webhookRoutes,
+  };
+}
+
+/**
+ * A function ID not taken yet, numbered from 2 when it is
+ */
+function uniqueFunctionId(id: string, taken: Set<string>): string {
+  let unique = id;
+  for (let n = 2; taken.has(unique); n++) {
+    unique = `${id}-${n}`;
+  }
+  taken.add(unique);
+  return unique;
+}
+
+/**
+ * Events typed on the Inngest client, unless eventSchemas is 'none'
+ * A typed client only sends and triggers on the events it knows, so other events get an untyped entry
+ */
+function buildEventSchemas(
+  triggers: TriggerConversionResult[],
+  otherEvents: string[],
+  options: CodeGenerationOptions
+): IREventSchema[] {
+  if (options.eventSchemas === 'none') return [];
+
+  const schemas = new Map<string, IREventSchema>();
+  for (const { trigger, eventType, eventSchema } of triggers) {
+    if (trigger.type === 'event' && eventType && !schemas.has(trigger.event)) {
+      schemas.set(trigger.event, { eventName: trigger.event, eventType, schema: eventSchema });
+    }
+  }
+  if (schemas.size === 0) return [];
+
+  for (const eventName of otherEvents) {
+    if (!schemas.has(eventName)) {
+      schemas.set(eventName, {
+        eventName,
+        eventType: `{ name: "${eventName}"; data: Record<string, any> }`,
+        ...(options.eventSchemas === 'zod' ? { schema: 'z.any()' } : {}),
+      });
+    }
+  }
+  return Array.from(schemas.values());
+}
+
+/**
+ * Create the scope for a top-level sequence of nodes
+ */
+function createScope(overrides: Partial<BlockScope> = {}): BlockScope {
+  return {
+    hoisted: new Set(),
+    sharedByNode: new Map(),
+    loopIndexes: [],
+    ...overrides,
+  };
+}
+
+/**
+ * Build the config object for inngest.createFunction
+ */
+function buildFunctionConfig(
+  state: BuildState,
+  id: string,
+  name: string,
+  nodeNames: string[]
+): Partial<InngestFunctionConfig> {
+  // Build config object with Inngest best practices
+  const config: Partial<InngestFunctionConfig> = { id, name };
+
+  // Add retry configuration (best practice: always have retries)
+  // Nodes with Retry On Fail need enough retries for all of their tries
+  const nodeRetries = nodeNames
+    .map(n => state.parsed.nodes.find(node => node.name === n)?.errorSettings)
+    .filter(settings => settings?.retryOnFail)
+    .map(settings => settings!.maxTries - 1);
+  config.retries = Math.max(state.options.defaultRetries ?? 3, ...nodeRetries);
+
+  // Add concurrency control (best practice: prevent resource exhaustion)
+  if (state.options.defaultConcurrencyLimit) {
+    config.concurrency = [{ limit: state.options.defaultConcurrencyLimit }];
+  }
+
+  return config;
+}
+
+/**
+ * Build the step publishing the last node's output as the webhook response (responseMode "lastNode")
+ */
+function buildLastNodeResponse(route: IRWebhookRoute, nodeNames: string[], state: BuildState): IRNode {
+  const lastOutput = getLastOutput(nodeNames, state);
+
+  return {
+    kind: 'step',
+    nodeName: '',
+    step: {
+      type: 'run',
+      id: 'respond-to-webhook',
+      code: generateLastNodeResponseCode(route, lastOutput ?? 'inputData', state.context),
+      comment: 'Respond to the webhook with the last node\'s output',
+    },
+    loopIndexes: [],
+  };
+}
+
+/**
+ * Variable holding the output of the last node that has one
+ */
+function getLastOutput(nodeNames: string[], state: BuildState): string | undefined {
+  return [...nodeNames]
+    .reverse()
+    .map(n => getStepVariables(state.nodeResults.get(n)).pop())
+    .find((variable): variable is string => Boolean(variable));
+}
+
+/**
+ * Build the cron function polling a source: poll since the cursor, send one event per new item, then save the cursor
+ */
+function buildPoller(poller: IRPoller, state: BuildState): IRFunction {
+  const stepNode = (step: InngestStep, variable?: string): IRNode => ({
+    kind: 'step',
+    nodeName: '',
+    step,
+    binding: variable ? { variable, kind: 'const' } : undefined,
+    loopIndexes: [],
+  });
+  const trigger = withTimezone({ type: 'cron', cron: poller.cron }, state);
+
+  return {
+    kind: 'poller',
+    name: toVariableName(poller.id),
+    // Overlapping runs would read the same cursor and send the same items again
+    config: {
+      ...buildFunctionConfig(state, poller.id, poller.name, []),
+      concurrency: [{ limit: 1, key: JSON.stringify(poller.cursorKey) }],
+    },
+    triggers: [trigger],
+    description: [poller.name, `Schedule: ${trigger.cron}`, `Sends: ${poller.eventName}`],
+    input: { kind: 'cron' },
+    body: [
+      stepNode({ type: 'run', id: 'poll', code: poller.pollCode, comment: 'Fetch items changed since the cursor' }, 'poll'),
+      stepNode({
+        type: 'sendEvent',
+        id: 'send-new-items',
+        eventName: poller.eventName,
+        data: `poll.items.map(item => ({ id: \`${poller.cursorKey}/\${item.id}\`, name: "${poller.eventName}", data: item.data as ${poller.eventType}["data"] }))`,
+        // step.sendEvent rejects an empty list of events
+        when: 'poll.items.length > 0',
+        comment: 'One event per new item, deduplicated by event ID',
+      }),
+      stepNode({
+        type: 'run',
+        id: 'save-cursor',
+        code: [`await pollCursorStore.set("${poller.cursorKey}", poll.cursor);`, poller.commitCode]
+          .filter(Boolean)
+          .join('\n\n      '),
+        comment: 'Advance the cursor once the events are sent',
+      }),
+    ],
+    returnValue: '{ sent: poll.items.length }',
+    usesAttempt: false,
+  };
+}
+
+/**
+ * The n8n trigger behind each trigger of a combined function
+ */
+function buildTriggerSources(
+  triggerNames: string[],
+  results: TriggerConversionResult[],
+  state: BuildState
+): IRTriggerSource[] {
+  return results.flatMap((result, i) =>
+    (result.triggers ?? [result.trigger]).map(trigger => ({
+      nodeName: triggerNames[i],
+      trigger: withTimezone(trigger, state),
+    }))
+  );
+}
+
+/**
+ * Run cron triggers in the workflow's timezone (n8n's Timezone setting)
+ */
+function withTimezone<T extends InngestTrigger>(trigger: T, state: BuildState): T {
+  const timezone = state.parsed.settings.timezone;
+  if (trigger.type !== 'cron' || !timezone || trigger.cron.startsWith('TZ=')) {
+    return trigger;
+  }
+  return { ...trigger, cron: `TZ=${timezone} ${trigger.cron}` };
+}
+
+/**
+ * Build the onFailure handler for the workflow's error workflow (or the user-supplied handler)
+ */
+function buildFailureHandler(state: BuildState): IRFailureHandler | undefined {
+  const { parsed, options, context } = state;
+  const errorWorkflow = parsed.settings.errorWorkflow;
+  if (!errorWorkflow && !options.onFailureHandler) return undefined;
+
+  return {
+    workflowId: parsed.id || toStepId(parsed.name),
+    workflowName: parsed.name,
+    eventName: errorWorkflow ? errorWorkflowEventName(errorWorkflow, context) : undefined,
+    handlerCode: options.onFailureHandler,
+  };
+}
+
+/**
+ * Build the block for a sequence of nodes
+ * Nodes that belong to a single IF/Switch branch are nested in that branch,
+ * and the body of a Loop Over Items node becomes a loop (or fan-out)
+ */
+function buildBlock(nodeNames: string[], state: BuildState, scope: BlockScope): IRBlock {
+  const { parsed, nodeResults } = state;
+  const block: IRBlock = [];
+  const consumed = new Set<string>();
+
+  for (const nodeName of nodeNames) {
+    if (consumed.has(nodeName)) continue;
+
+    // Shared subgraphs run as a single call to their helper
+    const shared = scope.sharedByNode.get(nodeName);
+    if (shared) {
+      shared.nodes.forEach(n => consumed.add(n));
+      block.push({
+        kind: 'sharedCall',
+        functionName: shared.name,
+        nodes: shared.nodes,
+        inputs: shared.inputs.filter(i => nodeNames.includes(i.nodeName)).map(i => i.variable),
+        outputs: shared.outputs,
+        usesAttempt: shared.usesAttempt,
+      });
+      continue;
+    }
+
+    const result = nodeResults.get(nodeName);
+    if (!result) continue;
+
+    for (const step of result.steps) {
+      const variable = getStepVariables({ steps: [step] })[0];
+      block.push({
+        kind: 'step',
+        nodeName,
+        step,
+        binding: variable ? bind(variable, scope) : undefined,
+        loopIndexes: scope.loopIndexes,
+      });
+    }
+
+    const controlStep = result.steps.find(step => step.type === 'run');
+    if (!controlStep) continue;
+
+    const loopInfo = parsed.executionGraph.loops.find(l => l.startNodeName === nodeName);
+    if (loopInfo) {
+      const bodyNodes = nodeNames.filter(n => loopInfo.loopNodes.includes(n) && !consumed.has(n));
+      bodyNodes.forEach(n => consumed.add(n));
+
+      block.push(state.options.batchStrategy === 'fanOut'
+        ? buildFanOut(nodeName, controlStep.id, bodyNodes, nodeNames, state, scope)
+        : buildLoop(nodeName, controlStep.id, bodyNodes, state, scope));
+      continue;
+    }
+
+    const branchInfo = parsed.executionGraph.branches.find(b => b.conditionNodeName === nodeName);
+    if (!branchInfo) continue;
+
+    // Assign each branch the nodes only it can reach, in execution order
+    const branchNodes = new Map<number, string[]>();
+    for (const [index, exclusiveNodes] of getExclusiveBranchNodes(branchInfo)) {
+      const blockNodes = nodeNames.filter(n => exclusiveNodes.has(n) && !consumed.has(n));
+      blockNodes.forEach(n => consumed.add(n));
+      branchNodes.set(index, blockNodes);
+    }
+
+    // Nodes reached by some of the branches run after them, under a guard on those branches
+    const partialNodes = getPartialBranchNodes(branchInfo);
+    const guards: Array<{ outputIndexes: number[]; nodes: string[] }> = [];
+    nodeNames
+      .filter(n => partialNodes.has(n) && !consumed.has(n))
+      .forEach(n => {
+        consumed.add(n);
+        const outputIndexes = partialNodes.get(n)!;
+        const last = guards[guards.length - 1];
+        if (last && last.outputIndexes.join() === outputIndexes.join()) {
+          last.nodes.push(n);
+        } else {
+          guards.push({ outputIndexes, nodes: [n] });
+        }
+      });
+
+    // Declare branch variables up front so nodes after the merge point can read them
+    const declarations = [...Array.from(branchNodes.values()).flat(), ...guards.flatMap(g => g.nodes)]
+      .flatMap(n => getNodeVariables(n, state))
+      .filter(v => !scope.hoisted.has(v));
+    declarations.forEach(v => scope.hoisted.add(v));
+    if (declarations.length > 0) {
+      block.push({ kind: 'declare', variables: declarations });
+    }
+
+    const parsedNode = parsed.nodes.find(n => n.name === nodeName);
+    block.push({
+      kind: 'branch',
+      nodeName,
+      branchType: parsedNode && hasErrorOutput(parsedNode)
+        ? 'error'
+        : parsed.executionGraph.nodes.get(nodeName)?.type === 'n8n-nodes-base.switch' ? 'switch' : 'if',
+      condition: toVariableName(controlStep.id),
+      routing: state.options.itemSemantics ? 'items' : 'value',
+      branches: Array.from(branchNodes.entries()).map(([outputIndex, blockNodes]) => ({
+        outputIndex,
+        body: buildBlock(blockNodes, state, scope),
+      })),
+    });
+    guards.forEach(guard => block.push({
+      kind: 'branchGuard',
+      nodeName,
+      condition: toVariableName(controlStep.id),
+      routing: state.options.itemSemantics ? 'items' : 'value',
+      outputIndexes: guard.outputIndexes,
+      body: buildBlock(guard.nodes, state, scope),
+    }));
+
+    const mergePoint = branchInfo.branches.find(b => b.mergePoint)?.mergePoint;
+    if (mergePoint) {
+      block.push({ kind: 'merge', nodeName: mergePoint, branchNodeName: nodeName });
+    }
+  }
+
+  return block;
+}
+
+/**
+ * Build a loop running the loop body once per batch
+ */
+function buildLoop(
+  nodeName: string,
+  stepId: string,
+  bodyNodes: string[],
+  state: BuildState,
+  scope: BlockScope
+): IRNode {
+  const loopVar = toVariableName(stepId);
+  const indexVariable = `${loopVar}Index`;
+
+  // Output of the node(s) feeding back into the loop node is collected for the "done" output
+  const collect = state.parsed.executionGraph.edges
+    .filter(e => e.to === nodeName && bodyNodes.includes(e.from))
+    .map(e => generateSourceAccess({
+      nodeName: e.from,
+      nodeId: '',
+      outputIndex: e.outputIndex,
+      inputIndex: e.inputIndex,
+      connectionType: e.connectionType,
+    }, state.context))
+    .filter((access): access is string => Boolean(access));
+
+  const bodyScope: BlockScope = {
+    ...scope,
+    hoisted: new Set(scope.hoisted),
+    loopIndexes: [...scope.loopIndexes, indexVariable],
+  };
+
+  return {
+    kind: 'loop',
+    nodeName,
+    source: loopVar,
+    indexVariable,
+    batchVariable: `${loopVar}Batch`,
+    done: bind(`${loopVar}Done`, scope),
+    collect,
+    body: buildBlock(bodyNodes, state, bodyScope),
+  };
+}
+
+/**
+ * Build a fan-out sending one event per batch to a child function holding the loop body
+ */
+function buildFanOut(
+  nodeName: string,
+  stepId: string,
+  bodyNodes: string[],
+  functionNodes: string[],
+  state: BuildState,
+  scope: BlockScope
+): IRNode {
+  const loopVar = toVariableName(stepId);
+  const handler = buildBatchHandler(nodeName, stepId, bodyNodes, state);
+  const upstream = handler.input.kind === 'batch' ? handler.input.upstream : [];
+
+  return {
+    kind: 'fanOut',
+    nodeName,
+    source: loopVar,
+    stepId: `${stepId}-fan-out`,
+    loopIndexes: scope.loopIndexes,
+    eventName: handler.triggers[0].type === 'event' ? handler.triggers[0].event : '',
+    handlerName: handler.name,
+    upstream: upstream
+      .filter(i => i.nodeName === '' || functionNodes.includes(i.nodeName))
+      .map(i => i.variable),
+    done: bind(`${loopVar}Done`, scope),
+  };
+}
+
+/**
+ * Build (once) the child function that processes a single fanned-out batch
+ */
+function buildBatchHandler(
+  nodeName: string,
+  stepId: string,
+  bodyNodes: string[],
+  state: BuildState
+): IRFunction {
+  const { parsed, nodeResults, options } = state;
+  const functionId = `${toStepId(parsed.name)}-${stepId}-batch`;
+
+  const existing = state.batchHandlers.get(functionId);
+  if (existing) return existing;
+
+  const loopVar = toVariableName(stepId);
+  const eventName = `${options.eventPrefix || 'app'}/${toStepId(parsed.name)}.${stepId}.batch`;
+
+  const inputs = findReferencedVariables(bodyNodes, nodeResults);
+  const stepsSource = bodyNodes.map(n => JSON.stringify(nodeResults.get(n)?.steps ?? [])).join('\n');
+  if (/\binputData\b/.test(stepsSource)) {
+    inputs.push({ variable: 'inputData', nodeName: '' });
+  }
+
+  const body = buildBlock(bodyNodes, state, createScope());
+  const handler: IRFunction = {
+    kind: 'batchHandler',
+    name: toVariableName(`${stepId} batch handler`),
+    config: buildFunctionConfig(state, functionId, `${nodeName} (batch)`, bodyNodes),
+    triggers: [{ type: 'event', event: eventName }],
+    description: [
+      `${nodeName} - processes one batch fanned out by the parent function`,
+      `Event: ${eventName}`,
+    ],
+    input: {
+      kind: 'batch',
+      batchVariable: `${loopVar}Batch`,
+      indexVariable: `${loopVar}Index`,
+      upstream: inputs,
+    },
+    body,
+    returnValue: `{ batchIndex: ${loopVar}Index }`,
+    usesAttempt: blockUsesAttempt(body),
+    onFailure: buildFailureHandler(state),
+  };
+  state.batchHandlers.set(functionId, handler);
+
+  return handler;
+}
+
+/**
+ * Whether any step in a block (or a shared function it calls) reads the handler's `attempt`
+ */
+function blockUsesAttempt(block: IRBlock): boolean {
+  return block.some(node => {
+    switch (node.kind) {
+      case 'step':
+        return node.step.type === 'run' && Boolean(node.step.usesAttempt);
+      case 'branch':
+        return node.branches.some(branch => blockUsesAttempt(branch.body));
+      case 'branchGuard':
+      case 'loop':
+        return blockUsesAttempt(node.body);
+      case 'sharedCall':
+        return node.usesAttempt;
+      default:
+        return false;
+    }
+  });
+}
+
+/**
+ * Bind a variable, assigning instead of declaring when an enclosing block declared it
+ */
+function bind(variable: string, scope: BlockScope): IRBinding {
+  return { variable, kind: scope.hoisted.has(variable) ? 'assign' : 'const' };
+}
+
+/**
+ * Find the outputs of other nodes that a group of nodes reads
+ */
+function findReferencedVariables(
+  nodes: string[],
+  nodeResults: Map<string, ConversionResult>
+): IRUpstreamInput[] {
+  const stepsSource = nodes
+    .map(n => JSON.stringify(nodeResults.get(n)?.steps ?? []))
+    .join('\n');
+
+  const referenced: IRUpstreamInput[] = [];
+  nodeResults.forEach((result, nodeName) => {
+    if (nodes.includes(nodeName)) return;
+
+    getStepVariables(result)
+      .filter(variable => new RegExp(`\\b${variable}\\b`).test(stepsSource))
+      .forEach(variable => referenced.push({ variable, nodeName }));
+  });
+
+  return referenced;
+}
+
+/**
+ * Get the variables a node defines in the function body
+ */
+function getNodeVariables(nodeName: string, state: BuildState): string[] {
+  const result = state.nodeResults.get(nodeName);
+  const variables = getStepVariables(result);
+
+  // Loop nodes also expose their "done" output after the loop
+  const runStep = result?.steps.find(step => step.type === 'run');
+  if (runStep && state.parsed.executionGraph.loops.some(l => l.startNodeName === nodeName)) {
+    variables.push(`${toVariableName(runStep.id)}Done`);
+  }
+
+  return variables;
+}
+
+/**
+ * Get the variable names a node's steps assign
+ */
+function getStepVariables(result: Pick<ConversionResult, 'steps'> | undefined): string[] {
+  if (!result) return [];
+
+  return result.steps.flatMap(step => {
+    switch (step.type) {
+      case 'run':
+      case 'waitForEvent':
+      case 'ai.infer':
+      case 'agent.run':
+        return [toVariableName(step.id)];
+      case 'invoke':
+        return [`${toVariableName(step.id)}Result`];
+      default:
+        return [];
+    }
+  });
+}
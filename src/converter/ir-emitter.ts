@@ -0,0 +1,499 @@
+/**
+ * IR Emitter
+ * Renders the intermediate representation as TypeScript code for the Inngest SDK
+ */
+
+import { CodeGenerationOptions, InngestStep } from '../types/inngest.js';
+import {
+  IRProgram,
+  IRFunction,
+  IRSharedFunction,
+  IRTriggerSource,
+  IRBlock,
+  IRNode,
+  IRBinding,
+  IRFailureHandler,
+} from '../types/ir.js';
+import {
+  generateConditionalBranchCode,
+  generateSwitchBranchCode,
+  generateBranchGuardCode,
+  generateItemRoutingCode,
+  generateErrorBranchCode,
+} from '../converters/control-flow-converters.js';
+import { generateWebhookRoutes } from '../converters/webhook-routes.js';
+
+export interface EmittedProgram {
+  code: string;
+  // Code of each function, in the order of `program.functions`
+  functionCodes: string[];
+}
+
+/**
+ * Render a program as a single module
+ */
+export function emitProgram(program: IRProgram, options: CodeGenerationOptions): EmittedProgram {
+  const sections: string[] = [];
+
+  // Header comment
+  sections.push(`/**
+ * Inngest Functions - Converted from n8n Workflow
+ * Original Workflow: ${program.workflowName}
+ * Converted: ${new Date().toISOString()}
+ *
+ * This code was automatically generated from an n8n workflow.
+ * Review and adjust as needed for your specific use case.
+ */`);
+
+  // Imports
+  sections.push(program.imports.join('\n'));
+
+  // Event type definitions
+  if (program.eventTypes.length > 0) {
+    sections.push('// Event Type Definitions');
+    sections.push(program.eventTypes.join('\n\n'));
+  }
+
+  // Inngest client, typed with the trigger events
+  if (program.eventSchemas.some(schema => schema.schema)) {
+    sections.push(`// Event Schemas
+const eventSchemas = {
+${program.eventSchemas.map(schema => `  "${schema.eventName}": {\n    data: ${schema.schema ?? 'z.any()'},\n  },`).join('\n')}
+};`);
+    sections.push(`// Inngest Client
+const inngest = new Inngest({
+  id: "${program.appId}",
+  schemas: new EventSchemas().fromZod(eventSchemas),
+});`);
+  } else if (program.eventSchemas.length > 0) {
+    sections.push(`// Inngest Client
+const inngest = new Inngest({
+  id: "${program.appId}",
+  schemas: new EventSchemas().fromUnion<${program.eventSchemas.map(schema => schema.eventType).join(' | ')}>(),
+});`);
+  } else {
+    sections.push(`// Inngest Client
+const inngest = new Inngest({ id: "${program.appId}" });`);
+  }
+
+  // Helper functions
+  if (program.helpers.length > 0) {
+    sections.push('// Helper Functions');
+    sections.push(program.helpers.join('\n\n'));
+  }
+
+  // Steps shared between several triggers
+  if (program.sharedFunctions.length > 0) {
+    sections.push('// Shared Steps');
+    program.sharedFunctions.forEach(shared => sections.push(emitSharedFunction(shared, options)));
+  }
+
+  const functionCodes = program.functions.map(fn => emitFunction(fn, options));
+  sections.push(...functionCodes);
+
+  // Export all functions
+  sections.push(`// Export all functions
+export const functions = [${program.functions.map(fn => fn.name).join(', ')}];`);
+
+  // HTTP ingress for webhook triggers
+  if (program.webhookRoutes.length > 0) {
+    sections.push('// Webhook Routes');
+    sections.push(generateWebhookRoutes(program.webhookRoutes, options.webhookFramework || 'node'));
+  }
+
+  return { code: sections.join('\n\n'), functionCodes };
+}
+
+/**
+ * Render a single Inngest function
+ */
+export function emitFunction(fn: IRFunction, options: CodeGenerationOptions): string {
+  let configStr = JSON.stringify(fn.config, null, 2)
+    .replace(/"([^"]+)":/g, '$1:')
+    .replace(/"/g, "'");
+  if (fn.onFailure) {
+    configStr = `${configStr.slice(0, -2)},\n  onFailure: ${emitFailureHandler(fn.onFailure)}\n}`;
+  }
+
+  // Build trigger (an array when the function has several)
+  const triggerStrs = fn.triggers.map(trigger => {
+    if (trigger.type === 'cron') {
+      return `{ cron: "${trigger.cron}" }`;
+    }
+    if (trigger.expression) {
+      return `{ event: "${trigger.event}", if: "${trigger.expression}" }`;
+    }
+    return `{ event: "${trigger.event}" }`;
+  });
+  const triggerStr = triggerStrs.length === 1 ? triggerStrs[0] : `[${triggerStrs.join(', ')}]`;
+
+  const lines: string[] = [];
+
+  switch (fn.input.kind) {
+    case 'cron':
+      lines.push('    // Input data from trigger');
+      lines.push('    const inputData: Record<string, unknown> = {};  // Cron triggers have no event data');
+      break;
+    case 'event':
+      lines.push('    // Input data from trigger');
+      lines.push('    const inputData = event?.data ?? {};');
+      // Add input type guard
+      lines.push('    if (typeof inputData !== "object" || inputData === null) {');
+      lines.push('      throw new Error("Invalid input: expected object data");');
+      lines.push('    }');
+      break;
+    case 'combined':
+      lines.push(...emitTriggerDiscriminator(fn.input.eventType, fn.input.triggers));
+      break;
+    case 'batch':
+      lines.push(`    const { batch: ${fn.input.batchVariable}, batchIndex: ${fn.input.indexVariable} } = event.data;`);
+      if (fn.input.upstream.length > 0) {
+        lines.push(`    const { ${fn.input.upstream.map(i => i.variable).join(', ')} } = event.data.upstream ?? {};`);
+      }
+      break;
+  }
+  lines.push('');
+
+  lines.push(...emitBlock(fn.body, options));
+
+  if (fn.kind === 'trigger') {
+    lines.push('    // Return final result');
+  }
+  lines.push(`    return ${fn.returnValue};`);
+
+  const funcArgs = `{ ${[
+    ...(fn.input.kind === 'cron' ? [] : ['event']),
+    'step',
+    ...(fn.usesAttempt ? ['attempt'] : []),
+  ].join(', ')} }`;
+
+  return `/**
+${fn.description.map(line => ` * ${line.replace(/\*\//g, '*\\/')}`).join('\n')}
+ */
+export const ${fn.name} = inngest.createFunction(
+  ${configStr},
+  ${triggerStr},
+  async (${funcArgs}) => {
+${lines.join('\n')}
+  }
+);`;
+}
+
+/**
+ * Render the input of a function several n8n triggers start: the typed event,
+ * `triggeredBy` naming the trigger that fired, and its data
+ */
+function emitTriggerDiscriminator(eventType: string, sources: IRTriggerSource[]): string[] {
+  // Conditions matching each n8n trigger's events
+  const conditions = new Map<string, string[]>();
+  for (const { nodeName, trigger } of sources) {
+    const condition = trigger.type === 'cron'
+      ? `(triggerEvent.name === "inngest/scheduled.timer" && triggerEvent.data.cron === "${trigger.cron}")`
+      : `triggerEvent.name === "${trigger.event}"`;
+    conditions.set(nodeName, [...(conditions.get(nodeName) ?? []), condition]);
+  }
+
+  const entries = Array.from(conditions.entries());
+  const lines = [
+    '    // Input data from the trigger that fired (several n8n triggers start this function)',
+    `    const triggerEvent = event as ${eventType};`,
+    '    const triggeredBy =',
+    ...entries.map(([nodeName, nodeConditions], i) =>
+      i === entries.length - 1
+        ? `      ${JSON.stringify(nodeName)};`
+        : `      ${nodeConditions.join(' || ')} ? ${JSON.stringify(nodeName)} :`
+    ),
+  ];
+
+  if (sources.some(({ trigger }) => trigger.type === 'cron')) {
+    lines.push('    const inputData: Record<string, any> = triggerEvent.name === "inngest/scheduled.timer" ? {} : triggerEvent.data;');
+  } else {
+    lines.push('    const inputData: Record<string, any> = triggerEvent.data;');
+  }
+
+  return lines;
+}
+
+/**
+ * Render the onFailure handler of a function
+ */
+function emitFailureHandler(handler: IRFailureHandler): string {
+  const lines: string[] = [];
+
+  lines.push('    // Error Trigger data, as n8n passes it to the error workflow');
+  lines.push('    const errorData = {');
+  lines.push('      execution: {');
+  lines.push('        id: event.data.run_id,');
+  lines.push('        mode: "trigger",');
+  lines.push('        error: { message: error.message, name: error.name, stack: error.stack },');
+  lines.push('      },');
+  lines.push(`      workflow: { id: ${JSON.stringify(handler.workflowId)}, name: ${JSON.stringify(handler.workflowName)} },`);
+  lines.push('    };');
+  lines.push('');
+
+  if (handler.handlerCode) {
+    lines.push(...handler.handlerCode.trim().split('\n').map(line => (line ? `    ${line}` : line)));
+  } else if (handler.eventName) {
+    lines.push('    await step.sendEvent("send-to-error-workflow", {');
+    lines.push(`      name: "${handler.eventName}",`);
+    lines.push('      data: errorData,');
+    lines.push('    });');
+  }
+
+  return `async ({ error, event, step }) => {
+${lines.join('\n')}
+  }`;
+}
+
+/**
+ * Render a module-level function holding steps shared by several triggers
+ */
+function emitSharedFunction(shared: IRSharedFunction, options: CodeGenerationOptions): string {
+  const lines: string[] = [];
+
+  if (shared.inputs.length > 0) {
+    lines.push(`    const { ${shared.inputs.map(i => i.variable).join(', ')} } = upstream;`);
+    lines.push('');
+  }
+
+  lines.push(...emitBlock(shared.body, options));
+  lines.push(`    return { ${shared.outputs.join(', ')} };`);
+
+  const upstreamParam = shared.inputs.length > 0 ? ',\n  upstream: Record<string, any> = {}' : '';
+  const attemptParam = shared.usesAttempt ? '\n  attempt: number,' : '';
+
+  return `/**
+ * Steps shared by: ${shared.triggers.join(', ')}
+ */
+async function ${shared.name}(
+  step: GetStepTools<typeof inngest>,${attemptParam}
+  inputData: Record<string, any>${upstreamParam}
+) {
+${dedent(lines.join('\n'), 2)}
+}`;
+}
+
+/**
+ * Render a block at function body indentation
+ */
+function emitBlock(block: IRBlock, options: CodeGenerationOptions): string[] {
+  const lines: string[] = [];
+
+  for (const node of block) {
+    // Keep the rejoin comment directly under the branch block it closes
+    if (node.kind === 'merge' && options.includeComments && lines[lines.length - 1] === '') {
+      lines.pop();
+    }
+    lines.push(...emitNode(node, options));
+  }
+
+  return lines;
+}
+
+/**
+ * Render a single IR node
+ */
+function emitNode(node: IRNode, options: CodeGenerationOptions): string[] {
+  const lines: string[] = [];
+
+  switch (node.kind) {
+    case 'step':
+      if (options.includeComments && node.step.comment) {
+        lines.push(`    // ${node.step.comment}`);
+      }
+      lines.push(emitStep(node.step, stepIdExpression(node.step.id, node.loopIndexes), node.binding));
+      lines.push('');
+      break;
+
+    case 'declare':
+      node.variables.forEach(v => lines.push(`    let ${v}: any;`));
+      break;
+
+    case 'branch': {
+      const branchCode = new Map<number, string>();
+      node.branches.forEach(branch => {
+        branchCode.set(branch.outputIndex, dedent(emitBlock(branch.body, options).join('\n').trimEnd(), 4));
+      });
+
+      let blockCode: string;
+      if (node.branchType === 'error') {
+        blockCode = generateErrorBranchCode(node.condition, branchCode.get(0) ?? '', branchCode.get(1) ?? '');
+      } else if (node.routing === 'items') {
+        blockCode = generateItemRoutingCode(node.condition, branchCode);
+      } else {
+        blockCode = node.branchType === 'switch'
+          ? generateSwitchBranchCode(node.condition, branchCode)
+          : generateConditionalBranchCode(node.condition, branchCode.get(0) ?? '', branchCode.get(1) ?? '');
+      }
+      lines.push(`    ${blockCode}`);
+      lines.push('');
+      break;
+    }
+
+    case 'branchGuard': {
+      const guardCode = dedent(emitBlock(node.body, options).join('\n').trimEnd(), 4);
+      lines.push(`    ${generateBranchGuardCode(node.condition, node.outputIndexes, node.routing, guardCode)}`);
+      lines.push('');
+      break;
+    }
+
+    case 'merge':
+      if (options.includeComments) {
+        lines.push(`    // Branches rejoin at: ${node.nodeName}`);
+        lines.push('');
+      }
+      break;
+
+    case 'loop':
+      if (options.includeComments) {
+        lines.push(`    // Loop over batches: ${node.nodeName}`);
+      }
+      lines.push(node.collect.length > 0
+        ? `    ${declareArray(node.done)} = [];`
+        : `    ${declareArray(node.done)} = ${node.source}.batches.flat();`);
+      lines.push(`    for (let ${node.indexVariable} = 0; ${node.indexVariable} < ${node.source}.batches.length; ${node.indexVariable}++) {`);
+      lines.push(`      const ${node.batchVariable} = ${node.source}.batches[${node.indexVariable}];`);
+      lines.push('');
+      lines.push(...emitBlock(node.body, options).join('\n').split('\n').map(line => (line ? `  ${line}` : line)));
+      node.collect.forEach(access => {
+        lines.push(`      if (${access} !== undefined) ${node.done.variable}.push(...[${access}].flat());`);
+      });
+      lines.push('    }');
+      lines.push('');
+      break;
+
+    case 'fanOut':
+      if (options.includeComments) {
+        lines.push(`    // Fan out one event per batch: ${node.nodeName} (handled by ${node.handlerName})`);
+      }
+      lines.push(`    if (${node.source}.batches.length > 0) {`);
+      lines.push(`      await step.sendEvent(${stepIdExpression(node.stepId, node.loopIndexes)}, ${node.source}.batches.map((batch: any[], batchIndex: number) => ({`);
+      lines.push(`        name: "${node.eventName}",`);
+      lines.push(node.upstream.length > 0
+        ? `        data: { batch, batchIndex, upstream: { ${node.upstream.join(', ')} } },`
+        : '        data: { batch, batchIndex },');
+      lines.push('      })));');
+      lines.push('    }');
+      lines.push(`    ${declareArray(node.done)} = ${node.source}.batches.flat();`);
+      lines.push('');
+      break;
+
+    case 'sharedCall': {
+      const stepArgs = node.usesAttempt ? 'step, attempt, inputData' : 'step, inputData';
+      const args = node.inputs.length > 0 ? `${stepArgs}, { ${node.inputs.join(', ')} }` : stepArgs;
+
+      if (options.includeComments) {
+        lines.push(`    // Shared steps: ${node.nodes.join(', ')}`);
+      }
+      lines.push(node.outputs.length > 0
+        ? `    const { ${node.outputs.join(', ')} } = await ${node.functionName}(${args});`
+        : `    await ${node.functionName}(${args});`);
+      lines.push('');
+      break;
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Render a single step call
+ */
+function emitStep(step: InngestStep, id: string, binding?: IRBinding): string {
+  const assign = binding ? `${binding.kind === 'const' ? 'const ' : ''}${binding.variable} = ` : '';
+
+  switch (step.type) {
+    case 'run': {
+      const indentedCode = step.code
+        .split('\n')
+        .map(line => '      ' + line)
+        .join('\n');
+
+      return `    ${assign}await step.run(${id}, async () => {
+${indentedCode}
+    });`;
+    }
+
+    case 'sleep':
+      return `    await step.sleep(${id}, "${step.duration}");`;
+
+    case 'sleepUntil':
+      return `    await step.sleepUntil(${id}, ${step.timestamp});`;
+
+    case 'waitForEvent': {
+      let options = `event: "${step.eventName}", timeout: "${step.timeout}"`;
+      if (step.match) {
+        options += `, match: "${step.match}"`;
+      }
+      if (step.if) {
+        options += `, if: "${step.if}"`;
+      }
+      return `    ${assign}await step.waitForEvent(${id}, { ${options} });`;
+    }
+
+    case 'sendEvent':
+      return step.when
+        ? `    if (${step.when}) {\n      await step.sendEvent(${id}, ${step.data});\n    }`
+        : `    await step.sendEvent(${id}, ${step.data});`;
+
+    case 'invoke': {
+      // Referenced functions carry no output type
+      const invokeAssign = binding?.kind === 'const' ? `const ${binding.variable}: any = ` : assign;
+      return `    ${invokeAssign}await step.invoke(${id}, { function: ${step.functionId}, data: ${step.data} });`;
+    }
+
+    case 'ai.infer': {
+      const bodyOptions: string[] = [`messages: ${step.body.messages}`];
+      if (step.body.system !== undefined) {
+        bodyOptions.push(`system: ${step.body.system}`);
+      }
+      if (step.body.temperature !== undefined) {
+        bodyOptions.push(`temperature: ${step.body.temperature}`);
+      }
+      if (step.body.maxTokens !== undefined) {
+        bodyOptions.push(`max_completion_tokens: ${step.body.maxTokens}`);
+      }
+      Object.entries(step.body.parameters ?? {}).forEach(([key, value]) => {
+        bodyOptions.push(`${key}: ${JSON.stringify(value)}`);
+      });
+      const infer = `await step.ai.infer(${id}, {
+      model: ${step.model},
+      body: { ${bodyOptions.join(', ')} },
+    })`;
+      return `    ${assign}${step.output ? `${step.output}(${infer})` : infer};`;
+    }
+
+    case 'agent.run': {
+      const runArgs = step.state ? `${step.input}, { state: ${step.state} }` : step.input;
+      return `    ${assign}${step.output}(await ${step.network}.run(${runArgs}));`;
+    }
+  }
+}
+
+/**
+ * Build the step ID argument, suffixed with loop indexes inside batch loops
+ */
+function stepIdExpression(id: string, loopIndexes: string[]): string {
+  if (loopIndexes.length === 0) {
+    return `"${id}"`;
+  }
+  return `\`${id}-${loopIndexes.map(i => `\${${i}}`).join('-')}\``;
+}
+
+/**
+ * Left-hand side for an array binding
+ */
+function declareArray(binding: IRBinding): string {
+  return binding.kind === 'const' ? `const ${binding.variable}: any[]` : binding.variable;
+}
+
+/**
+ * Remove a fixed amount of leading indentation from each line
+ */
+function dedent(code: string, spaces: number): string {
+  const indentation = ' '.repeat(spaces);
+  return code
+    .split('\n')
+    .map(line => (line.startsWith(indentation) ? line.slice(spaces) : line.trimStart()))
+    .join('\n');
+}
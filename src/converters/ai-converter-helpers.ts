@@ -13,21 +13,21 @@ import { toVariableName, toStepId, convertN8nExpression } from './base-converter
  */
 export function generateOpenRouterHelper(): string {
   return `
-    // OpenRouter configuration with provider preferences
-    // Avoids Azure (stricter function schema validation)
-    const openrouter = (config: { model: string; apiKey?: string; defaultParameters?: Record<string, unknown> }) =>
-      openai({
-        model: config.model,
-        apiKey: config.apiKey,
-        baseUrl: "https://openrouter.ai/api/v1",
-        defaultParameters: {
-          ...config.defaultParameters,
-          provider: {
-            order: ["OpenAI", "Anthropic", "Together"],
-            ignore: ["Azure"],
-          },
-        } as Record<string, unknown>,
-      });
+// OpenRouter configuration with provider preferences
+// Avoids Azure (stricter function schema validation)
+const openrouter = (config: { model: string; apiKey?: string; defaultParameters?: Record<string, unknown> }) =>
+  openai({
+    model: config.model,
+    apiKey: config.apiKey,
+    baseUrl: "https://openrouter.ai/api/v1",
+    defaultParameters: {
+      ...config.defaultParameters,
+      provider: {
+        order: ["OpenAI", "Anthropic", "Together"],
+        ignore: ["Azure"],
+      },
+    } as Record<string, unknown>,
+  });
   `.trim();
 }
 
@@ -37,19 +37,19 @@ export function generateOpenRouterHelper(): string {
  */
 export function generateSaveResultsTool(nodeName: string, resultSchema: string): string {
   return `
-    // Tool: Save final results to network state
-    const saveResultsTool = createTool({
-      name: "save_results",
-      description: "Save the final results when task is complete. Call this when you have all the information needed.",
-      parameters: z.object({
-        ${resultSchema}
-      }),
-      handler: async (result, { network }) => {
-        // Store results in network state for retrieval
-        if (network) network.state.data.results = result;
-        return { success: true, message: "Results saved successfully" };
-      },
-    });
+// Tool: Save final results to network state
+const ${toVariableName(nodeName)}SaveResultsTool = createTool({
+  name: "save_results",
+  description: "Save the final results when task is complete. Call this when you have all the information needed.",
+  parameters: z.object({
+    ${resultSchema}
+  }),
+  handler: async (result, { network }) => {
+    // Store results in network state for retrieval
+    if (network) network.state.data.results = result;
+    return { success: true, message: "Results saved successfully" };
+  },
+});
   `.trim();
 }
 
@@ -59,15 +59,15 @@ export function generateSaveResultsTool(nodeName: string, resultSchema: string):
  */
 export function generateCustomRouter(agentName: string): string {
   return `
-      // Custom router to bypass Default Routing Agent (avoids schema validation errors)
-      // Since we only have one agent, we don't need LLM-based routing
-      defaultRouter: ({ network }) => {
-        // Stop if results have been saved, otherwise keep running the agent
-        if (network.state.data.results) {
-          return undefined;
-        }
-        return ${agentName};
-      },
+  // Custom router to bypass Default Routing Agent (avoids schema validation errors)
+  // Since we only have one agent, we don't need LLM-based routing
+  defaultRouter: ({ network }) => {
+    // Stop if results have been saved, otherwise keep running the agent
+    if (network.state.data.results) {
+      return undefined;
+    }
+    return ${agentName};
+  },
   `.trim();
 }
 
@@ -87,19 +87,19 @@ export function generateToolWithStepWrapping(
     const description = params.description as string || 'Custom code tool';
 
     return `
-    const ${toolName} = createTool({
-      name: "${toolNode.name}",
-      description: "${description}",
-      parameters: z.object({
-        input: z.string().describe("Input to the tool"),
-      }),
-      handler: async ({ input }, { step }) => {
-        // Wrap in step.run for retryability if available
-        return await step?.run("${toStepId(toolNode.name)}", async () => {
-          ${jsCode}
-        }) ?? (() => { ${jsCode} })();
-      },
-    });
+const ${toolName} = createTool({
+  name: "${toolNode.name}",
+  description: "${description}",
+  parameters: z.object({
+    input: z.string().describe("Input to the tool"),
+  }),
+  handler: async ({ input }, { step }) => {
+    // Wrap in step.run for retryability if available
+    return await step?.run("${toStepId(toolNode.name)}", async () => {
+      ${jsCode}
+    }) ?? (() => { ${jsCode} })();
+  },
+});
     `.trim();
   }
 
@@ -109,71 +109,71 @@ export function generateToolWithStepWrapping(
     const description = params.description as string || 'Make HTTP requests';
 
     return `
-    const ${toolName} = createTool({
-      name: "http_request",
-      description: "${description}",
-      parameters: z.object({
-        url: z.string().describe("URL to request"),
-        body: z.string().optional().describe("Request body"),
-      }),
-      handler: async ({ url, body }, { step }) => {
-        // Wrap external API call in step.run for retryability
-        return await step?.run("http-request-${toStepId(toolNode.name)}", async () => {
-          const response = await fetch(url || "${url}", {
-            method: "${method}",
-            body: body ? JSON.stringify(body) : undefined,
-            headers: { "Content-Type": "application/json" },
-          });
-
-          if (!response.ok) {
-            throw new Error(\`HTTP request failed: \${response.status}\`);
-          }
-
-          return await response.text();
-        }) ?? fetch(url || "${url}").then(r => r.text());
-      },
-    });
+const ${toolName} = createTool({
+  name: "http_request",
+  description: "${description}",
+  parameters: z.object({
+    url: z.string().describe("URL to request"),
+    body: z.string().optional().describe("Request body"),
+  }),
+  handler: async ({ url, body }, { step }) => {
+    // Wrap external API call in step.run for retryability
+    return await step?.run("http-request-${toStepId(toolNode.name)}", async () => {
+      const response = await fetch(url || "${url}", {
+        method: "${method}",
+        body: body ? JSON.stringify(body) : undefined,
+        headers: { "Content-Type": "application/json" },
+      });
+
+      if (!response.ok) {
+        throw new Error(\`HTTP request failed: \${response.status}\`);
+      }
+
+      return await response.text();
+    }) ?? fetch(url || "${url}").then(r => r.text());
+  },
+});
     `.trim();
   }
 
   if (toolNode.type === '@n8n/n8n-nodes-langchain.toolCalculator') {
     return `
-    const ${toolName} = createTool({
-      name: "calculator",
-      description: "Perform mathematical calculations. Input should be a valid mathematical expression.",
-      parameters: z.object({
-        expression: z.string().describe("Mathematical expression to evaluate (e.g., '2 + 2', '10 * 5')"),
-      }),
-      handler: async ({ expression }) => {
-        // Calculator doesn't need step wrapping (pure computation)
-        try {
-          const sanitized = expression.replace(/[^0-9+\\-*/().\\s]/g, '');
-          const result = Function('"use strict";return (' + sanitized + ')')();
-          return String(result);
-        } catch (e) {
-          return "Error: Invalid expression";
-        }
-      },
-    });
+const ${toolName} = createTool({
+  name: "calculator",
+  description: "Perform mathematical calculations. Input should be a valid mathematical expression.",
+  parameters: z.object({
+    expression: z.string().describe("Mathematical expression to evaluate (e.g., '2 + 2', '10 * 5')"),
+  }),
+  handler: async ({ expression }) => {
+    // Calculator doesn't need step wrapping (pure computation)
+    try {
+      const sanitized = expression.replace(/[^0-9+\\-*/().\\s]/g, '');
+      const result = Function('"use strict";return (' + sanitized + ')')();
+      return String(result);
+    } catch (e) {
+      return "Error: Invalid expression";
+    }
+  },
+});
     `.trim();
   }
 
   // Default generic tool
   return `
-    const ${toolName} = createTool({
-      name: "${toolNode.name}",
-      description: "${params.description || 'Tool from n8n'}",
-      parameters: z.object({
-        input: z.string(),
-      }),
-      handler: async ({ input }, { step }) => {
-        // Wrap in step.run if step is available
-        return await step?.run("${toStepId(toolNode.name)}", async () => {
-          // TODO: Implement tool logic from ${toolNode.type}
-          return input;
-        }) ?? input;
-      },
-    });
+const ${toolName} = createTool({
+  name: "${toolNode.name}",
+  description: "${params.description || 'Tool from n8n'}",
+  parameters: z.object({
+    input: z.string(),
+  }),
+  handler: async ({ input }, { step }) => {
+    // Wrap in step.run if step is available
+    return await step?.run("${toStepId(toolNode.name)}", async () => {
+      // TODO: Implement tool logic from ${toolNode.type}
+      return input;
+    }) ?? input;
+  },
+});
   `.trim();
 }
 
@@ -184,85 +184,85 @@ export function generateToolWithStepWrapping(
 export function generateSearchTool(apiProvider: 'tavily' | 'perplexity' = 'tavily'): string {
   if (apiProvider === 'tavily') {
     return `
-    // Tool: Web Search using Tavily (faster than Perplexity)
-    const webSearchTool = createTool({
-      name: "web_search",
-      description: "Search the web for information. Use ONE comprehensive query to get all needed context.",
-      parameters: z.object({
-        query: z.string().describe("Comprehensive search query"),
-      }),
-      handler: async ({ query }, { step }) => {
-        if (!process.env.TAVILY_API_KEY) {
-          return { error: "Tavily API key not configured" };
-        }
-
-        return await step?.run("web-search", async () => {
-          const response = await fetch("https://api.tavily.com/search", {
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({
-              api_key: process.env.TAVILY_API_KEY,
-              query,
-              search_depth: "basic",
-              include_answer: true,
-              max_results: 5,
-            }),
-          });
-
-          if (!response.ok) {
-            throw new Error(\`Tavily search failed: \${response.statusText}\`);
-          }
-
-          const data = await response.json();
-          return {
-            answer: data.answer || "No direct answer available",
-            results: data.results || [],
-          };
-        });
-      },
+// Tool: Web Search using Tavily (faster than Perplexity)
+const webSearchTool = createTool({
+  name: "web_search",
+  description: "Search the web for information. Use ONE comprehensive query to get all needed context.",
+  parameters: z.object({
+    query: z.string().describe("Comprehensive search query"),
+  }),
+  handler: async ({ query }, { step }) => {
+    if (!process.env.TAVILY_API_KEY) {
+      return { error: "Tavily API key not configured" };
+    }
+
+    return await step?.run("web-search", async () => {
+      const response = await fetch("https://api.tavily.com/search", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          api_key: process.env.TAVILY_API_KEY,
+          query,
+          search_depth: "basic",
+          include_answer: true,
+          max_results: 5,
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(\`Tavily search failed: \${response.statusText}\`);
+      }
+
+      const data = await response.json();
+      return {
+        answer: data.answer || "No direct answer available",
+        results: data.results || [],
+      };
     });
+  },
+});
     `.trim();
   }
 
   // Perplexity version
   return `
-    // Tool: Web Search using Perplexity
-    const webSearchTool = createTool({
-      name: "web_search",
-      description: "Search the web for information when website content is insufficient.",
-      parameters: z.object({
-        query: z.string().describe("The search query to find information"),
-      }),
-      handler: async ({ query }, { step }) => {
-        if (!process.env.PERPLEXITY_API_KEY) {
-          return { error: "Perplexity API key not configured" };
-        }
-
-        return await step?.run("web-search", async () => {
-          const response = await fetch("https://api.perplexity.ai/chat/completions", {
-            method: "POST",
-            headers: {
-              "Authorization": \`Bearer \${process.env.PERPLEXITY_API_KEY}\`,
-              "Content-Type": "application/json",
-            },
-            body: JSON.stringify({
-              model: "sonar-pro",
-              messages: [{ role: "user", content: query }],
-            }),
-          });
-
-          if (!response.ok) {
-            throw new Error(\`Perplexity search failed: \${response.statusText}\`);
-          }
-
-          const data = await response.json();
-          return {
-            result: data.choices?.[0]?.message?.content || "No results found",
-            citations: data.citations || [],
-          };
-        });
-      },
+// Tool: Web Search using Perplexity
+const webSearchTool = createTool({
+  name: "web_search",
+  description: "Search the web for information when website content is insufficient.",
+  parameters: z.object({
+    query: z.string().describe("The search query to find information"),
+  }),
+  handler: async ({ query }, { step }) => {
+    if (!process.env.PERPLEXITY_API_KEY) {
+      return { error: "Perplexity API key not configured" };
+    }
+
+    return await step?.run("web-search", async () => {
+      const response = await fetch("https://api.perplexity.ai/chat/completions", {
+        method: "POST",
+        headers: {
+          "Authorization": \`Bearer \${process.env.PERPLEXITY_API_KEY}\`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          model: "sonar-pro",
+          messages: [{ role: "user", content: query }],
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(\`Perplexity search failed: \${response.statusText}\`);
+      }
+
+      const data = await response.json();
+      return {
+        result: data.choices?.[0]?.message?.content || "No results found",
+        citations: data.citations || [],
+      };
     });
+  },
+});
   `.trim();
 }
 
@@ -280,7 +280,7 @@ export function generateResultSchema(params: Record<string, unknown>): string {
         const desc = typeof value === 'object' ? (value as any).description : '';
         return `${key}: z.string().describe("${desc || key}")`;
       })
-      .join(',\n        ');
+      .join(',\n    ');
     return schemaFields;
   }
 
@@ -302,14 +302,14 @@ export function generateNetworkConfig(
   const optimizedMaxIter = Math.min(maxIterations, 5);
 
   return `
-    // Create network with custom router and performance optimizations
-    const ${networkName} = createNetwork({
-      name: "${networkName}",
-      agents: [${agentName}],
-      defaultModel: ${modelCode},
-      maxIter: ${optimizedMaxIter}, // Optimized for faster completion
-      ${generateCustomRouter(agentName)}
-    });
+// Create network with custom router and performance optimizations
+const ${networkName} = createNetwork({
+  name: "${networkName}",
+  agents: [${agentName}],
+  defaultModel: ${modelCode},
+  maxIter: ${optimizedMaxIter}, // Optimized for faster completion
+  ${generateCustomRouter(agentName)}
+});
   `.trim();
 }
 
@@ -359,14 +359,22 @@ export function generateModelConfig(
 
 /**
  * Generate network result retrieval with fallback
- * Production pattern: retrieves from network.state.data
+ * Production pattern: retrieves from network.state.data, where the save_results tool stored them
  */
-export function generateResultRetrieval(resultType: string = 'results'): string {
+export function generateResultRetrieval(): string {
   return `
-    // Get results from network state (set by save_results tool)
-    const ${resultType} = (networkResult.state.data.${resultType}) || {
-      output: "Information not available - agent did not complete task",
-      completed: false,
-    };
+function n8nSavedAgentResults(run: NetworkRun<any>): Record<string, unknown> {
+  const results = run.state.data.results || {
+    output: "Information not available - agent did not complete task",
+    completed: false,
+  };
+  return {
+    ...results,
+    metadata: {
+      agent_name: run.state.results.at(-1)?.agentName,
+      completed: !!results.completed,
+    },
+  };
+}
   `.trim();
 }
@@ -23,6 +23,7 @@ import {
   generateModelConfig,
   generateResultRetrieval,
 } from './ai-converter-helpers.js';
+import { AGENT_INPUT_HELPER } from './ai-converters.js';
 
 /**
  * Enhanced AI Agent Node Converter with Production Patterns
@@ -72,6 +73,8 @@ export const enhancedAiAgentConverter: NodeConverter = {
 
 /**
  * Generate enhanced AgentKit code with ALL production patterns
+ * Tools, agent and network are declared at module scope; the network runs in the function body
+ * (NOT wrapped in step.run, which causes NESTING_STEPS errors) so each inference is its own step
  */
 function generateEnhancedAgentKitCode(
   node: ParsedNode,
@@ -95,9 +98,7 @@ function generateEnhancedAgentKitCode(
   const resultSchema = generateResultSchema(params as unknown as Record<string, unknown>);
 
   // Generate tools with step wrapping
-  const toolsCode = connections.tools.length > 0
-    ? connections.tools.map(t => generateToolWithStepWrapping(t, context)).join('\n\n      ')
-    : '';
+  const toolsCode = connections.tools.map(t => generateToolWithStepWrapping(t, context));
 
   // Add search tool if agent needs web search capability
   // For now, disabled by default - can be enabled via custom parameters
@@ -107,11 +108,6 @@ function generateEnhancedAgentKitCode(
   // Generate save results tool
   const saveToolCode = generateSaveResultsTool(node.name, resultSchema);
 
-  // Combine all tools
-  const allToolsCode = [toolsCode, searchToolCode, saveToolCode]
-    .filter(Boolean)
-    .join('\n\n      ');
-
   // Generate model configuration with OpenRouter
   const modelCode = generateModelConfig(
     connections.llm.length > 0 ? connections.llm[0] : null,
@@ -122,74 +118,54 @@ function generateEnhancedAgentKitCode(
   const toolNames = [
     ...connections.tools.map(t => toVariableName(t.name) + 'Tool'),
     hasSearchCapability ? 'webSearchTool' : '',
-    'saveResultsTool',
+    toVariableName(node.name) + 'SaveResultsTool',
   ].filter(Boolean);
 
-  const code = `
-      const data = ${dataAccess};
-      const input = typeof data === 'string' ? data : data.text || data.prompt || data.message || JSON.stringify(data);
-
-      // Check environment variables
-      if (!process.env.OPENROUTER_API_KEY) {
-        throw new Error("OPENROUTER_API_KEY environment variable is required");
-      }
-      ${hasSearchCapability ? 'if (!process.env.TAVILY_API_KEY) { throw new Error("TAVILY_API_KEY required for web search"); }' : ''}
-
-      ${generateOpenRouterHelper()}
-
-      ${allToolsCode}
-
-      // Create AI agent
-      const ${agentName} = createAgent({
-        name: "${node.name}",
-        description: "AI agent specialized in the task",
-        system: \`${systemMessage}
+  const agentCode = `
+// Create AI agent
+const ${agentName} = createAgent({
+  name: "${node.name}",
+  description: "AI agent specialized in the task",
+  system: \`${systemMessage}
 
 ## IMPORTANT Instructions
 
 When you have completed the task and gathered all necessary information, you MUST call the save_results tool with your findings.
 
 If you need additional information that's not available, use the provided tools to gather it, then save your results.\`,
-        tools: [${toolNames.join(', ')}],
-        model: ${modelCode},
-      });
-
-      ${generateNetworkConfig(networkName, agentName, modelCode, maxIterations)}
-
-      // Run the network (NOT wrapped in step.run to avoid NESTING_STEPS error)
-      // NOTE: This is important - wrapping network.run() in step.run() causes errors
-      const startTime = Date.now();
-      const networkResult = await ${networkName}.run(input);
-      const duration = Date.now() - startTime;
+  tools: [${toolNames.join(', ')}],
+  model: ${modelCode},
+});
 
-      ${generateResultRetrieval('results')}
-
-      // Return results with metadata
-      return {
-        ...results,
-        metadata: {
-          duration_ms: duration,
-          agent_name: "${node.name}",
-          completed: !!results.completed,
-        },
-      };
+${generateNetworkConfig(networkName, agentName, modelCode, maxIterations)}
   `.trim();
 
   return {
     steps: [{
-      type: 'run',
+      type: 'agent.run',
       id: stepId,
-      code,
+      network: networkName,
+      input: `n8nAgentInput(${dataAccess})`,
+      output: 'n8nSavedAgentResults',
       comment: `AI Agent (Enhanced AgentKit): ${node.name}`,
     }],
     additionalImports: [
       'import { createAgent, createNetwork, createTool, openai, anthropic } from "@inngest/agent-kit";',
+      'import type { NetworkRun } from "@inngest/agent-kit";',
       'import { z } from "zod";',
     ],
     helperFunctions: [
       '// Note: Ensure OPENROUTER_API_KEY is set in your environment',
       hasSearchCapability ? '// Note: Ensure TAVILY_API_KEY is set for web search capability' : '',
+      AGENT_INPUT_HELPER,
+      generateResultRetrieval(),
+      generateOpenRouterHelper(),
+      ...toolsCode,
+      searchToolCode,
+      saveToolCode,
+      agentCode,
     ].filter(Boolean),
+    subNodes: connections.tools.map(t => t.name),
   };
 }
 
@@ -206,8 +182,8 @@ function generateBasicAICode(
   const systemMessage = params.options?.systemMessage || 'You are a helpful assistant.';
 
   const code = `
-      const data = ${dataAccess};
-      const input = typeof data === 'string' ? data : data.text || data.prompt || data.message || JSON.stringify(data);
+      const data: any = ${dataAccess};
+      const input = typeof data === 'string' ? data : data.chatInput || data.text || data.prompt || data.message || JSON.stringify(data);
 
       if (!process.env.OPENROUTER_API_KEY) {
         throw new Error("OPENROUTER_API_KEY environment variable is required");
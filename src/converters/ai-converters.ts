@@ -12,11 +12,29 @@ import {
   toVariableName,
   convertN8nExpression,
   generateDataAccess,
+  generateItemsAccess,
   generateEnvVarCheck,
   generateHttpRequest,
   generateDataExtraction,
+  indent,
 } from './base-converter.js';
+import { ExpressionScope } from './expression-translator.js';
 import { OpenAINodeParameters, AIAgentNodeParameters } from '../types/n8n.js';
+import { useChatMemory } from './memory-helpers.js';
+import { useOutputParser, declareOutputSchema, OUTPUT_PARSER_RETRIES } from './output-parser-helpers.js';
+import { VECTOR_STORE_NODE_TYPES } from './vector-store-helpers.js';
+import { generateVectorStoreTool } from './rag-converters.js';
+import {
+  InferMessage,
+  LLM_CHAIN_OUTPUT_HELPER,
+  OPENAI_MESSAGE_OUTPUT_HELPER,
+  useInferModel,
+  openaiInferModel,
+  generateInferStep,
+  generateMessagesCode,
+  inferScope,
+  toMessageContent,
+} from './ai-infer-helpers.js';
 
 // ============================================================================
 // AI-SPECIFIC HELPER FUNCTIONS
@@ -116,11 +134,26 @@ export const openaiConverter: NodeConverter = {
     const resource = params.resource || 'chat';
     const model = params.model || 'gpt-4o';
 
+    // Chat completions are offloaded to Inngest with step.ai.infer
+    if (resource === 'chat') {
+      const messages = generateMessagesFromParams(node, params, dataAccess, context);
+      context.helpers.add(OPENAI_MESSAGE_OUTPUT_HELPER);
+      return {
+        steps: [generateInferStep(
+          stepId,
+          openaiInferModel(model, params.options ?? {}),
+          messages,
+          'n8nOpenAIMessageOutput',
+          context,
+          `OpenAI ${resource}: ${node.name}`,
+          openaiParameters(params.options ?? {})
+        )],
+      };
+    }
+
     let code: string;
 
-    if (resource === 'chat') {
-      code = generateOpenAIChatCompletion(params, dataAccess, model, context);
-    } else if (resource === 'completion') {
+    if (resource === 'completion') {
       code = generateOpenAICompletion(params, dataAccess, model, context);
     } else if (resource === 'image') {
       code = generateOpenAIImage(params, dataAccess, context);
@@ -133,26 +166,6 @@ export const openaiConverter: NodeConverter = {
       `.trim();
     }
 
-    // Use Inngest's step.ai.infer when available
-    if (context.options.useAgentKit) {
-      return {
-        steps: [{
-          type: 'ai.infer',
-          id: stepId,
-          model: `openai({ model: "${model}" })`,
-          body: {
-            messages: generateMessagesFromParams(params, dataAccess, context),
-            temperature: params.options?.temperature,
-            maxTokens: params.options?.maxTokens,
-          },
-          comment: `OpenAI ${resource}: ${node.name}`,
-        }],
-        additionalImports: [
-          'import { openai } from "@inngest/agent-kit";',
-        ],
-      };
-    }
-
     return {
       steps: [{
         type: 'run',
@@ -164,65 +177,6 @@ export const openaiConverter: NodeConverter = {
   },
 };
 
-function generateOpenAIChatCompletion(
-  params: OpenAINodeParameters,
-  dataAccess: string,
-  model: string,
-  _context: ConversionContext
-): string {
-  const messages = params.messages?.values || [];
-  const messagesCode = messages.length > 0
-    ? JSON.stringify(messages.map(m => ({
-        role: m.role,
-        content: m.content,
-      })))
-    : `[{ role: "user", content: ${dataAccess}.prompt || ${dataAccess}.message || JSON.stringify(${dataAccess}) }]`;
-
-  const options = params.options || {};
-
-  // Build options object
-  const optionLines: string[] = [];
-  if (options.temperature !== undefined) optionLines.push(`temperature: ${options.temperature}`);
-  if (options.maxTokens !== undefined) optionLines.push(`max_tokens: ${options.maxTokens}`);
-  if (options.topP !== undefined) optionLines.push(`top_p: ${options.topP}`);
-  if (options.frequencyPenalty !== undefined) optionLines.push(`frequency_penalty: ${options.frequencyPenalty}`);
-  if (options.presencePenalty !== undefined) optionLines.push(`presence_penalty: ${options.presencePenalty}`);
-
-  const bodyOptions = optionLines.length > 0 ? optionLines.join(',\n          ') + ',' : '';
-
-  return `
-      const data = ${dataAccess};
-
-      ${generateEnvVarCheck('N8N_OPENAI_API_KEY', 'OpenAI')}
-
-      const response = await fetch("https://api.openai.com/v1/chat/completions", {
-        method: "POST",
-        headers: {
-          "Authorization": \`Bearer \${process.env.N8N_OPENAI_API_KEY}\`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          model: "${model}",
-          messages: ${messagesCode},
-          ${bodyOptions}
-        }),
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(\`[OpenAI:chat/completions] Request failed: \${response.status} - \${errorText}\`);
-      }
-
-      const result = await response.json();
-      return {
-        content: result.choices?.[0]?.message?.content,
-        usage: result.usage,
-        model: result.model,
-        finishReason: result.choices?.[0]?.finish_reason,
-      };
-  `.trim();
-}
-
 function generateOpenAICompletion(
   params: OpenAINodeParameters,
   dataAccess: string,
@@ -354,18 +308,32 @@ function generateOpenAIEmbedding(
 }
 
 function generateMessagesFromParams(
+  node: ParsedNode,
   params: OpenAINodeParameters,
   dataAccess: string,
   context: ConversionContext
-): string {
+): InferMessage[] {
+  const scope = inferScope(node, dataAccess, context);
   const messages = params.messages?.values || [];
   if (messages.length > 0) {
-    return JSON.stringify(messages.map(m => ({
+    return messages.map(m => ({
       role: m.role,
-      content: m.content,
-    })));
+      content: toMessageContent(convertN8nExpression(m.content, context, scope)),
+    }));
   }
-  return `[{ role: "user", content: ${dataAccess}.prompt || ${dataAccess}.message || String(${dataAccess}) }]`;
+  return [{ role: 'user', content: generateDataExtraction(scope.item, 'prompt', ['message']) }];
+}
+
+/**
+ * Request parameters of the OpenAI options besides temperature and max tokens
+ */
+function openaiParameters(options: Record<string, unknown>): Record<string, unknown> {
+  const parameters: Record<string, unknown> = {
+    top_p: options.topP,
+    frequency_penalty: options.frequencyPenalty,
+    presence_penalty: options.presencePenalty,
+  };
+  return Object.fromEntries(Object.entries(parameters).filter(([, value]) => value !== undefined));
 }
 
 /**
@@ -374,8 +342,6 @@ function generateMessagesFromParams(
 export const aiAgentConverter: NodeConverter = {
   nodeTypes: [
     '@n8n/n8n-nodes-langchain.agent',
-    '@n8n/n8n-nodes-langchain.chainLlm',
-    '@n8n/n8n-nodes-langchain.chainRetrievalQa',
     '@n8n/n8n-nodes-langchain.chainSummarization',
   ],
 
@@ -391,6 +357,7 @@ export const aiAgentConverter: NodeConverter = {
     const connectedTools = findConnectedAINodes(node, context, 'ai_tool');
     const connectedMemory = findConnectedAINodes(node, context, 'ai_memory');
     const connectedLLM = findConnectedAINodes(node, context, 'ai_languageModel');
+    const connectedParser = findConnectedAINodes(node, context, 'ai_outputParser');
 
     if (context.options.useAgentKit) {
       // Generate AgentKit network code
@@ -398,29 +365,16 @@ export const aiAgentConverter: NodeConverter = {
         tools: connectedTools,
         memory: connectedMemory,
         llm: connectedLLM,
+        outputParser: connectedParser,
       });
     }
 
     // Generate standard step.run code with OpenAI
     const systemMessage = params.options?.systemMessage || 'You are a helpful assistant.';
+    const memory = connectedMemory.length > 0 ? useChatMemory(connectedMemory[0], node, context) : undefined;
+    const parser = connectedParser.length > 0 ? useOutputParser(connectedParser[0], node, context) : undefined;
 
-    const code = `
-      const data = ${dataAccess};
-      const input = typeof data === 'string' ? data : data.text || data.prompt || data.message || JSON.stringify(data);
-
-      ${generateEnvVarCheck('N8N_OPENAI_API_KEY', 'OpenAI')}
-
-      // AI Agent implementation
-      // NOTE: For full agent capabilities, consider using @inngest/agent-kit
-      // This is a simplified implementation using direct OpenAI calls
-
-      const systemPrompt = \`${systemMessage}\`;
-
-      const messages = [
-        { role: "system", content: systemPrompt },
-        { role: "user", content: input },
-      ];
-
+    const completion = `
       const response = await fetch("https://api.openai.com/v1/chat/completions", {
         method: "POST",
         headers: {
@@ -440,10 +394,60 @@ export const aiAgentConverter: NodeConverter = {
       }
 
       const result = await response.json();
+      const output = result.choices?.[0]?.message?.content;`;
+
+    const saveMemory = memory
+      ? `\n      await ${memory.store}.append(sessionKey, [{ role: "user", content: input }, { role: "assistant", content: output }]);`
+      : '';
+
+    // The output parser's schema validates the reply; validation errors are sent back to the model
+    const reply = parser ? `
+      for (let attempt = 0; ; attempt++) {${indent(completion, 2)}
+        const parsed = n8nParseStructuredOutput(${parser.schema}, output ?? "");
+        if (parsed.success) {${indent(saveMemory, 4)}
+          return {
+            output: parsed.data,
+            usage: result.usage,
+          };
+        }
+        if (attempt === ${OUTPUT_PARSER_RETRIES}) {
+          throw new NonRetriableError(\`[AIAgent] Output does not match the output parser's schema: \${n8nOutputErrors(parsed.error)}\`);
+        }
+        messages.push(
+          { role: "assistant", content: output ?? "" },
+          { role: "user", content: \`Your response does not match the required format: \${n8nOutputErrors(parsed.error)}. Respond again with the corrected JSON.\` },
+        );
+      }` : `${completion}${saveMemory}
       return {
-        output: result.choices?.[0]?.message?.content,
+        output,
         usage: result.usage,
-      };
+      };`;
+    if (parser) {
+      context.imports.add('import { NonRetriableError } from "inngest";');
+    }
+
+    const code = `
+      const data: any = ${dataAccess};
+      const input = typeof data === 'string' ? data : data.chatInput || data.text || data.prompt || data.message || JSON.stringify(data);
+
+      ${generateEnvVarCheck('N8N_OPENAI_API_KEY', 'OpenAI')}
+
+      // AI Agent implementation
+      // NOTE: For full agent capabilities, consider using @inngest/agent-kit
+      // This is a simplified implementation using direct OpenAI calls
+
+      const systemPrompt = \`${systemMessage}\`${parser ? ` + ${JSON.stringify('\n\n' + parser.instructions)}` : ''};
+${memory ? `
+      // Conversation history from the chat memory
+      const sessionKey = n8nChatSessionKey(${memory.sessionKey});
+      const history = await ${memory.store}.load(sessionKey, ${memory.limit});
+` : ''}
+      const messages = [
+        { role: "system", content: systemPrompt },${memory ? `
+        ...history,` : ''}
+        { role: "user", content: input },
+      ];
+${reply}
     `.trim();
 
     return {
@@ -453,12 +457,229 @@ export const aiAgentConverter: NodeConverter = {
         code,
         comment: `AI Agent: ${node.name}`,
       }],
+      subNodes: outputParserNodes(connectedParser, context),
+    };
+  },
+};
+
+interface LlmChainParameters {
+  promptType?: 'auto' | 'define';
+  text?: string;
+  // Before v1.4
+  prompt?: string;
+  messages?: {
+    messageValues?: Array<{
+      type?: 'SystemMessagePromptTemplate' | 'AIMessagePromptTemplate' | 'HumanMessagePromptTemplate';
+      messageType?: 'text' | 'imageBinary' | 'imageUrl';
+      message?: string;
+    }>;
+  };
+}
+
+const CHAT_MESSAGE_ROLES = {
+  SystemMessagePromptTemplate: 'system',
+  AIMessagePromptTemplate: 'assistant',
+  HumanMessagePromptTemplate: 'user',
+} as const;
+
+/**
+ * Basic LLM Chain Converter
+ * The prompt is a single model call, offloaded to Inngest with step.ai.infer; Ollama models,
+ * which Inngest can't reach, are called from step.run
+ */
+export const llmChainConverter: NodeConverter = {
+  nodeTypes: ['@n8n/n8n-nodes-langchain.chainLlm'],
+
+  convert(node: ParsedNode, context: ConversionContext): ConversionResult {
+    const params = node.parameters as LlmChainParameters;
+    const stepId = toStepId(node.name);
+    const varName = toVariableName(node.name);
+    const dataAccess = generateDataAccess(node, context);
+
+    context.variableMap.set(node.name, varName);
+
+    const llm = findConnectedAINodes(node, context, 'ai_languageModel')[0];
+    const connectedParser = findConnectedAINodes(node, context, 'ai_outputParser');
+    const model = useInferModel(llm, context);
+
+    // The prompt's expressions read the input in the function body, or in the step for Ollama
+    const scope = model ? inferScope(node, dataAccess, context) : undefined;
+    const messages = generateChainMessages(node, params, context, scope);
+
+    // The output parser's schema validates the reply; the chain fails when it doesn't match
+    const parser = connectedParser.length > 0 ? useOutputParser(connectedParser[0], node, context) : undefined;
+    if (parser) {
+      messages.splice(-1, 0, { role: 'system', content: JSON.stringify(parser.instructions) });
+      context.imports.add('import { NonRetriableError } from "inngest";');
+    }
+
+    if (!model) {
+      return {
+        steps: [{
+          type: 'run',
+          id: stepId,
+          code: generateOllamaChain(llm, messages, dataAccess, parser?.schema),
+          comment: `LLM Chain (Ollama): ${node.name}`,
+        }],
+        subNodes: outputParserNodes(connectedParser, context),
+      };
+    }
+
+    let output = 'n8nLlmChainOutput';
+    if (parser) {
+      output = `${varName}Output`;
+      context.helpers.add(`
+function ${output}(result: AiAdapter.Output<OpenAiAiAdapter> | AnthropicAiAdapter.Output): { output: z.infer<typeof ${parser.schema}> } {
+  const parsed = n8nParseStructuredOutput(${parser.schema}, n8nInferText(result));
+  if (!parsed.success) {
+    throw new NonRetriableError(\`[LLMChain] Output does not match the output parser's schema: \${n8nOutputErrors(parsed.error)}\`);
+  }
+  return { output: parsed.data };
+}
+      `.trim());
+    } else {
+      context.helpers.add(LLM_CHAIN_OUTPUT_HELPER);
+    }
+
+    return {
+      steps: [generateInferStep(stepId, model, messages, output, context, `LLM Chain: ${node.name}`)],
+      subNodes: outputParserNodes(connectedParser, context),
     };
   },
 };
 
+/**
+ * Messages of the chain's prompt: its chat messages, then the user prompt
+ */
+function generateChainMessages(
+  node: ParsedNode,
+  params: LlmChainParameters,
+  context: ConversionContext,
+  scope?: ExpressionScope
+): InferMessage[] {
+  const messages: InferMessage[] = [];
+  for (const message of params.messages?.messageValues ?? []) {
+    if (message.messageType && message.messageType !== 'text') {
+      context.warnings.push(`LLM Chain "${node.name}": image messages are not supported and are left out of the prompt.`);
+      continue;
+    }
+    messages.push({
+      role: CHAT_MESSAGE_ROLES[message.type ?? 'SystemMessagePromptTemplate'],
+      content: toMessageContent(convertN8nExpression(message.message ?? '', context, scope)),
+    });
+  }
+
+  // Before v1.4 the prompt defaulted to the input's `input` field; since then to the chat input
+  const prompt = params.promptType === 'define' || node.typeVersion < 1.4
+    ? params.text ?? params.prompt ?? '={{ $json.input }}'
+    : '={{ $json.chatInput }}';
+  messages.push({ role: 'user', content: toMessageContent(convertN8nExpression(prompt, context, scope)) });
+
+  return messages;
+}
+
+/**
+ * Ollama chain: the model is called through its OpenAI-compatible API from the step
+ */
+function generateOllamaChain(
+  llmNode: ParsedNode,
+  messages: InferMessage[],
+  dataAccess: string,
+  schema: string | undefined
+): string {
+  const model = llmNode.parameters.model as string | undefined;
+
+  const output = schema ? `
+      const parsed = n8nParseStructuredOutput(${schema}, text);
+      if (!parsed.success) {
+        throw new NonRetriableError(\`[LLMChain] Output does not match the output parser's schema: \${n8nOutputErrors(parsed.error)}\`);
+      }
+      return { output: parsed.data };` : `
+      return { text };`;
+
+  return `
+      const data: any = ${dataAccess};
+
+      const response = await fetch(\`\${process.env.N8N_OLLAMA_BASE_URL || "http://localhost:11434/v1"}/chat/completions\`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          model: "${model || 'llama2'}",
+          messages: ${generateMessagesCode(messages)},
+        }),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(\`[LLMChain:Ollama] Request failed: \${response.status} - \${errorText}\`);
+      }
+
+      const result = await response.json();
+      const text: string = result.choices?.[0]?.message?.content ?? "";${output}
+  `.trim();
+}
+
+/**
+ * The input text of an AgentKit network run in the function body
+ */
+export const AGENT_INPUT_HELPER = `function n8nAgentInput(data: any): string {
+  return typeof data === "string" ? data : data.chatInput || data.text || data.prompt || data.message || JSON.stringify(data);
+}`;
+
+/**
+ * The node's output: the agent's last reply, as n8n's AI Agent returns it
+ */
+const AGENT_OUTPUT_HELPER = `function n8nAgentReply(results: NetworkRun<any>["state"]["results"]): string {
+  const reply = results
+    .flatMap(result => result.output)
+    .filter((message): message is TextMessage => message.type === "text" && message.role === "assistant")
+    .pop();
+  const content = reply?.content ?? "";
+  return typeof content === "string" ? content : content.map(part => part.text).join("");
+}
+
+function n8nAgentOutput(run: NetworkRun<any>): { output: string } {
+  return { output: n8nAgentReply(run.state.results) };
+}`;
+
+/**
+ * The node's output with an output parser: the answer the agent gave through its output tool
+ */
+const AGENT_STRUCTURED_OUTPUT_HELPER = `function n8nAgentStructuredOutput(run: NetworkRun<any>): { output: unknown } {
+  if (run.state.data.output === undefined) {
+    throw new NonRetriableError("The agent did not give an answer matching the output parser's schema");
+  }
+  return { output: run.state.data.output };
+}`;
+
+/**
+ * Network history backed by a chat memory store; loading and saving are steps of the function
+ */
+const AGENT_HISTORY_HELPER = `function n8nChatHistory(memory: ChatMemoryStore, limit: number, stepId: string): HistoryConfig<any> {
+  return {
+    get: async ({ threadId, step }) => {
+      const load = () => memory.load(threadId!, limit);
+      const messages = step ? await step.run(\`\${stepId}-load-memory\`, load) : await load();
+      return messages.map(message => new AgentResult(message.role, [{ type: "text", role: message.role, content: message.content }], [], new Date()));
+    },
+    appendResults: async ({ threadId, newResults, userMessage, step }) => {
+      const turn: ChatMessage[] = [
+        ...(userMessage ? [{ role: "user" as const, content: userMessage.content }] : []),
+        { role: "assistant", content: n8nAgentReply(newResults) },
+      ];
+      const save = () => memory.append(threadId!, turn);
+      if (step) await step.run(\`\${stepId}-save-memory\`, save);
+      else await save();
+    },
+  };
+}`;
+
 /**
  * Generate AgentKit code for AI Agent node
+ * Tools, agent and network are declared at module scope; the network runs in the function body so
+ * AgentKit makes each inference a step.ai call and hands tool handlers `step`
  */
 function generateAgentKitCode(
   node: ParsedNode,
@@ -469,71 +690,111 @@ function generateAgentKitCode(
     tools: ParsedNode[];
     memory: ParsedNode[];
     llm: ParsedNode[];
+    outputParser: ParsedNode[];
   }
 ): ConversionResult {
   const stepId = toStepId(node.name);
-  const varName = toVariableName(node.name);
   const agentName = toVariableName(node.name) + 'Agent';
   const networkName = toVariableName(node.name) + 'Network';
 
   const systemMessage = params.options?.systemMessage || 'You are a helpful AI assistant.';
   const maxIterations = params.options?.maxIterations || 10;
 
-  // Generate tools
-  const toolsCode = connections.tools.length > 0
-    ? generateToolsCode(connections.tools, context)
-    : '';
-
   // Determine model from connected LLM or default
   const modelCode = connections.llm.length > 0
     ? getModelFromLLMNode(connections.llm[0])
     : 'openai({ model: "gpt-4o" })';
 
-  const code = `
-      const data = ${dataAccess};
-      const input = typeof data === 'string' ? data : data.text || data.prompt || data.message || JSON.stringify(data);
-
-      ${toolsCode}
-
-      // Create agent
-      const ${agentName} = createAgent({
-        name: "${node.name}",
-        description: "AI Agent from n8n workflow",
-        system: \`${systemMessage}\`,
-        tools: [${connections.tools.map(t => toVariableName(t.name) + 'Tool').join(', ')}],
-      });
-
-      // Create network
-      const ${networkName} = createNetwork({
-        name: "${networkName}",
-        agents: [${agentName}],
-        defaultModel: ${modelCode},
-        maxIter: ${maxIterations},
-      });
+  // Chat memory: the network loads and saves the conversation of the run's thread
+  const memory = connections.memory.length > 0 ? useChatMemory(connections.memory[0], node, context) : undefined;
+  if (memory) {
+    context.helpers.add(AGENT_HISTORY_HELPER);
+  }
 
-      // Run the network
-      const result = await ${networkName}.run(input);
+  // Output parser: the agent answers through a tool validating the schema, and is routed back to fix invalid answers
+  const parser = connections.outputParser.length > 0 ? useOutputParser(connections.outputParser[0], node, context) : undefined;
+  const tools = connections.tools.map(t => toVariableName(t.name) + 'Tool');
+  const outputToolName = toVariableName(node.name) + 'OutputTool';
+  if (parser) {
+    context.imports.add('import { NonRetriableError } from "inngest";');
+    context.helpers.add(AGENT_STRUCTURED_OUTPUT_HELPER);
+    context.helpers.add(`
+const ${outputToolName} = createTool({
+  name: "format_final_json_response",
+  description: "Respond with your final answer in the required format. Always use this tool for the final answer.",
+  parameters: z.object({ output: ${parser.schema} }),
+  handler: async ({ output }, { network }) => {
+    const parsed = ${parser.schema}.safeParse(output);
+    if (!parsed.success) {
+      network.state.data.outputErrors = (network.state.data.outputErrors ?? 0) + 1;
+      throw new Error(\`The answer does not match the required format: \${n8nOutputErrors(parsed.error)}. Call format_final_json_response again with the corrected answer.\`);
+    }
+    network.state.data.output = parsed.data;
+    return "Answer recorded";
+  },
+});
+    `.trim());
+    tools.push(outputToolName);
+  }
 
-      return {
-        output: result.output,
-        state: result.state,
-      };
+  const agentCode = `
+// AI Agent (AgentKit): ${node.name}
+const ${agentName} = createAgent({
+  name: "${node.name}",
+  description: "AI Agent from n8n workflow",
+  system: \`${systemMessage}\`${parser ? ` + ${JSON.stringify('\n\nGive your final answer by calling the format_final_json_response tool.')}` : ''},
+  tools: [${tools.join(', ')}],
+});
+
+const ${networkName} = createNetwork({
+  name: "${networkName}",
+  agents: [${agentName}],
+  defaultModel: ${modelCode},
+  maxIter: ${maxIterations},${memory ? `
+  history: n8nChatHistory(${memory.store}, ${memory.limit}, "${stepId}"),` : ''}${parser ? `
+  router: ({ network }) =>
+    network.state.data.output === undefined && (network.state.data.outputErrors ?? 0) <= ${OUTPUT_PARSER_RETRIES} ? ${agentName} : undefined,` : ''}
+});
   `.trim();
 
+  // Item semantics: the network runs once, with the first item
+  let input = dataAccess;
+  if (context.options.itemSemantics) {
+    input = `(${generateItemsAccess(node, context)}[0]?.json ?? {})`;
+    context.warnings.push(`AI Agent "${node.name}": the AgentKit network runs once per execution, with the first input item.`);
+  }
+
   return {
     steps: [{
-      type: 'run',
+      type: 'agent.run',
       id: stepId,
-      code,
+      network: networkName,
+      input: `n8nAgentInput(${input})`,
+      state: memory ? `createState({}, { threadId: n8nChatSessionKey(((data: any) => ${memory.sessionKey})(${input})) })` : undefined,
+      output: parser ? 'n8nAgentStructuredOutput' : 'n8nAgentOutput',
       comment: `AI Agent (AgentKit): ${node.name}`,
     }],
     additionalImports: [
       'import { createAgent, createNetwork, createTool, openai, anthropic } from "@inngest/agent-kit";',
+      'import type { NetworkRun, TextMessage } from "@inngest/agent-kit";',
+      ...(memory ? ['import { AgentResult, createState } from "@inngest/agent-kit";', 'import type { HistoryConfig } from "@inngest/agent-kit";'] : []),
       'import { z } from "zod";',
     ],
+    helperFunctions: [AGENT_INPUT_HELPER, AGENT_OUTPUT_HELPER, ...generateToolsCode(connections.tools, context), agentCode],
+    subNodes: [...connections.tools.map(t => t.name), ...outputParserNodes(connections.outputParser, context)],
   };
 }
 
+/**
+ * Output parsers of an agent, with the structured parsers wrapped by auto-fixing parsers
+ */
+function outputParserNodes(parsers: ParsedNode[], context: ConversionContext): string[] {
+  return parsers.flatMap(parser => [
+    parser.name,
+    ...findConnectedAINodes(parser, context, 'ai_outputParser').map(wrapped => wrapped.name),
+  ]);
+}
+
 /**
  * Find connected AI sub-nodes
  */
@@ -557,48 +818,58 @@ function findConnectedAINodes(
 }
 
 /**
- * Generate tool code from tool nodes
+ * Generate module-scope tool declarations from tool nodes
+ * Handlers with side effects run in step.run when AgentKit passes them `step`
  */
-function generateToolsCode(toolNodes: ParsedNode[], context: ConversionContext): string {
+function generateToolsCode(toolNodes: ParsedNode[], context: ConversionContext): string[] {
   return toolNodes.map(toolNode => {
     const toolName = toVariableName(toolNode.name) + 'Tool';
+    const toolStepId = toStepId(toolNode.name);
     const params = toolNode.parameters as Record<string, unknown>;
 
+    if (toolNode.type === '@n8n/n8n-nodes-langchain.toolVectorStore' || VECTOR_STORE_NODE_TYPES.includes(toolNode.type)) {
+      const vectorStoreTool = generateVectorStoreTool(toolNode, context);
+      if (vectorStoreTool) return vectorStoreTool;
+    }
+
     if (toolNode.type === '@n8n/n8n-nodes-langchain.toolCode') {
       // Custom code tool
       const jsCode = params.jsCode as string || 'return input;';
       return `
-      const ${toolName} = createTool({
-        name: "${toolNode.name}",
-        description: "${params.description || 'Custom tool'}",
-        parameters: z.object({
-          input: z.string().describe("Input to the tool"),
-        }),
-        handler: async ({ input }) => {
-          ${jsCode}
-        },
-      });
+const ${toolName} = createTool({
+  name: "${toolNode.name}",
+  description: "${params.description || 'Custom tool'}",
+  parameters: z.object({
+    input: z.string().describe("Input to the tool"),
+  }),
+  handler: async ({ input }, { step }) => {
+    const run = async () => {
+      ${jsCode}
+    };
+    return step ? step.run("${toolStepId}", run) : run();
+  },
+});
       `.trim();
     }
 
     if (toolNode.type === '@n8n/n8n-nodes-langchain.toolCalculator') {
       return `
-      const ${toolName} = createTool({
-        name: "calculator",
-        description: "Perform mathematical calculations",
-        parameters: z.object({
-          expression: z.string().describe("Mathematical expression to evaluate"),
-        }),
-        handler: async ({ expression }) => {
-          // Simple calculator implementation
-          try {
-            const result = Function('"use strict";return (' + expression + ')')();
-            return String(result);
-          } catch (e) {
-            return "Error: Invalid expression";
-          }
-        },
-      });
+const ${toolName} = createTool({
+  name: "calculator",
+  description: "Perform mathematical calculations",
+  parameters: z.object({
+    expression: z.string().describe("Mathematical expression to evaluate"),
+  }),
+  handler: async ({ expression }) => {
+    // Simple calculator implementation
+    try {
+      const result = Function('"use strict";return (' + expression + ')')();
+      return String(result);
+    } catch (e) {
+      return "Error: Invalid expression";
+    }
+  },
+});
       `.trim();
     }
 
@@ -606,40 +877,43 @@ function generateToolsCode(toolNodes: ParsedNode[], context: ConversionContext):
       const url = params.url as string || '';
       const method = params.method as string || 'GET';
       return `
-      const ${toolName} = createTool({
-        name: "http_request",
-        description: "Make HTTP requests",
-        parameters: z.object({
-          url: z.string().describe("URL to request"),
-          body: z.string().optional().describe("Request body"),
-        }),
-        handler: async ({ url, body }) => {
-          const response = await fetch(url || "${url}", {
-            method: "${method}",
-            body: body ? JSON.stringify(body) : undefined,
-            headers: { "Content-Type": "application/json" },
-          });
-          return await response.text();
-        },
+const ${toolName} = createTool({
+  name: "http_request",
+  description: "Make HTTP requests",
+  parameters: z.object({
+    url: z.string().describe("URL to request"),
+    body: z.string().optional().describe("Request body"),
+  }),
+  handler: async ({ url, body }, { step }) => {
+    const run = async () => {
+      const response = await fetch(url || "${url}", {
+        method: "${method}",
+        body: body ? JSON.stringify(body) : undefined,
+        headers: { "Content-Type": "application/json" },
       });
+      return await response.text();
+    };
+    return step ? step.run("${toolStepId}", run) : run();
+  },
+});
       `.trim();
     }
 
     // Default generic tool
     return `
-      const ${toolName} = createTool({
-        name: "${toolNode.name}",
-        description: "${params.description || 'Tool from n8n'}",
-        parameters: z.object({
-          input: z.string(),
-        }),
-        handler: async ({ input }) => {
-          // TODO: Implement tool logic from ${toolNode.type}
-          return input;
-        },
-      });
+const ${toolName} = createTool({
+  name: "${toolNode.name}",
+  description: "${params.description || 'Tool from n8n'}",
+  parameters: z.object({
+    input: z.string(),
+  }),
+  handler: async ({ input }) => {
+    // TODO: Implement tool logic from ${toolNode.type}
+    return input;
+  },
+});
     `.trim();
-  }).join('\n\n      ');
+  });
 }
 
 /**
@@ -701,6 +975,7 @@ export const chatModelConverter: NodeConverter = {
 
 /**
  * Memory Node Converter
+ * Memory is declared by the agent using it (see useChatMemory); the node itself emits no steps
  */
 export const memoryNodeConverter: NodeConverter = {
   nodeTypes: [
@@ -709,13 +984,7 @@ export const memoryNodeConverter: NodeConverter = {
     '@n8n/n8n-nodes-langchain.memoryRedisChat',
   ],
 
-  convert(node: ParsedNode, context: ConversionContext): ConversionResult {
-    // Memory nodes configure agent memory
-    // In AgentKit, memory is handled through state
-    const params = node.parameters as Record<string, unknown>;
-
-    context.variableMap.set(node.name + '_windowSize', String(params.windowSize || 10));
-
+  convert(): ConversionResult {
     return {
       steps: [], // Configuration only
     };
@@ -724,41 +993,43 @@ export const memoryNodeConverter: NodeConverter = {
 
 /**
  * Output Parser Converter
+ * Parses and validates a text output with the parser's schema; agents re-prompt on their own output instead
  */
 export const outputParserConverter: NodeConverter = {
   nodeTypes: ['@n8n/n8n-nodes-langchain.outputParserStructured'],
 
   convert(node: ParsedNode, context: ConversionContext): ConversionResult {
-    const params = node.parameters as Record<string, unknown>;
+    // Parsers of agents are declared by the agent (see useOutputParser)
+    if (node.outgoingConnections.some(c => c.connectionType === 'ai_outputParser')) {
+      return { steps: [] };
+    }
+
     const stepId = toStepId(node.name);
     const varName = toVariableName(node.name);
     const dataAccess = generateDataAccess(node, context);
 
     context.variableMap.set(node.name, varName);
 
-    const schema = params.schemaType === 'manual'
-      ? params.schema
-      : params.jsonSchema;
-
-    const code = `
-      const data = ${dataAccess};
-      const text = typeof data === 'string' ? data : data.output || data.content || data.text || JSON.stringify(data);
-
-      // Parse structured output
-      // Schema: ${JSON.stringify(schema)}
-
+    const parser = declareOutputSchema(node, varName + 'Schema', context);
+    const validation = parser ? `
+      const parsed = n8nParseStructuredOutput(${parser.schema}, text);
+      if (!parsed.success) {
+        throw new NonRetriableError(\`[OutputParser] Output does not match the schema: \${n8nOutputErrors(parsed.error)}\`);
+      }
+      return parsed.data;` : `
       try {
-        // Try to parse as JSON first
-        const parsed = JSON.parse(text);
-        return parsed;
+        return JSON.parse(text);
       } catch {
-        // If not valid JSON, try to extract JSON from the text
-        const jsonMatch = text.match(/\\{[\\s\\S]*\\}/);
-        if (jsonMatch) {
-          return JSON.parse(jsonMatch[0]);
-        }
         return { raw: text };
-      }
+      }`;
+    if (parser) {
+      context.imports.add('import { NonRetriableError } from "inngest";');
+    }
+
+    const code = `
+      const data: any = ${dataAccess};
+      const text = typeof data === 'string' ? data : data.output || data.content || data.text || JSON.stringify(data);
+${validation}
     `.trim();
 
     return {
@@ -794,9 +1065,6 @@ export const agentToolConverter: NodeConverter = {
     const connectedTools = findConnectedAINodes(node, context, 'ai_tool');
     const connectedLLM = findConnectedAINodes(node, context, 'ai_languageModel');
 
-    const toolsCode = connectedTools.length > 0
-      ? generateToolsCode(connectedTools, context)
-      : '';
 
     const modelCode = connectedLLM.length > 0
       ? getModelFromLLMNode(connectedLLM[0])
@@ -806,13 +1074,11 @@ export const agentToolConverter: NodeConverter = {
     const systemMessage = (options?.systemMessage as string) || 'You are a helpful assistant.';
 
     const code = `
-      const data = ${dataAccess};
-      const input = typeof data === 'string' ? data : ${text ? convertN8nExpression(text, context) : 'data.text || data.prompt || JSON.stringify(data)'};
+      const data: any = ${dataAccess};
+      const input = typeof data === 'string' ? data : ${text ? convertN8nExpression(text, context) : 'data.chatInput || data.text || data.prompt || JSON.stringify(data)'};
 
       ${generateEnvVarCheck('N8N_OPENROUTER_API_KEY', 'OpenRouter')}
 
-      ${toolsCode}
-
       // Sub-agent implementation
       // Tool Description: ${toolDescription}
       const subAgentMessages = [
@@ -851,6 +1117,10 @@ export const agentToolConverter: NodeConverter = {
         code,
         comment: `Agent Tool (Sub-agent): ${node.name}`,
       }],
+      additionalImports: connectedTools.length > 0
+        ? ['import { createTool } from "@inngest/agent-kit";', 'import { z } from "zod";']
+        : undefined,
+      helperFunctions: generateToolsCode(connectedTools, context),
     };
   },
 };
@@ -1280,73 +1550,46 @@ export const langchainOpenAiConverter: NodeConverter = {
     context.variableMap.set(node.name, varName);
 
     const resource = params.resource as string || 'chat';
-    const operation = params.operation as string || 'message';
     const model = params.model as string || 'gpt-4o';
 
-    let code: string;
-
+    // Messages are offloaded to Inngest with step.ai.infer
     if (resource === 'chat' || resource === 'text') {
-      // Get message/prompt from parameters
-      const text = params.text as string || '';
-      const prompt = params.prompt as string || '';
-      const inputText = text || prompt;
-
-      const messageCode = inputText
-        ? convertN8nExpression(inputText, context)
-        : `typeof ${dataAccess} === 'string' ? ${dataAccess} : ${dataAccess}.text || ${dataAccess}.prompt || ${dataAccess}.message || JSON.stringify(${dataAccess})`;
-
-      // Get options
+      const modelId = params.modelId as string | { value?: string } | undefined;
       const options = params.options as Record<string, unknown> || {};
-      const temperature = options.temperature as number ?? 0.7;
-      const maxTokens = options.maxTokens as number || 4096;
-      const topP = options.topP as number | undefined;
-      const frequencyPenalty = options.frequencyPenalty as number | undefined;
-      const presencePenalty = options.presencePenalty as number | undefined;
-
-      // Build options for body
-      const bodyOptions: string[] = [];
-      if (topP !== undefined) bodyOptions.push(`top_p: ${topP}`);
-      if (frequencyPenalty !== undefined) bodyOptions.push(`frequency_penalty: ${frequencyPenalty}`);
-      if (presencePenalty !== undefined) bodyOptions.push(`presence_penalty: ${presencePenalty}`);
-      const bodyOptionsStr = bodyOptions.length > 0 ? bodyOptions.join(',\n          ') + ',' : '';
-
-      code = `
-      const data = ${dataAccess};
-      const messageContent = ${messageCode};
-
-      ${generateEnvVarCheck('N8N_OPENAI_API_KEY', 'OpenAI')}
-
-      const response = await fetch("https://api.openai.com/v1/chat/completions", {
-        method: "POST",
-        headers: {
-          "Authorization": \`Bearer \${process.env.N8N_OPENAI_API_KEY}\`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          model: "${model}",
-          messages: [
-            { role: "user", content: messageContent }
-          ],
-          temperature: ${temperature},
-          max_tokens: ${maxTokens},
-          ${bodyOptionsStr}
-        }),
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(\`[OpenAI:LangChain] Request failed: \${response.status} - \${errorText}\`);
-      }
-
-      const result = await response.json();
+      const scope = inferScope(node, dataAccess, context);
+
+      // Messages from v1, or the text or prompt of the message
+      const values = (params.messages as { values?: Array<{ role?: InferMessage['role']; content?: string }> } | undefined)?.values ?? [];
+      const inputText = params.text as string || params.prompt as string || '';
+      const messages: InferMessage[] = values.length > 0
+        ? values.map(m => ({ role: m.role ?? 'user', content: toMessageContent(convertN8nExpression(m.content ?? '', context, scope)) }))
+        : [{
+            role: 'user',
+            content: inputText
+              ? toMessageContent(convertN8nExpression(inputText, context, scope))
+              : generateDataExtraction(scope.item, 'text', ['prompt', 'message']),
+          }];
+
+      context.helpers.add(OPENAI_MESSAGE_OUTPUT_HELPER);
       return {
-        content: result.choices?.[0]?.message?.content,
-        usage: result.usage,
-        model: result.model,
-        finishReason: result.choices?.[0]?.finish_reason,
+        steps: [generateInferStep(
+          stepId,
+          openaiInferModel((typeof modelId === 'object' ? modelId.value : modelId) || model, {
+            temperature: options.temperature as number ?? 0.7,
+            maxTokens: options.maxTokens as number || 4096,
+          }),
+          messages,
+          'n8nOpenAIMessageOutput',
+          context,
+          `OpenAI (LangChain) ${resource}: ${node.name}`,
+          openaiParameters(options)
+        )],
       };
-      `.trim();
-    } else if (resource === 'image') {
+    }
+
+    let code: string;
+
+    if (resource === 'image') {
       const prompt = params.prompt as string || '';
       const promptCode = prompt
         ? convertN8nExpression(prompt, context)
@@ -1461,6 +1704,7 @@ export const aiConverters: NodeConverter[] = [
   langchainOpenAiConverter,
   perplexityConverter,
   aiAgentConverter,
+  llmChainConverter,
   chatModelConverter,
   memoryNodeConverter,
   outputParserConverter,
@@ -0,0 +1,192 @@
+/**
+ * AI Inference Helpers
+ * Translates n8n chat models to step.ai.models adapters, so single-shot model calls are offloaded
+ * to Inngest with step.ai.infer and show up in its run traces
+ */
+
+import { ParsedNode } from '../parser/workflow-parser.js';
+import { ConversionContext, generateItemsAccess } from './base-converter.js';
+import { ExpressionScope } from './expression-translator.js';
+import { InngestAIInferStep } from '../types/inngest.js';
+
+/**
+ * Model adapter of a chat model sub-node
+ */
+export interface InferModel {
+  provider: 'openai' | 'anthropic';
+  // step.ai.models adapter
+  adapter: string;
+  temperature?: number;
+  // Anthropic's max tokens are a default parameter of the adapter
+  maxTokens?: number;
+}
+
+/**
+ * Message of a prompt, with a string expression as its content
+ */
+export interface InferMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+type ResourceLocator = string | { value?: string };
+
+interface ChatModelParameters {
+  model?: ResourceLocator;
+  options?: {
+    temperature?: number;
+    maxTokens?: number;
+    // Anthropic
+    maxTokensToSample?: number;
+  };
+}
+
+// Anthropic requires max_tokens, which the adapter sets on every request
+const DEFAULT_MAX_TOKENS = 4096;
+
+const INFER_TEXT_HELPER = `function n8nInferText(result: AiAdapter.Output<OpenAiAiAdapter> | AnthropicAiAdapter.Output): string {
+  if ("choices" in result) {
+    if (result.error) {
+      throw new Error(\`[step.ai.infer] \${result.error.message}\`);
+    }
+    return result.choices[0]?.message?.content ?? "";
+  }
+  return result.content.map(block => (block.type === "text" ? block.text : "")).join("");
+}`;
+
+/**
+ * The LLM Chain's output: the model's reply as `text`
+ */
+export const LLM_CHAIN_OUTPUT_HELPER = `function n8nLlmChainOutput(result: AiAdapter.Output<OpenAiAiAdapter> | AnthropicAiAdapter.Output): { text: string } {
+  return { text: n8nInferText(result) };
+}`;
+
+/**
+ * The OpenAI nodes' output for a message, as the nodes' fetch calls returned it
+ */
+export const OPENAI_MESSAGE_OUTPUT_HELPER = `function n8nOpenAIMessageOutput(result: AiAdapter.Output<OpenAiAiAdapter>) {
+  return {
+    content: n8nInferText(result),
+    usage: result.usage,
+    model: result.model,
+    finishReason: result.choices[0]?.finish_reason,
+  };
+}`;
+
+/**
+ * Adapter of a chat model sub-node (OpenAI when none is connected)
+ * Ollama runs next to the workflow where Inngest can't reach it, so its calls stay in the function
+ * and no adapter is returned
+ */
+export function useInferModel(llmNode: ParsedNode | undefined, context: ConversionContext): InferModel | undefined {
+  if (!llmNode) {
+    return openaiInferModel('gpt-4o', {});
+  }
+
+  const params = llmNode.parameters as ChatModelParameters;
+  const model = typeof params.model === 'object' ? params.model.value : params.model;
+  const options = params.options ?? {};
+
+  switch (llmNode.type) {
+    case '@n8n/n8n-nodes-langchain.lmChatOllama':
+      return undefined;
+
+    case '@n8n/n8n-nodes-langchain.lmChatAnthropic':
+      return {
+        provider: 'anthropic',
+        adapter: `step.ai.models.anthropic({ model: "${model || 'claude-3-5-sonnet-latest'}", apiKey: process.env.N8N_ANTHROPIC_API_KEY, defaultParameters: { max_tokens: ${options.maxTokensToSample ?? DEFAULT_MAX_TOKENS} } })`,
+        temperature: options.temperature,
+      };
+
+    case '@n8n/n8n-nodes-langchain.lmChatOpenRouter':
+      // OpenRouter uses the OpenAI API
+      return {
+        provider: 'openai',
+        adapter: `step.ai.models.openai({ model: "${model || 'openai/gpt-4o'}", baseUrl: "https://openrouter.ai/api/v1/", apiKey: process.env.N8N_OPENROUTER_API_KEY })`,
+        temperature: options.temperature,
+        maxTokens: options.maxTokens,
+      };
+
+    case '@n8n/n8n-nodes-langchain.lmChatOpenAi':
+      return openaiInferModel(model || 'gpt-4o', options);
+
+    default:
+      context.warnings.push(`Chat model "${llmNode.name}" (${llmNode.type}) is not supported; the model call uses OpenAI gpt-4o.`);
+      return openaiInferModel('gpt-4o', {});
+  }
+}
+
+/**
+ * Adapter of an OpenAI model
+ */
+export function openaiInferModel(model: string, options: { temperature?: number; maxTokens?: number }): InferModel {
+  return {
+    provider: 'openai',
+    adapter: `step.ai.models.openai({ model: "${model}", apiKey: process.env.N8N_OPENAI_API_KEY })`,
+    temperature: options.temperature,
+    maxTokens: options.maxTokens,
+  };
+}
+
+/**
+ * Build the step.ai.infer step of a prompt in the adapter's request format
+ * The output function turns the adapter's response into the node's output
+ */
+export function generateInferStep(
+  id: string,
+  model: InferModel,
+  messages: InferMessage[],
+  output: string,
+  context: ConversionContext,
+  comment: string,
+  parameters?: Record<string, unknown>
+): InngestAIInferStep {
+  context.imports.add('import type { AiAdapter, AnthropicAiAdapter, OpenAiAiAdapter } from "inngest";');
+  context.helpers.add(INFER_TEXT_HELPER);
+
+  // Anthropic takes the system prompt as a parameter
+  const anthropic = model.provider === 'anthropic';
+  const system = messages.filter(m => m.role === 'system').map(m => m.content);
+  const prompt = anthropic ? messages.filter(m => m.role !== 'system') : messages;
+
+  return {
+    type: 'ai.infer',
+    id,
+    model: model.adapter,
+    body: {
+      messages: generateMessagesCode(prompt),
+      system: anthropic && system.length > 0 ? system.join(' + "\\n\\n" + ') : undefined,
+      temperature: model.temperature,
+      maxTokens: model.maxTokens,
+      parameters,
+    },
+    output,
+    comment,
+  };
+}
+
+/**
+ * Render prompt messages as an array literal, for step.ai.infer bodies and fetch calls
+ */
+export function generateMessagesCode(messages: InferMessage[]): string {
+  return `[${messages.map(m => `{ role: "${m.role}", content: ${m.content} }`).join(', ')}]`;
+}
+
+/**
+ * A translated n8n expression as a message's string content
+ */
+export function toMessageContent(expression: string): string {
+  return /^["`]/.test(expression) ? expression : `String(${expression})`;
+}
+
+/**
+ * Scope of a prompt's expressions in the function body, where step.ai.infer runs
+ * With item semantics the model is called once, with the first input item
+ */
+export function inferScope(node: ParsedNode, dataAccess: string, context: ConversionContext): ExpressionScope {
+  if (!context.options.itemSemantics) {
+    return { item: `(${dataAccess} as any)` };
+  }
+  context.warnings.push(`Node "${node.name}": step.ai.infer calls the model once per execution, with the first input item.`);
+  return { item: `(${generateItemsAccess(node, context)}[0]?.json ?? {})` };
+}
@@ -3,17 +3,32 @@
  * Foundation for all node type converters
  */
 
-import { ParsedNode } from '../parser/workflow-parser.js';
+import { ParsedNode, ConnectionInfo, hasErrorOutput } from '../parser/workflow-parser.js';
 import { InngestStep, CodeGenerationOptions } from '../types/inngest.js';
+import { N8nPinDataItem } from '../types/n8n.js';
+import { translateExpression, ExpressionScope } from './expression-translator.js';
+import { toItems } from './item-helpers.js';
 
 export interface ConversionContext {
   workflowName: string;
+  workflowId?: string;
   allNodes: Map<string, ParsedNode>;
   options: CodeGenerationOptions;
   variableMap: Map<string, string>;
   stepIndex: number;
   imports: Set<string>;
   helpers: Set<string>;
+  warnings: string[];
+  // Node being converted, for expressions that read its own parameters or inputs
+  currentNode?: ParsedNode;
+  // Index variables of the batch loops enclosing the current node, outermost first
+  loopIndexVars?: string[];
+  // How the current node's step code reads items, when itemSemantics is enabled
+  itemHandling?: ItemHandling;
+  // Pinned sample output of nodes, by node name
+  pinData?: Record<string, N8nPinDataItem[]>;
+  // Trigger nodes sharing a function with other triggers, told apart by its `triggeredBy`
+  combinedTriggers?: Set<string>;
 }
 
 export interface ConversionResult {
@@ -21,13 +36,25 @@ export interface ConversionResult {
   additionalImports?: string[];
   helperFunctions?: string[];
   variables?: Map<string, string>;
+  // Sub-nodes declared by this node (e.g. AgentKit tools), which emit no steps of their own
+  subNodes?: string[];
 }
 
 export interface NodeConverter {
   nodeTypes: string[];
+  // Item handling when itemSemantics is enabled (default 'each')
+  items?: ItemHandling;
   convert(node: ParsedNode, context: ConversionContext): ConversionResult;
 }
 
+/**
+ * How a node's step code consumes n8n items
+ * - each: code runs once per item, reading it through generateDataAccess
+ * - all: code runs once, reading the JSON of all items through generateDataAccess
+ * - native: the converter reads the items array itself (generateItemsAccess)
+ */
+export type ItemHandling = 'each' | 'all' | 'native';
+
 /**
  * Registry for node converters
  */
@@ -95,217 +122,28 @@ export function toStepId(nodeName: string): string {
  * Convert n8n expression to JavaScript
  * n8n uses {{ }} for expressions, we need to convert them
  */
-export function convertN8nExpression(expression: string, context: ConversionContext): string {
+export function convertN8nExpression(
+  expression: string,
+  context: ConversionContext,
+  scope?: ExpressionScope
+): string {
   if (typeof expression !== 'string') {
     return JSON.stringify(expression);
   }
 
-  // Check if it's an n8n expression
-  if (!expression.includes('{{') && !expression.startsWith('=')) {
-    // Static value
-    return JSON.stringify(expression);
-  }
-
-  // Remove leading = if present
-  let expr = expression.startsWith('=') ? expression.slice(1) : expression;
-
-  // Convert n8n expression syntax to JavaScript
-  // {{ $json.field }} -> event.data.field or previousStepResult.field
-  expr = expr.replace(/\{\{\s*(.+?)\s*\}\}/g, (match, inner) => {
-    return convertN8nExpressionInner(inner.trim(), context);
-  });
-
-  // If the entire expression was wrapped, return without quotes
-  if (expr.startsWith('`') || expr.startsWith('${') || !expression.includes('{{')) {
-    return expr;
-  }
-
-  // Use template literal for mixed content
-  return `\`${expr}\``;
-}
-
-/**
- * Convert inner n8n expression to JavaScript
- */
-function convertN8nExpressionInner(expr: string, context: ConversionContext): string {
-  // Handle common n8n expression patterns
-
-  // $json.* -> Access current item data
-  if (expr.startsWith('$json')) {
-    const path = expr.slice(5); // Remove '$json'
-    return `\${data${path}}`;
-  }
-
-  // $('Node Name').item.json.* -> Access output from specific node
-  const nodeRefMatch = expr.match(/\$\(['"](.+?)['"]\)\.(?:item\.)?json(\.[\w.[\]]+)?/);
-  if (nodeRefMatch) {
-    const [, nodeName, path = ''] = nodeRefMatch;
-    const varName = context.variableMap.get(nodeName) || toVariableName(nodeName);
-    return `\${${varName}${path}}`;
-  }
-
-  // $node["Node Name"].json.* -> Legacy syntax
-  const legacyNodeRefMatch = expr.match(/\$node\[['"](.+?)['"]\]\.json(\.[\w.[\]]+)?/);
-  if (legacyNodeRefMatch) {
-    const [, nodeName, path = ''] = legacyNodeRefMatch;
-    const varName = context.variableMap.get(nodeName) || toVariableName(nodeName);
-    return `\${${varName}${path}}`;
-  }
-
-  // $input.* -> Access input data
-  if (expr.startsWith('$input')) {
-    const path = expr.slice(6); // Remove '$input'
-    if (path.startsWith('.item.json')) {
-      return `\${data${path.slice(10)}}`;
-    }
-    if (path.startsWith('.all()')) {
-      return `\${items}`;
-    }
-    if (path.startsWith('.first()')) {
-      return `\${items[0]}`;
-    }
-    return `\${data${path}}`;
-  }
-
-  // $env.* -> Environment variables
-  if (expr.startsWith('$env.')) {
-    const envVar = expr.slice(5);
-    return `\${process.env.${envVar}}`;
-  }
-
-  // $now -> Current timestamp
-  if (expr === '$now' || expr.startsWith('$now.')) {
-    if (expr === '$now') {
-      return '${new Date().toISOString()}';
-    }
-    // Handle $now.toISO(), $now.toMillis(), etc.
-    const method = expr.slice(5);
-    if (method === '.toISO()' || method === '.toISOString()') {
-      return '${new Date().toISOString()}';
-    }
-    if (method === '.toMillis()') {
-      return '${Date.now()}';
-    }
-    return '${new Date()}';
-  }
-
-  // $today -> Today's date
-  if (expr === '$today') {
-    return '${new Date().toISOString().split("T")[0]}';
-  }
-
-  // $execution.* -> Execution context
-  if (expr.startsWith('$execution.')) {
-    const path = expr.slice(11);
-    if (path === 'id') {
-      return '${event.data.executionId || "unknown"}';
-    }
-    if (path === 'mode') {
-      return '"production"';
-    }
-    return `\${event.data.${path}}`;
-  }
-
-  // $workflow.* -> Workflow context
-  if (expr.startsWith('$workflow.')) {
-    const path = expr.slice(10);
-    if (path === 'id') {
-      return `"${context.workflowName}"`;
-    }
-    if (path === 'name') {
-      return `"${context.workflowName}"`;
-    }
-    return `\${event.data.workflow.${path}}`;
-  }
-
-  // $runIndex -> Current run index in loop
-  if (expr === '$runIndex') {
-    return '${index}';
-  }
-
-  // $itemIndex -> Current item index
-  if (expr === '$itemIndex') {
-    return '${itemIndex}';
-  }
-
-  // Function calls like $if(), $min(), $max(), etc.
-  if (expr.startsWith('$if(')) {
-    const argsMatch = expr.match(/\$if\((.+?),\s*(.+?),\s*(.+?)\)/);
-    if (argsMatch) {
-      const [, condition, trueVal, falseVal] = argsMatch;
-      return `\${(${convertN8nExpressionInner(condition, context)}) ? ${convertN8nExpressionInner(trueVal, context)} : ${convertN8nExpressionInner(falseVal, context)}}`;
-    }
-  }
-
-  // Math operations
-  if (expr.includes('+') || expr.includes('-') || expr.includes('*') || expr.includes('/')) {
-    return `\${${expr.replace(/\$json/g, 'data')}}`;
-  }
-
-  // Default: return as-is in template literal
-  return `\${${expr}}`;
+  return translateExpression(expression, context, scope);
 }
 
 /**
  * Convert n8n expression to plain JavaScript (for conditions, not template literals)
- * Returns raw JavaScript like `data.status` instead of template literal `${data.status}`
+ * Returns raw JavaScript like `data.status` for a single {{ }} and a literal for static values
  */
-export function convertN8nExpressionToJS(expression: string, context: ConversionContext): string {
-  if (typeof expression !== 'string') {
-    return JSON.stringify(expression);
-  }
-
-  // Check if it's an n8n expression
-  if (!expression.includes('{{') && !expression.startsWith('=')) {
-    // Static value
-    return JSON.stringify(expression);
-  }
-
-  // Remove leading = if present
-  let expr = expression.startsWith('=') ? expression.slice(1) : expression;
-
-  // Extract the inner expression from {{ }}
-  const match = expr.match(/\{\{\s*(.+?)\s*\}\}/);
-  if (!match) {
-    return JSON.stringify(expression);
-  }
-
-  const inner = match[1].trim();
-
-  // Convert common n8n expression patterns to plain JS
-  // $json.* -> Access current item data
-  if (inner.startsWith('$json')) {
-    const path = inner.slice(5); // Remove '$json'
-    return `data${path}`;
-  }
-
-  // $('Node Name').item.json.* -> Access output from specific node
-  const nodeRefMatch = inner.match(/\$\(['"](.+?)['"]\)\.(?:item\.)?json(\.[\w.[\]]+)?/);
-  if (nodeRefMatch) {
-    const [, nodeName, path = ''] = nodeRefMatch;
-    const varName = context.variableMap.get(nodeName) || toVariableName(nodeName);
-    return `${varName}${path}`;
-  }
-
-  // $node["Node Name"].json.* -> Legacy syntax
-  const legacyNodeRefMatch = inner.match(/\$node\[['"](.+?)['"]\]\.json(\.[\w.[\]]+)?/);
-  if (legacyNodeRefMatch) {
-    const [, nodeName, path = ''] = legacyNodeRefMatch;
-    const varName = context.variableMap.get(nodeName) || toVariableName(nodeName);
-    return `${varName}${path}`;
-  }
-
-  // $input.* -> Access input data
-  if (inner.startsWith('$input')) {
-    const path = inner.slice(6);
-    if (path.startsWith('.item.json')) {
-      return `data${path.slice(10)}`;
-    }
-    return `data${path}`;
-  }
-
-  // Default: return as-is
-  return inner.replace(/\$json/g, 'data');
+export function convertN8nExpressionToJS(
+  expression: string,
+  context: ConversionContext,
+  scope?: ExpressionScope
+): string {
+  return convertN8nExpression(expression, context, scope);
 }
 
 /**
@@ -318,11 +156,12 @@ export function convertCondition(
     operator: { type: string; operation: string };
   }>,
   combinator: 'and' | 'or',
-  context: ConversionContext
+  context: ConversionContext,
+  scope?: ExpressionScope
 ): string {
   const converted = conditions.map(condition => {
-    const left = convertN8nExpressionToJS(condition.leftValue, context);
-    const right = convertN8nExpressionToJS(String(condition.rightValue), context);
+    const left = convertN8nExpressionToJS(condition.leftValue, context, scope);
+    const right = convertN8nExpressionToJS(String(condition.rightValue), context, scope);
     const op = mapOperator(condition.operator.operation, condition.operator.type);
 
     // Handle special operators
@@ -383,6 +222,44 @@ function mapOperator(operation: string, type: string): string {
   return operatorMap[operation] || '===';
 }
 
+/**
+ * Node types whose step result wraps the passed-through data in a branch envelope
+ */
+const BRANCHING_NODE_TYPES = ['n8n-nodes-base.if', 'n8n-nodes-base.switch'];
+
+/**
+ * Generate code for accessing the output of a single incoming connection
+ */
+export function generateSourceAccess(
+  connection: ConnectionInfo,
+  context: ConversionContext
+): string | undefined {
+  const varName = context.variableMap.get(connection.nodeName);
+  if (!varName) return undefined;
+
+  const sourceNode = context.allNodes.get(connection.nodeName);
+
+  // IF/Switch steps return { branch, data } - downstream nodes receive the data
+  // With item semantics they return { outputs }, the items routed to each output
+  if (sourceNode && BRANCHING_NODE_TYPES.includes(sourceNode.type)) {
+    return context.options.itemSemantics
+      ? `${varName}.outputs[${connection.outputIndex}]`
+      : `${varName}.data`;
+  }
+
+  // Nodes with an error output return { ok: true, data } on success and { ok: false, error } on failure
+  if (sourceNode && hasErrorOutput(sourceNode)) {
+    return connection.outputIndex === 1 ? `${varName}.error` : `${varName}.data`;
+  }
+
+  // Loop Over Items: output 1 is the current batch, output 0 everything once done
+  if (sourceNode?.type === 'n8n-nodes-base.splitInBatches') {
+    return connection.outputIndex === 1 ? `${varName}Batch` : `${varName}Done`;
+  }
+
+  return varName;
+}
+
 /**
  * Generate code for accessing data from previous steps
  */
@@ -390,26 +267,56 @@ export function generateDataAccess(
   node: ParsedNode,
   context: ConversionContext
 ): string {
-  if (node.incomingConnections.length === 0) {
+  // Item semantics: the current item's JSON, or the JSON of every item
+  if (context.options.itemSemantics && context.itemHandling === 'each') {
+    return 'item.json';
+  }
+  if (context.options.itemSemantics && context.itemHandling === 'all') {
+    return `${generateItemsAccess(node, context)}.map((item) => item.json)`;
+  }
+
+  const sources = generateInputSources(node, context);
+
+  if (sources.length === 0) {
     // Use inputData which is defined in function body (works for both event and cron)
     return 'inputData';
   }
 
-  if (node.incomingConnections.length === 1) {
-    const sourceName = node.incomingConnections[0].nodeName;
-    const varName = context.variableMap.get(sourceName);
-    return varName || 'inputData';
+  if (sources.length === 1) {
+    return sources[0];
   }
 
   // Multiple inputs - need to merge
-  const sources = node.incomingConnections.map(conn => {
-    const varName = context.variableMap.get(conn.nodeName);
-    return varName || 'inputData';
-  });
-
   return `{ ${sources.map((s, i) => `input${i}: ${s}`).join(', ')} }`;
 }
 
+/**
+ * Generate code for accessing the input items of a node (item semantics)
+ */
+export function generateItemsAccess(
+  node: ParsedNode,
+  context: ConversionContext
+): string {
+  const sources = generateInputSources(node, context);
+
+  if (sources.length <= 1) {
+    return toItems(sources[0] ?? 'inputData', context);
+  }
+  return `[${sources.map(s => `...${toItems(s, context)}`).join(', ')}]`;
+}
+
+/**
+ * The distinct sources of a node's main inputs
+ * Triggers all read the function's inputData - only one of them fires per run
+ */
+function generateInputSources(node: ParsedNode, context: ConversionContext): string[] {
+  // Sub-nodes (models, tools, memory) connect through ai_* inputs and carry no data
+  const sources = node.incomingConnections
+    .filter(conn => conn.connectionType === 'main')
+    .map(conn => generateSourceAccess(conn, context) || 'inputData');
+  return [...new Set(sources)];
+}
+
 /**
  * Indent code block
  */
@@ -11,8 +11,12 @@ import {
   toStepId,
   toVariableName,
   convertN8nExpression,
+  convertCondition,
   generateDataAccess,
+  generateItemsAccess,
 } from './base-converter.js';
+import { convertDateGlobals } from './date-helpers.js';
+import { toItems, wrapEachItem, wrapAllItems } from './item-helpers.js';
 import { CodeNodeParameters } from '../types/n8n.js';
 
 /**
@@ -21,6 +25,7 @@ import { CodeNodeParameters } from '../types/n8n.js';
  */
 export const codeNodeConverter: NodeConverter = {
   nodeTypes: ['n8n-nodes-base.code'],
+  items: 'native',
 
   convert(node: ParsedNode, context: ConversionContext): ConversionResult {
     const params = node.parameters as unknown as CodeNodeParameters;
@@ -39,7 +44,23 @@ export const codeNodeConverter: NodeConverter = {
     const mode = params.mode || 'runOnceForAllItems';
 
     let code: string;
-    if (mode === 'runOnceForEachItem') {
+    if (context.options.itemSemantics) {
+      // Item semantics: the code reads and returns n8n items
+      const inputApi = mode === 'runOnceForEachItem'
+        ? `const $json = item.json;
+      const $input = { item, all: () => items, first: () => items[0], last: () => items[items.length - 1] };`
+        : `const $input = { all: () => items, first: () => items[0], last: () => items[items.length - 1] };`;
+      const body = `
+      ${inputApi}
+
+      // Original n8n code (converted):
+      ${jsCode}
+      `.trim();
+
+      code = mode === 'runOnceForEachItem'
+        ? wrapEachItem(body, generateItemsAccess(node, context), context)
+        : `const items = ${generateItemsAccess(node, context)};\n${wrapAllItems(body, context)}`;
+    } else if (mode === 'runOnceForEachItem') {
       code = `
       const inputData = ${dataAccess};
       const items = Array.isArray(inputData) ? inputData : [inputData];
@@ -87,6 +108,7 @@ export const codeNodeConverter: NodeConverter = {
  */
 export const functionNodeConverter: NodeConverter = {
   nodeTypes: ['n8n-nodes-base.function', 'n8n-nodes-base.functionItem'],
+  items: 'native',
 
   convert(node: ParsedNode, context: ConversionContext): ConversionResult {
     const params = node.parameters as { functionCode?: string };
@@ -102,7 +124,30 @@ export const functionNodeConverter: NodeConverter = {
     const isItemMode = node.type === 'n8n-nodes-base.functionItem';
 
     let code: string;
-    if (isItemMode) {
+    if (context.options.itemSemantics && isItemMode) {
+      // Item semantics: legacy item functions read and return the item's JSON
+      code = `
+      const items = ${generateItemsAccess(node, context)};
+      const runFunction = async (item: any, $index: number) => {
+        const $json = item;
+        const $item = item;
+
+        // Original n8n function code:
+        ${functionCode}
+      };
+
+      const results = [];
+      for (let index = 0; index < items.length; index++) {
+        results.push(...${toItems('await runFunction(items[index].json, index)', context)});
+      }
+      return results;
+      `.trim();
+    } else if (context.options.itemSemantics) {
+      code = `const items = ${generateItemsAccess(node, context)};\n${wrapAllItems(`
+      // Original n8n function code:
+      ${functionCode}
+      `.trim(), context)}`;
+    } else if (isItemMode) {
       code = `
       const inputData = ${dataAccess};
       const items = Array.isArray(inputData) ? inputData : [inputData];
@@ -206,8 +251,8 @@ export const setNodeConverter: NodeConverter = {
     let code: string;
     if (keepExisting) {
       code = `
-      const inputData = ${dataAccess};
-      const existingData = typeof inputData === 'object' && inputData !== null ? inputData : {};
+      const data = ${dataAccess};
+      const existingData = typeof data === 'object' && data !== null ? data : {};
 
       return {
         ...existingData,
@@ -216,6 +261,8 @@ export const setNodeConverter: NodeConverter = {
       `.trim();
     } else {
       code = `
+      const data = ${dataAccess};
+
       return {
         ${assignments.join(',\n        ')}
       };
@@ -238,6 +285,7 @@ export const setNodeConverter: NodeConverter = {
  */
 export const filterNodeConverter: NodeConverter = {
   nodeTypes: ['n8n-nodes-base.filter'],
+  items: 'native',
 
   convert(node: ParsedNode, context: ConversionContext): ConversionResult {
     const params = node.parameters as {
@@ -259,20 +307,27 @@ export const filterNodeConverter: NodeConverter = {
     // Build filter condition
     let filterCondition = 'true';
     if (params.conditions?.conditions) {
-      const conditions = params.conditions.conditions.map(c => {
-        const left = convertN8nExpression(c.leftValue, context).replace(/\$\{data/g, '${item');
-        const right = convertN8nExpression(String(c.rightValue), context);
-        const op = mapFilterOperator(c.operator.operation);
-        return `(item${left.includes('item') ? '' : '.'}${left} ${op} ${right})`;
-      });
-      filterCondition = conditions.join(params.conditions.combinator === 'and' ? ' && ' : ' || ');
+      filterCondition = convertCondition(
+        params.conditions.conditions,
+        params.conditions.combinator,
+        context,
+        context.options.itemSemantics ? undefined : { item: 'item', itemIndex: 'index' }
+      );
     }
 
-    const code = `
-      const inputData = ${dataAccess};
-      const items = Array.isArray(inputData) ? inputData : [inputData];
+    // Item semantics: keep the items whose JSON matches
+    const code = context.options.itemSemantics ? `
+      const items = ${generateItemsAccess(node, context)};
 
-      return items.filter((item) => {
+      return items.filter((item, itemIndex) => {
+        const data = item.json;
+        return ${filterCondition};
+      });
+    `.trim() : `
+      const data = ${dataAccess};
+      const items = Array.isArray(data) ? data : [data];
+
+      return items.filter((item, index) => {
         return ${filterCondition};
       });
     `.trim();
@@ -293,6 +348,7 @@ export const filterNodeConverter: NodeConverter = {
  */
 export const sortNodeConverter: NodeConverter = {
   nodeTypes: ['n8n-nodes-base.sort'],
+  items: 'all',
 
   convert(node: ParsedNode, context: ConversionContext): ConversionResult {
     const params = node.parameters as {
@@ -349,6 +405,7 @@ export const sortNodeConverter: NodeConverter = {
  */
 export const limitNodeConverter: NodeConverter = {
   nodeTypes: ['n8n-nodes-base.limit'],
+  items: 'all',
 
   convert(node: ParsedNode, context: ConversionContext): ConversionResult {
     const params = node.parameters as {
@@ -392,6 +449,7 @@ export const limitNodeConverter: NodeConverter = {
  */
 export const removeDuplicatesConverter: NodeConverter = {
   nodeTypes: ['n8n-nodes-base.removeDuplicates'],
+  items: 'all',
 
   convert(node: ParsedNode, context: ConversionContext): ConversionResult {
     const params = node.parameters as {
@@ -451,6 +509,7 @@ export const removeDuplicatesConverter: NodeConverter = {
  */
 export const aggregateConverter: NodeConverter = {
   nodeTypes: ['n8n-nodes-base.aggregate'],
+  items: 'all',
 
   convert(node: ParsedNode, context: ConversionContext): ConversionResult {
     const params = node.parameters as {
@@ -504,6 +563,7 @@ export const aggregateConverter: NodeConverter = {
  */
 export const itemListsConverter: NodeConverter = {
   nodeTypes: ['n8n-nodes-base.itemLists'],
+  items: 'all',
 
   convert(node: ParsedNode, context: ConversionContext): ConversionResult {
     const params = node.parameters as {
@@ -641,11 +701,8 @@ function convertN8nCodeToInngest(code: string, context: ConversionContext): stri
   // Replace $env variables
   converted = converted.replace(/\$env\.(\w+)/g, 'process.env.$1');
 
-  // Replace $now
-  converted = converted.replace(/\$now/g, 'new Date()');
-
-  // Replace $today
-  converted = converted.replace(/\$today/g, 'new Date().toISOString().split("T")[0]');
+  // Replace $now/$today with Luxon, as in n8n
+  converted = convertDateGlobals(converted, context);
 
   // Replace $execution
   converted = converted.replace(/\$execution\.id/g, '"execution-id"');
@@ -660,32 +717,14 @@ function convertN8nCodeToInngest(code: string, context: ConversionContext): stri
     /\$\(['"]([^'"]+)['"]\)\.(?:item\.)?json/g,
     (match, nodeName) => {
       const varName = context.variableMap.get(nodeName) || toVariableName(nodeName);
-      return varName;
+      // Item semantics: node outputs are items arrays
+      return context.options.itemSemantics ? `${toItems(varName, context)}[0].json` : varName;
     }
   );
 
   return converted;
 }
 
-/**
- * Map filter operator
- */
-function mapFilterOperator(operation: string): string {
-  const opMap: Record<string, string> = {
-    equals: '===',
-    notEquals: '!==',
-    gt: '>',
-    gte: '>=',
-    lt: '<',
-    lte: '<=',
-    contains: '.includes',
-    notContains: '.indexOf',
-    startsWith: '.startsWith',
-    endsWith: '.endsWith',
-  };
-  return opMap[operation] || '===';
-}
-
 // Export all code converters
 export const codeConverters: NodeConverter[] = [
   codeNodeConverter,
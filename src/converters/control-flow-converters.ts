@@ -12,8 +12,11 @@ import {
   toVariableName,
   convertCondition,
   generateDataAccess,
+  generateItemsAccess,
+  generateSourceAccess,
   indent,
 } from './base-converter.js';
+import { toItems } from './item-helpers.js';
 import { InngestStep } from '../types/inngest.js';
 import {
   IfNodeParameters,
@@ -29,6 +32,7 @@ import {
  */
 export const ifNodeConverter: NodeConverter = {
   nodeTypes: ['n8n-nodes-base.if'],
+  items: 'native',
 
   convert(node: ParsedNode, context: ConversionContext): ConversionResult {
     const params = node.parameters as unknown as IfNodeParameters;
@@ -48,6 +52,20 @@ export const ifNodeConverter: NodeConverter = {
       );
     }
 
+    // Item semantics: route each item to the true (0) or false (1) output
+    if (context.options.itemSemantics) {
+      return {
+        steps: [{
+          type: 'run',
+          id: stepId,
+          code: generateItemRoutingStep(generateItemsAccess(node, context), 2, `
+        if (${conditionExpr}) return 0;
+        return 1;`),
+          comment: `IF condition: ${node.name}`,
+        }],
+      };
+    }
+
     const code = `
       const data = ${dataAccess};
       const condition = ${conditionExpr};
@@ -78,6 +96,7 @@ export const ifNodeConverter: NodeConverter = {
  */
 export const switchNodeConverter: NodeConverter = {
   nodeTypes: ['n8n-nodes-base.switch'],
+  items: 'native',
 
   convert(node: ParsedNode, context: ConversionContext): ConversionResult {
     const params = node.parameters as unknown as SwitchNodeParameters;
@@ -89,7 +108,27 @@ export const switchNodeConverter: NodeConverter = {
 
     let switchCode: string;
 
-    if (params.mode === 'expression') {
+    if (context.options.itemSemantics) {
+      // Item semantics: route each item to the output of its first matching rule
+      const rules = params.rules || [];
+      const routing = params.mode === 'expression'
+        ? `
+        return ${params.expression || 'null'};`
+        : rules.map((rule, index) => {
+          const condition = rule.conditions && rule.conditions.length > 0
+            ? convertCondition(rule.conditions, 'and', context)
+            : 'false';
+          return `
+        if (${condition}) return ${rule.output ?? index};`;
+        }).join('') + `
+        return ${params.fallbackOutput === 'extra' ? rules.length : -1};`;
+
+      switchCode = generateItemRoutingStep(
+        generateItemsAccess(node, context),
+        params.mode === 'expression' ? 0 : rules.length + (params.fallbackOutput === 'extra' ? 1 : 0),
+        routing
+      );
+    } else if (params.mode === 'expression') {
       // Expression mode - evaluate expression to determine output
       switchCode = `
       const data = ${dataAccess};
@@ -146,6 +185,7 @@ export const switchNodeConverter: NodeConverter = {
  */
 export const mergeNodeConverter: NodeConverter = {
   nodeTypes: ['n8n-nodes-base.merge'],
+  items: 'all',
 
   convert(node: ParsedNode, context: ConversionContext): ConversionResult {
     const params = node.parameters as unknown as MergeNodeParameters;
@@ -156,10 +196,19 @@ export const mergeNodeConverter: NodeConverter = {
 
     // Get inputs from all incoming connections
     const inputs = node.incomingConnections.map((conn, index) => {
-      const sourceVar = context.variableMap.get(conn.nodeName);
+      const sourceVar = generateSourceAccess(conn, context);
       return { varName: sourceVar || `input${index}`, inputIndex: conn.inputIndex };
     }).sort((a, b) => a.inputIndex - b.inputIndex);
 
+    // Item semantics: merge the JSON of each input's items
+    const inputDeclarations = context.options.itemSemantics
+      ? inputs.map((input, index) => {
+        const declaration = `const mergeInput${index} = ${toItems(input.varName, context)}.map((item) => item.json);`;
+        input.varName = `mergeInput${index}`;
+        return declaration;
+      })
+      : [];
+
     let mergeCode: string;
 
     switch (params.mode) {
@@ -167,7 +216,7 @@ export const mergeNodeConverter: NodeConverter = {
         // Append all items from both inputs
         mergeCode = `
       const items = [
-        ${inputs.map(i => `...(Array.isArray(${i.varName}) ? ${i.varName} : [${i.varName}])`).join(',\n        ')}
+        ${inputs.map(i => `...(${i.varName} === undefined ? [] : Array.isArray(${i.varName}) ? ${i.varName} : [${i.varName}])`).join(',\n        ')}
       ];
       return items;
         `.trim();
@@ -228,10 +277,14 @@ export const mergeNodeConverter: NodeConverter = {
 
       default:
         mergeCode = `
-      return { ${inputs.map(i => `${i.varName}`).join(', ')} };
+      return { ${inputs.map((i, index) => `input${index}: ${i.varName}`).join(', ')} };
         `.trim();
     }
 
+    if (inputDeclarations.length > 0) {
+      mergeCode = `${inputDeclarations.join('\n      ')}\n\n      ${mergeCode}`;
+    }
+
     return {
       steps: [{
         type: 'run',
@@ -245,25 +298,34 @@ export const mergeNodeConverter: NodeConverter = {
 
 /**
  * Split In Batches (Loop) Node Converter
- * Converts n8n SplitInBatches to iteration pattern
+ * Converts n8n SplitInBatches to a batches array; the generator loops over it
  */
 export const splitInBatchesConverter: NodeConverter = {
   nodeTypes: ['n8n-nodes-base.splitInBatches'],
+  items: 'native',
 
   convert(node: ParsedNode, context: ConversionContext): ConversionResult {
     const params = node.parameters as unknown as SplitInBatchesParameters;
     const stepId = toStepId(node.name);
     const varName = toVariableName(node.name);
-    const dataAccess = generateDataAccess(node, context);
     const batchSize = params.batchSize || 10;
 
+    // The loop body feeds back into this node - only read the data entering the loop
+    const loopNode: ParsedNode = {
+      ...node,
+      incomingConnections: node.incomingConnections.filter(
+        conn => !isDownstreamOf(conn.nodeName, node.name, context)
+      ),
+    };
+    const dataAccess = context.options.itemSemantics
+      ? generateItemsAccess(loopNode, context)
+      : generateDataAccess(loopNode, context);
+
     context.variableMap.set(node.name, varName);
 
-    // Generate code that will handle batch processing
-    // In Inngest, we typically use step.run for each batch or fan-out pattern
     const code = `
-      const inputData = ${dataAccess};
-      const items = Array.isArray(inputData) ? inputData : [inputData];
+      const loopInput = ${dataAccess};
+      const items = Array.isArray(loopInput) ? loopInput : [loopInput];
       const batchSize = ${batchSize};
 
       // Split into batches
@@ -280,28 +342,13 @@ export const splitInBatchesConverter: NodeConverter = {
       };
     `.trim();
 
-    // Add helper comment about loop pattern
-    const comment = `
-Loop Over Items: ${node.name}
-NOTE: n8n's SplitInBatches creates a loop. In Inngest, you have two options:
-
-1. Fan-out pattern (recommended for independent batch processing):
-   Use step.sendEvent() to send events for each batch, handled by separate functions.
-
-2. Sequential processing:
-   Process batches within a single function using step.run() for each batch.
-
-The code below sets up the batch structure. Implement batch processing based on your needs.
-    `.trim();
-
     return {
       steps: [{
         type: 'run',
         id: stepId,
         code,
-        comment,
+        comment: `Loop Over Items (batch size: ${batchSize}): ${node.name}`,
       }],
-      helperFunctions: [generateBatchProcessingHelper()],
     };
   },
 };
@@ -372,10 +419,13 @@ export const waitNodeConverter: NodeConverter = {
  */
 export const noOpConverter: NodeConverter = {
   nodeTypes: ['n8n-nodes-base.noOp'],
+  items: 'native',
 
   convert(node: ParsedNode, context: ConversionContext): ConversionResult {
     const varName = toVariableName(node.name);
-    const dataAccess = generateDataAccess(node, context);
+    const dataAccess = context.options.itemSemantics
+      ? generateItemsAccess(node, context)
+      : generateDataAccess(node, context);
 
     context.variableMap.set(node.name, varName);
 
@@ -395,37 +445,24 @@ export const noOpConverter: NodeConverter = {
 };
 
 /**
- * Respond to Webhook Node Converter
+ * Generate step code that routes each input item to an output (item semantics)
+ * `routeCode` is a function body returning the output index for `data`, or -1 to drop the item
  */
-export const respondToWebhookConverter: NodeConverter = {
-  nodeTypes: ['n8n-nodes-base.respondToWebhook'],
-
-  convert(node: ParsedNode, context: ConversionContext): ConversionResult {
-    const stepId = toStepId(node.name);
-    const dataAccess = generateDataAccess(node, context);
-    const params = node.parameters as Record<string, unknown>;
+function generateItemRoutingStep(itemsAccess: string, outputCount: number, routeCode: string): string {
+  return `
+      const items = ${itemsAccess};
+      const outputs: Array<Array<{ json: any; binary?: any }>> = Array.from({ length: ${outputCount} }, () => []);
+      const route = (data: any, itemIndex: number): number => {${routeCode}
+      };
 
-    // In Inngest, webhook responses are typically handled differently
-    // This generates a step that prepares the response data
-    const responseCode = params.respondWith === 'json'
-      ? `return { status: ${params.responseCode || 200}, body: ${dataAccess} };`
-      : `return { status: ${params.responseCode || 200}, body: ${JSON.stringify(params.responseBody || '{}')} };`;
+      items.forEach((item, itemIndex) => {
+        const output = route(item.json, itemIndex);
+        if (output >= 0) (outputs[output] ??= []).push(item);
+      });
 
-    return {
-      steps: [{
-        type: 'run',
-        id: stepId,
-        code: `
-      // Prepare webhook response
-      // NOTE: In Inngest, you'll need to handle webhook responses at the API route level
-      // This step prepares the response data
-      ${responseCode}
-        `.trim(),
-        comment: `Respond to Webhook: ${node.name}`,
-      }],
-    };
-  },
-};
+      return { outputs };
+  `.trim();
+}
 
 /**
  * Convert duration to Inngest format
@@ -442,33 +479,24 @@ function convertDuration(amount: number, unit: string): string {
 }
 
 /**
- * Generate batch processing helper function
- */
-function generateBatchProcessingHelper(): string {
-  return `
-/**
- * Helper function for processing items in batches
- * Use with step.run() for each batch
+ * Check whether a node can be reached by following outgoing connections from another node
  */
-async function processBatch<T, R>(
-  items: T[],
-  processor: (item: T, index: number) => Promise<R>,
-  options: { concurrency?: number } = {}
-): Promise<R[]> {
-  const { concurrency = 5 } = options;
-  const results: R[] = [];
-
-  for (let i = 0; i < items.length; i += concurrency) {
-    const batch = items.slice(i, i + concurrency);
-    const batchResults = await Promise.all(
-      batch.map((item, idx) => processor(item, i + idx))
-    );
-    results.push(...batchResults);
+function isDownstreamOf(nodeName: string, startName: string, context: ConversionContext): boolean {
+  const visited = new Set<string>();
+  const queue = [startName];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    if (visited.has(current)) continue;
+    visited.add(current);
+
+    for (const conn of context.allNodes.get(current)?.outgoingConnections || []) {
+      if (conn.nodeName === nodeName) return true;
+      queue.push(conn.nodeName);
+    }
   }
 
-  return results;
-}
-`.trim();
+  return false;
 }
 
 /**
@@ -479,8 +507,28 @@ export function generateConditionalBranchCode(
   trueBranchCode: string,
   falseBranchCode: string
 ): string {
+  const condition = `${conditionVar}.branch === 'true' || ${conditionVar}.condition === true`;
+
+  // Only the false output is connected
+  if (!trueBranchCode.trim()) {
+    return `
+    if (!(${condition})) {
+${indent(falseBranchCode, 6)}
+    }
+  `.trim();
+  }
+
+  // Only the true output is connected
+  if (!falseBranchCode.trim()) {
+    return `
+    if (${condition}) {
+${indent(trueBranchCode, 6)}
+    }
+  `.trim();
+  }
+
   return `
-    if (${conditionVar}.branch === 'true' || ${conditionVar}.condition === true) {
+    if (${condition}) {
 ${indent(trueBranchCode, 6)}
     } else {
 ${indent(falseBranchCode, 6)}
@@ -498,24 +546,97 @@ export function generateSwitchBranchCode(
 ): string {
   const cases = Array.from(branches.entries())
     .map(([index, code]) => `
-      case ${index}:
+      case ${index}: {
 ${indent(code, 8)}
         break;
-    `.trim())
-    .join('\n');
+      }
+    `.trim());
 
-  const defaultCase = defaultBranch
-    ? `
-      default:
+  if (defaultBranch) {
+    cases.push(`
+      default: {
 ${indent(defaultBranch, 8)}
         break;
-    `.trim()
-    : '';
+      }
+    `.trim());
+  }
 
   return `
     switch (${switchVar}.branch) {
-      ${cases}
-      ${defaultCase}
+      ${cases.join('\n      ')}
+    }
+  `.trim();
+}
+
+/**
+ * Generate the guard running code after a Switch when one of the given outputs ran
+ * With item semantics, when one of them received items
+ */
+export function generateBranchGuardCode(
+  switchVar: string,
+  outputIndexes: number[],
+  routing: 'value' | 'items',
+  code: string
+): string {
+  const condition = outputIndexes
+    .map(index => (routing === 'items' ? `${switchVar}.outputs[${index}]?.length` : `${switchVar}.branch === ${index}`))
+    .join(' || ');
+
+  return `
+    if (${condition}) {
+${indent(code, 6)}
+    }
+  `.trim();
+}
+
+/**
+ * Generate branch code for routed items (item semantics)
+ * Every output that received items runs, as in n8n
+ */
+export function generateItemRoutingCode(
+  routingVar: string,
+  branches: Map<number, string>
+): string {
+  return Array.from(branches.entries())
+    .map(([index, code]) => `
+    if (${routingVar}.outputs[${index}]?.length) {
+${indent(code, 6)}
+    }
+    `.trim())
+    .join('\n\n    ');
+}
+
+/**
+ * Generate branch code for a node's success and error outputs
+ */
+export function generateErrorBranchCode(
+  resultVar: string,
+  successBranchCode: string,
+  errorBranchCode: string
+): string {
+  // Only the error output is connected
+  if (!successBranchCode.trim()) {
+    return `
+    if (!${resultVar}.ok) {
+${indent(errorBranchCode, 6)}
+    }
+  `.trim();
+  }
+
+  // Only the success output is connected
+  if (!errorBranchCode.trim()) {
+    return `
+    if (${resultVar}.ok) {
+${indent(successBranchCode, 6)}
+    }
+  `.trim();
+  }
+
+  return `
+    if (${resultVar}.ok) {
+${indent(successBranchCode, 6)}
+    } else {
+${indent(errorBranchCode, 6)}
     }
   `.trim();
 }
@@ -528,5 +649,4 @@ export const controlFlowConverters: NodeConverter[] = [
   splitInBatchesConverter,
   waitNodeConverter,
   noOpConverter,
-  respondToWebhookConverter,
 ];
@@ -0,0 +1,60 @@
+/**
+ * Date Helpers
+ * n8n exposes Luxon for dates ($now, $today, DateTime); generated code imports it from "luxon"
+ */
+
+import { ConversionContext } from './base-converter.js';
+
+// Luxon classes n8n makes available as globals
+export const LUXON_GLOBALS = ['DateTime', 'Interval', 'Duration'] as const;
+
+/**
+ * Runtime helper behind n8n's `.toDateTime()` extension
+ */
+export const TO_DATE_TIME_HELPER = `function n8nToDateTime(value: unknown, format?: string): DateTime {
+  if (DateTime.isDateTime(value)) return value;
+  if (value instanceof Date) return DateTime.fromJSDate(value);
+  if (typeof value === "number") {
+    if (format === "s") return DateTime.fromSeconds(value);
+    if (format === "us") return DateTime.fromMillis(value / 1000);
+    return DateTime.fromMillis(format === "ms" || value >= 1e11 ? value : value * 1000);
+  }
+
+  const text = String(value);
+  if (format) return DateTime.fromFormat(text, format);
+  for (const parse of [DateTime.fromISO, DateTime.fromRFC2822, DateTime.fromHTTP, DateTime.fromSQL]) {
+    const parsed = parse(text);
+    if (parsed.isValid) return parsed;
+  }
+  return DateTime.fromJSDate(new Date(text));
+}`;
+
+/**
+ * Import a Luxon class into the generated code
+ */
+export function useLuxon(context: ConversionContext, name: string = 'DateTime'): void {
+  context.imports.add(`import { ${name} } from "luxon";`);
+}
+
+/**
+ * Add the `.toDateTime()` runtime helper to the generated code
+ */
+export function useToDateTime(context: ConversionContext): void {
+  useLuxon(context);
+  context.helpers.add(TO_DATE_TIME_HELPER);
+}
+
+/**
+ * Convert n8n date globals in Code node JavaScript
+ */
+export function convertDateGlobals(code: string, context: ConversionContext): string {
+  const converted = code
+    .replace(/\$now\b/g, 'DateTime.now()')
+    .replace(/\$today\b/g, 'DateTime.now().startOf("day")');
+
+  LUXON_GLOBALS
+    .filter(name => new RegExp(`\\b${name}\\.`).test(converted))
+    .forEach(name => useLuxon(context, name));
+
+  return converted;
+}
@@ -0,0 +1,67 @@
+/**
+ * Error Helpers
+ * Translates n8n node error settings (On Error, Retry On Fail) to step code
+ */
+
+import { NodeErrorSettings } from '../parser/workflow-parser.js';
+import { ConversionContext } from './base-converter.js';
+import { indentBody } from './item-helpers.js';
+
+/**
+ * Whether a node's error settings change its generated step code
+ */
+export function hasErrorHandling(settings: NodeErrorSettings): boolean {
+  return settings.retryOnFail || settings.onError !== 'stopWorkflow';
+}
+
+/**
+ * Wrap step code in the node's error handling
+ * - retryOnFail: failures throw RetryAfterError until the last try, then stop retrying
+ * - continueRegularOutput: the last failure becomes the step's output
+ * - continueErrorOutput: the step returns `{ ok: true, data }` or `{ ok: false, error }`, routed to the matching output
+ * Reads the handler's `attempt` when retrying
+ */
+export function wrapErrorHandling(
+  code: string,
+  settings: NodeErrorSettings,
+  context: ConversionContext
+): string {
+  const imports = [
+    ...(settings.retryOnFail ? ['RetryAfterError'] : []),
+    ...(settings.onError === 'stopWorkflow' ? ['NonRetriableError'] : []),
+  ];
+  if (imports.length > 0) {
+    context.imports.add(`import { ${imports.join(', ')} } from "inngest";`);
+  }
+
+  const lines: string[] = [];
+  if (settings.retryOnFail) {
+    lines.push(`// Retry on fail: ${settings.maxTries} tries, ${settings.waitBetweenTries}ms apart`);
+    lines.push(`if (attempt < ${settings.maxTries - 1}) {`);
+    lines.push(`  throw new RetryAfterError(message, ${settings.waitBetweenTries}, { cause: error });`);
+    lines.push('}');
+  }
+  switch (settings.onError) {
+    case 'continueRegularOutput':
+      lines.push('return { error: message };');
+      break;
+    case 'continueErrorOutput':
+      lines.push('return { ok: false as const, error: { error: message } };');
+      break;
+    default:
+      lines.push('throw new NonRetriableError(message, { cause: error });');
+  }
+
+  const result = settings.onError === 'continueErrorOutput' ? '{ ok: true as const, data: await runNode() }' : 'await runNode()';
+
+  return `const runNode = async () => {
+${indentBody(code)}
+};
+
+try {
+  return ${result};
+} catch (error) {
+  const message = error instanceof Error ? error.message : String(error);
+${lines.map(line => `  ${line}`).join('\n')}
+}`;
+}
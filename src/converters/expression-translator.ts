@@ -0,0 +1,752 @@
+/**
+ * n8n Expression Translator
+ * Translates n8n expressions (`={{ ... }}` parameter values) to JavaScript
+ * that runs inside the generated step code
+ */
+
+import {
+  ExpressionNode,
+  parseExpression,
+  printExpression,
+  precedenceOf,
+  ExpressionSyntaxError,
+} from '../parser/expression-parser.js';
+import {
+  ConversionContext,
+  generateSourceAccess,
+  toVariableName,
+} from './base-converter.js';
+import { LUXON_GLOBALS, useLuxon, useToDateTime } from './date-helpers.js';
+import { isExtensionMethod, useExtension } from './extension-helpers.js';
+import { ITEM_SCOPE, toItems } from './item-helpers.js';
+
+/**
+ * Variables the translated code can read in the place it is emitted
+ */
+export interface ExpressionScope {
+  // Current item's JSON ($json)
+  item: string;
+  // Current item's index ($itemIndex)
+  itemIndex?: string;
+  // Input items array ($input), with item semantics
+  items?: string;
+}
+
+const DEFAULT_SCOPE: ExpressionScope = { item: 'data' };
+
+function defaultScope(context: ConversionContext): ExpressionScope {
+  return context.options.itemSemantics ? ITEM_SCOPE : DEFAULT_SCOPE;
+}
+
+type Accessor =
+  | { kind: 'member'; property: ExpressionNode; computed: boolean; optional: boolean }
+  | { kind: 'call'; args: ExpressionNode[]; optional: boolean };
+
+interface Chain {
+  root: ExpressionNode;
+  accessors: Accessor[];
+}
+
+/**
+ * Translate an n8n parameter value to a JavaScript expression
+ * A single `{{ }}` becomes the raw expression, mixed text becomes a template literal,
+ * and static text becomes a string literal
+ */
+export function translateExpression(
+  expression: string,
+  context: ConversionContext,
+  scope: ExpressionScope = defaultScope(context)
+): string {
+  // Check if it's an n8n expression
+  if (!expression.includes('{{') && !expression.startsWith('=')) {
+    return JSON.stringify(expression);
+  }
+
+  const text = expression.startsWith('=') ? expression.slice(1) : expression;
+
+  let segments: Array<{ static: string } | { source: string }>;
+  try {
+    segments = splitTemplate(text);
+  } catch (error) {
+    return untranslatable(expression, error, context);
+  }
+
+  const expressions = segments.filter((s): s is { source: string } => 'source' in s);
+  if (expressions.length === 0) {
+    return JSON.stringify(text);
+  }
+
+  try {
+    // The whole value is one expression - keep its type
+    if (segments.length === 1) {
+      const node = rewrite(parseExpression(expressions[0].source), context, scope);
+      const code = printExpression(node);
+      // Parenthesize so callers can safely combine it with other operators
+      return precedenceOf(node) < 15 ? `(${code})` : code;
+    }
+
+    const translated = segments.map(segment =>
+      'source' in segment
+        ? { code: translateSource(segment.source, context, scope), raw: false }
+        : { code: segment.static, raw: true }
+    );
+
+    // Use template literal for mixed content
+    return '`' + translated
+      .map(part => (part.raw ? escapeTemplateText(part.code) : `\${${part.code}}`))
+      .join('') + '`';
+  } catch (error) {
+    return untranslatable(expression, error, context);
+  }
+}
+
+/**
+ * Translate the JavaScript inside a single `{{ }}`
+ */
+export function translateSource(
+  source: string,
+  context: ConversionContext,
+  scope: ExpressionScope = defaultScope(context)
+): string {
+  const ast = parseExpression(source);
+  return printExpression(rewrite(ast, context, scope));
+}
+
+/**
+ * Split text into static parts and `{{ }}` expression sources
+ */
+function splitTemplate(text: string): Array<{ static: string } | { source: string }> {
+  const segments: Array<{ static: string } | { source: string }> = [];
+  let pos = 0;
+
+  while (pos < text.length) {
+    const open = text.indexOf('{{', pos);
+    if (open === -1) {
+      segments.push({ static: text.slice(pos) });
+      break;
+    }
+    if (open > pos) {
+      segments.push({ static: text.slice(pos, open) });
+    }
+
+    const close = findExpressionEnd(text, open + 2);
+    segments.push({ source: text.slice(open + 2, close).trim() });
+    pos = close + 2;
+  }
+
+  // Whitespace around a lone expression is not part of the value
+  const sources = segments.filter(s => 'source' in s);
+  if (sources.length === 1 && segments.every(s => 'source' in s || s.static.trim() === '')) {
+    return sources;
+  }
+  return segments;
+}
+
+/**
+ * Find the `}}` closing an expression, skipping strings and object literals
+ */
+function findExpressionEnd(text: string, start: number): number {
+  let depth = 0;
+  let pos = start;
+
+  while (pos < text.length) {
+    const char = text[pos];
+    if (char === '"' || char === "'" || char === '`') {
+      pos++;
+      while (pos < text.length && text[pos] !== char) {
+        pos += text[pos] === '\\' ? 2 : 1;
+      }
+    } else if (char === '{') {
+      depth++;
+    } else if (char === '}') {
+      if (depth === 0 && text[pos + 1] === '}') return pos;
+      depth--;
+    }
+    pos++;
+  }
+
+  throw new ExpressionSyntaxError('Missing closing "}}"', start);
+}
+
+/**
+ * Escape static text for use inside a template literal
+ */
+function escapeTemplateText(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/`/g, '\\`').replace(/\$\{/g, '\\${');
+}
+
+/**
+ * Record a warning and fall back to the original text as a string
+ */
+function untranslatable(expression: string, error: unknown, context: ConversionContext): string {
+  const reason = error instanceof Error ? error.message : String(error);
+  warn(context, `Could not translate expression ${JSON.stringify(expression)} (${reason}). It was kept as a string.`);
+  return JSON.stringify(expression);
+}
+
+/**
+ * Record a conversion warning for the node being converted
+ */
+function warn(context: ConversionContext, message: string): void {
+  const warning = context.currentNode ? `Node "${context.currentNode.name}": ${message}` : message;
+  if (!context.warnings.includes(warning)) {
+    context.warnings.push(warning);
+  }
+}
+
+/**
+ * Rewrite n8n variables and functions in an expression AST
+ */
+function rewrite(node: ExpressionNode, context: ConversionContext, scope: ExpressionScope): ExpressionNode {
+  const recurse = (child: ExpressionNode) => rewrite(child, context, scope);
+
+  switch (node.type) {
+    case 'Identifier':
+    case 'Member':
+    case 'Call':
+      return rewriteChain(flattenChain(node), context, scope);
+    case 'Template':
+      return { ...node, expressions: node.expressions.map(recurse) };
+    case 'New':
+      return { ...node, callee: recurse(node.callee), arguments: node.arguments.map(recurse) };
+    case 'Unary':
+    case 'Spread':
+      return { ...node, argument: recurse(node.argument) };
+    case 'Binary':
+      return { ...node, left: recurse(node.left), right: recurse(node.right) };
+    case 'Conditional':
+      return { ...node, test: recurse(node.test), consequent: recurse(node.consequent), alternate: recurse(node.alternate) };
+    case 'Array':
+      return { ...node, elements: node.elements.map(recurse) };
+    case 'Object':
+      return {
+        ...node,
+        properties: node.properties.map(p =>
+          p.type === 'Spread'
+            ? { ...p, argument: recurse(p.argument) }
+            : { ...p, key: p.computed ? recurse(p.key) : p.key, value: recurse(p.value), shorthand: p.shorthand && p.value.type === 'Identifier' && !p.value.name.startsWith('$') }
+        ),
+      };
+    case 'Arrow':
+      return { ...node, body: recurse(node.body) };
+    case 'Sequence':
+      return { ...node, expressions: node.expressions.map(recurse) };
+    default:
+      return node;
+  }
+}
+
+/**
+ * Split a member/call chain into its root and the accessors applied to it
+ */
+function flattenChain(node: ExpressionNode): Chain {
+  const accessors: Accessor[] = [];
+  let current = node;
+
+  for (;;) {
+    if (current.type === 'Member') {
+      accessors.unshift({ kind: 'member', property: current.property, computed: current.computed, optional: current.optional });
+      current = current.object;
+    } else if (current.type === 'Call') {
+      accessors.unshift({ kind: 'call', args: current.arguments, optional: current.optional });
+      current = current.callee;
+    } else {
+      return { root: current, accessors };
+    }
+  }
+}
+
+/**
+ * Rebuild a member/call chain
+ */
+function buildChain(root: ExpressionNode, accessors: Accessor[]): ExpressionNode {
+  return accessors.reduce<ExpressionNode>((object, accessor) =>
+    accessor.kind === 'member'
+      ? { type: 'Member', object, property: accessor.property, computed: accessor.computed, optional: accessor.optional }
+      : { type: 'Call', callee: object, arguments: accessor.args, optional: accessor.optional },
+  root);
+}
+
+/**
+ * Static name of a member accessor (`.name` or `["name"]`)
+ */
+function propertyName(accessor: Accessor | undefined): string | undefined {
+  if (!accessor || accessor.kind !== 'member') return undefined;
+  if (!accessor.computed && accessor.property.type === 'Identifier') return accessor.property.name;
+  if (accessor.property.type === 'Literal' && typeof accessor.property.value === 'string') return accessor.property.value;
+  return undefined;
+}
+
+/**
+ * Whether accessors start with a call of the named method, e.g. `.first()`
+ */
+function isMethodCall(accessors: Accessor[], name: string): boolean {
+  return propertyName(accessors[0]) === name && accessors[1]?.kind === 'call';
+}
+
+function raw(code: string, precedence: number = 18): ExpressionNode {
+  return { type: 'Raw', code, precedence };
+}
+
+function literal(value: unknown): ExpressionNode {
+  return raw(value === undefined ? 'undefined' : JSON.stringify(value));
+}
+
+function stringArgument(args: ExpressionNode[] | undefined): string | undefined {
+  const first = args?.[0];
+  return first?.type === 'Literal' && typeof first.value === 'string' ? first.value : undefined;
+}
+
+/**
+ * Rewrite a chain whose root may be an n8n variable or function
+ */
+function rewriteChain(chain: Chain, context: ConversionContext, scope: ExpressionScope): ExpressionNode {
+  const recurseArgs = (accessors: Accessor[]): Accessor[] => accessors.map(accessor =>
+    accessor.kind === 'call'
+      ? { ...accessor, args: accessor.args.map(arg => rewrite(arg, context, scope)) }
+      : accessor.computed
+        ? { ...accessor, property: rewrite(accessor.property, context, scope) }
+        : accessor
+  );
+
+  const { root } = chain;
+  const accessors = recurseArgs(chain.accessors);
+
+  if (root.type === 'Identifier' && (LUXON_GLOBALS as readonly string[]).includes(root.name)) {
+    return rewriteLuxonChain(root.name, accessors, context);
+  }
+
+  if (root.type !== 'Identifier' || !root.name.startsWith('$')) {
+    return rewriteExtensions(root.type === 'Identifier' ? root : rewrite(root, context, scope), accessors, context);
+  }
+
+  const resolved = resolveVariable(root.name, accessors, context, scope);
+  if (resolved) {
+    return resolved.date
+      ? rewriteDateChain(resolved.node, resolved.rest, context)
+      : rewriteExtensions(resolved.node, resolved.rest, context);
+  }
+
+  warn(context, `n8n variable "${root.name}" has no Inngest equivalent and was left as-is.`);
+  return buildChain(root, accessors);
+}
+
+/**
+ * Resolve an n8n variable and the accessors it consumes
+ */
+function resolveVariable(
+  name: string,
+  accessors: Accessor[],
+  context: ConversionContext,
+  scope: ExpressionScope
+): { node: ExpressionNode; rest: Accessor[]; date?: boolean } | null {
+  const item = scope.item;
+  const first = propertyName(accessors[0]);
+
+  switch (name) {
+    case '$json':
+      return { node: raw(item), rest: accessors };
+
+    case '$binary':
+      warn(context, 'Binary data is not passed between steps; $binary reads a "binary" field on the item instead.');
+      return { node: raw(`(${item}?.binary ?? {})`), rest: accessors };
+
+    case '$input':
+      return scope.items
+        ? resolveItems(raw(scope.items), accessors, context, undefined, scope.itemIndex ?? '0')
+        : resolveItems(raw(item), accessors, context);
+
+    case '$':
+    case '$items': {
+      const call = accessors[0];
+      if (call?.kind !== 'call') return null;
+
+      const nodeName = stringArgument(call.args);
+      if (call.args.length > 0 && nodeName === undefined) {
+        warn(context, `${name}() with a dynamic node name cannot be resolved at conversion time.`);
+        return null;
+      }
+
+      const output = nodeName ? nodeOutput(nodeName, context) : raw(item);
+      const itemIndex = context.options.itemSemantics && nodeName ? scope.itemIndex ?? '0' : undefined;
+      if (name === '$items') {
+        return { node: itemIndex ? output : allItems(output), rest: accessors.slice(1) };
+      }
+      return resolveItems(output, accessors.slice(1), context, nodeName, itemIndex);
+    }
+
+    case '$node': {
+      const nodeName = propertyName(accessors[0]);
+      if (!nodeName) return null;
+      const itemIndex = context.options.itemSemantics ? scope.itemIndex ?? '0' : undefined;
+      return resolveItems(nodeOutput(nodeName, context), accessors.slice(1), context, nodeName, itemIndex);
+    }
+
+    case '$prevNode': {
+      const previous = context.currentNode?.incomingConnections.find(conn => conn.connectionType === 'main');
+      if (!previous) {
+        warn(context, '$prevNode is used on a node without an input connection; it resolves to undefined.');
+      }
+      if (first === 'name') return { node: literal(previous?.nodeName), rest: accessors.slice(1) };
+      if (first === 'outputIndex') return { node: literal(previous?.outputIndex ?? 0), rest: accessors.slice(1) };
+      if (first === 'runIndex') return { node: raw('0'), rest: accessors.slice(1) };
+      return null;
+    }
+
+    case '$runIndex': {
+      const loopIndex = context.loopIndexVars?.[context.loopIndexVars.length - 1];
+      return { node: raw(loopIndex ?? '0'), rest: accessors };
+    }
+
+    case '$itemIndex':
+      return { node: raw(scope.itemIndex ?? '0'), rest: accessors };
+
+    case '$env':
+    case '$vars':
+      return { node: raw('process.env', 17), rest: accessors };
+
+    case '$parameter':
+      return resolveParameters(context.currentNode?.parameters ?? {}, accessors, context);
+
+    case '$workflow':
+      if (first === 'id') {
+        if (!context.workflowId) {
+          warn(context, '$workflow.id is not set in the workflow JSON; it resolves to undefined.');
+        }
+        return { node: literal(context.workflowId), rest: accessors.slice(1) };
+      }
+      if (first === 'name') return { node: literal(context.workflowName), rest: accessors.slice(1) };
+      if (first === 'active') return { node: raw('true'), rest: accessors.slice(1) };
+      return null;
+
+    case '$execution':
+      if (first === 'mode') return { node: literal('production'), rest: accessors.slice(1) };
+      if (first === 'id') {
+        warn(context, '$execution.id has no equivalent inside a step; use the function\'s runId instead.');
+        return { node: literal('unknown'), rest: accessors.slice(1) };
+      }
+      return null;
+
+    case '$now':
+      useLuxon(context);
+      return { node: raw('DateTime.now()'), rest: accessors, date: true };
+
+    case '$today':
+      useLuxon(context);
+      return { node: raw('DateTime.now().startOf("day")'), rest: accessors, date: true };
+
+    case '$if': {
+      const call = accessors[0];
+      if (call?.kind !== 'call' || call.args.length < 2) return null;
+      return {
+        node: { type: 'Conditional', test: call.args[0], consequent: call.args[1], alternate: call.args[2] ?? raw('undefined') },
+        rest: accessors.slice(1),
+      };
+    }
+
+    case '$ifEmpty': {
+      const call = accessors[0];
+      if (call?.kind !== 'call' || call.args.length < 2) return null;
+      const value = printExpression(call.args[0]);
+      return {
+        node: raw(`(${value} === undefined || ${value} === null || ${value} === "" ? ${printExpression(call.args[1])} : ${value})`),
+        rest: accessors.slice(1),
+      };
+    }
+
+    case '$min':
+    case '$max':
+      if (accessors[0]?.kind !== 'call') return null;
+      return { node: raw(name === '$min' ? 'Math.min' : 'Math.max', 17), rest: accessors };
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Resolve item accessors on a node output (`.item.json`, `.first()`, `.all()`, ...)
+ * With item semantics the output is an items array and `itemIndex` the current item's index
+ */
+function resolveItems(
+  output: ExpressionNode,
+  accessors: Accessor[],
+  context: ConversionContext,
+  nodeName?: string,
+  itemIndex?: string
+): { node: ExpressionNode; rest: Accessor[] } | null {
+  const first = propertyName(accessors[0]);
+  const code = printExpression(output);
+
+  if (itemIndex !== undefined) {
+    // Items keep their `{ json }` shape, so only the item itself is resolved
+    if (first === 'item') return { node: raw(`${code}[${itemIndex}]`), rest: accessors.slice(1) };
+    if (first === 'json') return { node: raw(`${code}[0]`), rest: accessors };
+    if (isMethodCall(accessors, 'first')) return { node: raw(`${code}[0]`), rest: accessors.slice(2) };
+    if (isMethodCall(accessors, 'last')) return { node: raw(`${code}.at(-1)`, 17), rest: accessors.slice(2) };
+    if (isMethodCall(accessors, 'itemMatching')) {
+      const call = accessors[1] as Extract<Accessor, { kind: 'call' }>;
+      return { node: raw(`${code}[${call.args[0] ? printExpression(call.args[0]) : itemIndex}]`), rest: accessors.slice(2) };
+    }
+    if (isMethodCall(accessors, 'all')) return { node: output, rest: accessors.slice(2) };
+  }
+
+  // Single item: `.item`, `.first()`, `.last()`, `.itemMatching(i)`
+  let single: ExpressionNode | undefined;
+  let rest = accessors;
+  if (first === 'item') {
+    single = output;
+    rest = accessors.slice(1);
+  } else if (isMethodCall(accessors, 'first') || isMethodCall(accessors, 'itemMatching')) {
+    single = raw(`[${code}].flat()[0]`, 17);
+    rest = accessors.slice(2);
+  } else if (isMethodCall(accessors, 'last')) {
+    single = raw(`[${code}].flat().at(-1)`, 17);
+    rest = accessors.slice(2);
+  }
+
+  if (single) {
+    // Items are `{ json }` wrappers in n8n; `.json` is the data itself
+    if (propertyName(rest[0]) === 'json') {
+      return { node: single, rest: rest.slice(1) };
+    }
+    return { node: raw(`{ json: ${printExpression(single)} }`), rest };
+  }
+
+  if (first === 'json') {
+    return { node: output, rest: accessors.slice(1) };
+  }
+  if (isMethodCall(accessors, 'all')) {
+    return { node: allItems(output), rest: accessors.slice(2) };
+  }
+  if (first === 'isExecuted' && nodeName && context.combinedTriggers?.has(nodeName)) {
+    // Triggers sharing a function: only the one that fired has run
+    return { node: raw(`(triggeredBy === ${JSON.stringify(nodeName)})`), rest: accessors.slice(1) };
+  }
+  if (first === 'isExecuted') {
+    return { node: raw(`(${code} !== undefined)`), rest: accessors.slice(1) };
+  }
+  if ((first === 'params' || first === 'parameter') && nodeName) {
+    const node = context.allNodes.get(nodeName);
+    return resolveParameters(node?.parameters ?? {}, accessors.slice(1), context, nodeName);
+  }
+  if ((first === 'params' || first === 'parameter') && !nodeName) {
+    return resolveParameters(context.currentNode?.parameters ?? {}, accessors.slice(1), context);
+  }
+
+  return null;
+}
+
+/**
+ * All items of an output, as n8n `{ json }` items
+ */
+function allItems(output: ExpressionNode): ExpressionNode {
+  return raw(`[${printExpression(output)}].flat().map((json) => ({ json }))`, 17);
+}
+
+/**
+ * Read a node parameter at conversion time
+ */
+function resolveParameters(
+  parameters: Record<string, unknown>,
+  accessors: Accessor[],
+  context: ConversionContext,
+  nodeName?: string
+): { node: ExpressionNode; rest: Accessor[] } {
+  const name = propertyName(accessors[0]);
+  if (!name) {
+    return { node: literal(parameters), rest: accessors };
+  }
+  if (!(name in parameters)) {
+    const owner = nodeName ? `node "${nodeName}"` : 'the node';
+    warn(context, `Parameter "${name}" does not exist on ${owner}; it resolves to undefined.`);
+  }
+
+  const value = parameters[name];
+  if (typeof value === 'string' && (value.startsWith('=') || value.includes('{{'))) {
+    return { node: raw(translateExpression(value, context), 15), rest: accessors.slice(1) };
+  }
+  return { node: literal(value), rest: accessors.slice(1) };
+}
+
+/**
+ * Rewrite a chain on a Luxon global, e.g. `DateTime.fromISO(...).plus(...)`
+ */
+function rewriteLuxonChain(name: string, accessors: Accessor[], context: ConversionContext): ExpressionNode {
+  useLuxon(context, name);
+  const root: ExpressionNode = { type: 'Identifier', name };
+
+  // DateTime factories return a DateTime the rest of the chain operates on
+  const factory = propertyName(accessors[0]);
+  if (name === 'DateTime' && factory && accessors[1]?.kind === 'call' && /^(now|local|utc|from)/.test(factory)) {
+    return rewriteDateChain(buildChain(root, accessors.slice(0, 2)), accessors.slice(2), context);
+  }
+  return buildChain(root, accessors);
+}
+
+// Globals whose static methods share names with n8n extensions (`Math.max`, ...)
+const JS_GLOBALS = new Set([
+  'Math', 'JSON', 'Object', 'Array', 'Number', 'String', 'Boolean', 'Date', 'Promise', 'Buffer', 'Intl', 'console', 'process',
+]);
+
+/**
+ * Rewrite n8n extension methods (`.isEmpty()`, `.toDateTime()`, ...) to helper calls
+ */
+function rewriteExtensions(node: ExpressionNode, accessors: Accessor[], context: ConversionContext): ExpressionNode {
+  const isGlobal = node.type === 'Identifier' && JS_GLOBALS.has(node.name);
+
+  for (let index = 0; index < accessors.length; index++) {
+    const method = propertyName(accessors[index]);
+    const call = accessors[index + 1];
+    if (!method || call?.kind !== 'call' || (index === 0 && isGlobal)) continue;
+
+    const receiver = buildChain(node, accessors.slice(0, index));
+    const rest = accessors.slice(index + 2);
+
+    if (method === 'toDateTime') {
+      useToDateTime(context);
+      return rewriteDateChain(helperCall('n8nToDateTime', [receiver, ...call.args.slice(0, 1)]), rest, context);
+    }
+    if (isExtensionMethod(method)) {
+      return rewriteExtensions(helperCall(useExtension(method, context), [receiver, ...call.args]), rest, context);
+    }
+  }
+
+  return buildChain(node, accessors);
+}
+
+function helperCall(name: string, args: ExpressionNode[]): ExpressionNode {
+  return { type: 'Call', callee: { type: 'Identifier', name }, arguments: args, optional: false };
+}
+
+// Luxon methods that return another DateTime
+const DATE_TIME_METHODS = new Set([
+  'plus', 'minus', 'startOf', 'endOf', 'set', 'setZone', 'setLocale', 'toUTC', 'toLocal', 'reconfigure',
+]);
+
+/**
+ * Rewrite method calls on a Luxon DateTime, mapping n8n's date extensions to Luxon
+ */
+function rewriteDateChain(date: ExpressionNode, accessors: Accessor[], context: ConversionContext): ExpressionNode {
+  let node = date;
+  let index = 0;
+
+  while (index < accessors.length) {
+    const method = propertyName(accessors[index]);
+    const call = accessors[index + 1];
+    if (!method || call?.kind !== 'call') break;
+
+    const mapped = mapDateMethod(node, method, call.args, context);
+    if (mapped) {
+      node = mapped.node;
+      index += 2;
+      if (!mapped.dateTime) break;
+    } else if (DATE_TIME_METHODS.has(method)) {
+      node = buildChain(node, accessors.slice(index, index + 2));
+      index += 2;
+    } else {
+      break;
+    }
+  }
+
+  return rewriteExtensions(node, accessors.slice(index), context);
+}
+
+/**
+ * Map an n8n DateTime extension method to Luxon
+ */
+function mapDateMethod(
+  date: ExpressionNode,
+  method: string,
+  args: ExpressionNode[],
+  context: ConversionContext
+): { node: ExpressionNode; dateTime: boolean } | null {
+  const callMethod = (name: string, callArgs: ExpressionNode[]): ExpressionNode => buildChain(date, [
+    { kind: 'member', property: { type: 'Identifier', name }, computed: false, optional: false },
+    { kind: 'call', args: callArgs, optional: false },
+  ]);
+  const toDateTime = (value: ExpressionNode): ExpressionNode => {
+    useToDateTime(context);
+    return helperCall('n8nToDateTime', [value]);
+  };
+
+  switch (method) {
+    case 'toDateTime':
+      return { node: date, dateTime: true };
+
+    case 'format':
+      return { node: callMethod('toFormat', args), dateTime: false };
+
+    case 'beginningOf':
+      return { node: callMethod('startOf', args), dateTime: true };
+
+    case 'endOfMonth':
+      return { node: callMethod('endOf', [literal('month')]), dateTime: true };
+
+    case 'extract':
+      return { node: callMethod('get', args.length > 0 ? args : [literal('week')]), dateTime: false };
+
+    case 'isWeekend':
+      return { node: raw(`(${printExpression(date)}.weekday > 5)`), dateTime: false };
+
+    case 'plus':
+    case 'minus': {
+      // n8n also accepts plus(amount, unit)
+      if (args.length < 2) return null;
+      const unit = stringArgument(args.slice(1));
+      const duration = unit
+        ? `{ ${/^\w+$/.test(unit) ? unit : JSON.stringify(unit)}: ${printExpression(args[0])} }`
+        : `{ [${printExpression(args[1])}]: ${printExpression(args[0])} }`;
+      return { node: callMethod(method, [raw(duration)]), dateTime: true };
+    }
+
+    case 'isBetween': {
+      if (args.length < 2) return null;
+      useLuxon(context, 'Interval');
+      const interval = buildChain({ type: 'Identifier', name: 'Interval' }, [
+        { kind: 'member', property: { type: 'Identifier', name: 'fromDateTimes' }, computed: false, optional: false },
+        { kind: 'call', args: [toDateTime(args[0]), toDateTime(args[1])], optional: false },
+        { kind: 'member', property: { type: 'Identifier', name: 'contains' }, computed: false, optional: false },
+        { kind: 'call', args: [date], optional: false },
+      ]);
+      return { node: interval, dateTime: false };
+    }
+
+    case 'diffTo': {
+      if (args.length === 0) return null;
+      const unit = args[1] ?? literal('days');
+      const diff = buildChain(callMethod('diff', [toDateTime(args[0]), unit]), [
+        { kind: 'member', property: { type: 'Identifier', name: 'as' }, computed: false, optional: false },
+        { kind: 'call', args: [unit], optional: false },
+      ]);
+      return { node: diff, dateTime: false };
+    }
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Variable holding a node's output, as read by other nodes
+ */
+function nodeOutput(nodeName: string, context: ConversionContext): ExpressionNode {
+  if (!context.allNodes.has(nodeName)) {
+    warn(context, `Expression references unknown node "${nodeName}".`);
+  }
+
+  // Trigger output is the function's input data
+  if (context.allNodes.get(nodeName)?.category === 'trigger') {
+    return context.options.itemSemantics ? raw(toItems('inputData', context), 17) : raw('inputData');
+  }
+
+  const access = generateSourceAccess({
+    nodeName,
+    nodeId: '',
+    outputIndex: 0,
+    inputIndex: 0,
+    connectionType: 'main',
+  }, context);
+
+  return raw(access ?? context.variableMap.get(nodeName) ?? toVariableName(nodeName), 17);
+}
@@ -0,0 +1,410 @@
+/**
+ * Extension Helpers
+ * n8n adds extension methods to strings, arrays, numbers and objects in expressions
+ * (`.isEmpty()`, `.pluck()`, `.toSnakeCase()`, ...); generated code calls these helpers instead
+ */
+
+import { ConversionContext } from './base-converter.js';
+
+interface ExtensionHelper {
+  name: string;
+  code: string;
+  imports?: string[];
+}
+
+/**
+ * Helper for each extension method, keyed by method name
+ * Methods that also exist natively on JS values (`includes`, `concat`, `keys`, ...) are left alone
+ */
+const EXTENSION_HELPERS: Record<string, ExtensionHelper> = {
+  // Any type
+  isEmpty: {
+    name: 'n8nIsEmpty',
+    code: `function n8nIsEmpty(value: any): boolean {
+  if (value === null || value === undefined || value === "") return true;
+  if (Array.isArray(value)) return value.length === 0;
+  if (typeof value === "object") return Object.keys(value).length === 0;
+  return false;
+}`,
+  },
+  isNotEmpty: {
+    name: 'n8nIsNotEmpty',
+    code: `function n8nIsNotEmpty(value: any): boolean {
+  if (value === null || value === undefined || value === "") return false;
+  if (Array.isArray(value)) return value.length > 0;
+  if (typeof value === "object") return Object.keys(value).length > 0;
+  return true;
+}`,
+  },
+  compact: {
+    name: 'n8nCompact',
+    code: `function n8nCompact(value: any): any {
+  const isBlank = (v: any) => v === null || v === undefined || v === "";
+  if (Array.isArray(value)) return value.filter(v => !isBlank(v));
+  return Object.fromEntries(Object.entries(value ?? {}).filter(([, v]) => !isBlank(v)));
+}`,
+  },
+  merge: {
+    name: 'n8nMerge',
+    code: `function n8nMerge(value: any, ...others: any[]): any {
+  if (Array.isArray(value)) {
+    return value.map((item, i) => Object.assign({}, item, ...others.map(other => other?.[i])));
+  }
+  return Object.assign({}, ...others.reverse(), value);
+}`,
+  },
+  toBoolean: {
+    name: 'n8nToBoolean',
+    code: `function n8nToBoolean(value: any): boolean {
+  if (typeof value === "string") return !["", "false", "no", "0", "off"].includes(value.trim().toLowerCase());
+  return Boolean(value);
+}`,
+  },
+
+  // Strings
+  toTitleCase: {
+    name: 'n8nToTitleCase',
+    code: `function n8nToTitleCase(value: string): string {
+  return String(value).toLowerCase().replace(/(^|\\s)\\S/g, c => c.toUpperCase());
+}`,
+  },
+  toSentenceCase: {
+    name: 'n8nToSentenceCase',
+    code: `function n8nToSentenceCase(value: string): string {
+  return String(value).toLowerCase().replace(/(^\\s*|[.!?]\\s+)(\\S)/g, (_, p, c) => p + c.toUpperCase());
+}`,
+  },
+  toSnakeCase: {
+    name: 'n8nToSnakeCase',
+    code: `function n8nToSnakeCase(value: string): string {
+  return String(value)
+    .replace(/([a-z0-9])([A-Z])/g, "$1_$2")
+    .replace(/[^A-Za-z0-9]+/g, "_")
+    .replace(/^_|_$/g, "")
+    .toLowerCase();
+}`,
+  },
+  toCamelCase: {
+    name: 'n8nToCamelCase',
+    code: `function n8nToCamelCase(value: string): string {
+  return String(value)
+    .toLowerCase()
+    .replace(/[^a-z0-9]+(.)/g, (_, c) => c.toUpperCase())
+    .replace(/[^A-Za-z0-9]/g, "");
+}`,
+  },
+  extractEmail: {
+    name: 'n8nExtractEmail',
+    code: `function n8nExtractEmail(value: string): string | undefined {
+  return String(value).match(/[\\w.+-]+@[\\w-]+(\\.[\\w-]+)+/)?.[0];
+}`,
+  },
+  extractDomain: {
+    name: 'n8nExtractDomain',
+    code: `function n8nExtractDomain(value: string): string | undefined {
+  const text = String(value).trim();
+  const email = text.match(/^[\\w.+-]+@([\\w-]+(\\.[\\w-]+)+)$/);
+  if (email) return email[1];
+  try {
+    return new URL(/^[a-z]+:\\/\\//i.test(text) ? text : \`http://\${text}\`).hostname;
+  } catch {
+    return undefined;
+  }
+}`,
+  },
+  extractUrl: {
+    name: 'n8nExtractUrl',
+    code: `function n8nExtractUrl(value: string): string | undefined {
+  return String(value).match(/https?:\\/\\/[^\\s"'<>]+/)?.[0];
+}`,
+  },
+  extractUrlPath: {
+    name: 'n8nExtractUrlPath',
+    code: `function n8nExtractUrlPath(value: string): string | undefined {
+  try {
+    return new URL(String(value)).pathname;
+  } catch {
+    return undefined;
+  }
+}`,
+  },
+  isEmail: {
+    name: 'n8nIsEmail',
+    code: `function n8nIsEmail(value: string): boolean {
+  return /^[\\w.+-]+@[\\w-]+(\\.[\\w-]+)+$/.test(String(value).trim());
+}`,
+  },
+  isUrl: {
+    name: 'n8nIsUrl',
+    code: `function n8nIsUrl(value: string): boolean {
+  try {
+    return ["http:", "https:"].includes(new URL(String(value)).protocol);
+  } catch {
+    return false;
+  }
+}`,
+  },
+  isNumeric: {
+    name: 'n8nIsNumeric',
+    code: `function n8nIsNumeric(value: string): boolean {
+  return String(value).trim() !== "" && !isNaN(Number(value));
+}`,
+  },
+  toNumber: {
+    name: 'n8nToNumber',
+    code: `function n8nToNumber(value: any): number {
+  return Number(typeof value === "string" ? value.replace(/,/g, "") : value);
+}`,
+  },
+  toInt: {
+    name: 'n8nToInt',
+    code: `function n8nToInt(value: any): number {
+  return parseInt(String(value), 10);
+}`,
+  },
+  toFloat: {
+    name: 'n8nToFloat',
+    code: `function n8nToFloat(value: any): number {
+  return parseFloat(String(value));
+}`,
+  },
+  removeTags: {
+    name: 'n8nRemoveTags',
+    code: `function n8nRemoveTags(value: string): string {
+  return String(value).replace(/<[^>]*>/g, "");
+}`,
+  },
+  removeMarkdown: {
+    name: 'n8nRemoveMarkdown',
+    code: `function n8nRemoveMarkdown(value: string): string {
+  return String(value)
+    .replace(/!?\\[([^\\]]*)\\]\\([^)]*\\)/g, "$1")
+    .replace(/^\\s{0,3}(#{1,6}|>|[-*+]|\\d+\\.)\\s+/gm, "")
+    .replace(/(\\*\\*|__|\\*|_|~~|\`)(.*?)\\1/g, "$2");
+}`,
+  },
+  replaceSpecialChars: {
+    name: 'n8nReplaceSpecialChars',
+    code: `function n8nReplaceSpecialChars(value: string): string {
+  return String(value).normalize("NFD").replace(/[\\u0300-\\u036f]/g, "");
+}`,
+  },
+  quote: {
+    name: 'n8nQuote',
+    code: `function n8nQuote(value: string, mark: string = '"'): string {
+  return mark + String(value).split(mark).join("\\\\" + mark) + mark;
+}`,
+  },
+  urlEncode: {
+    name: 'n8nUrlEncode',
+    code: `function n8nUrlEncode(value: any, entireString: boolean = false): string {
+  if (typeof value === "object" && value !== null) return new URLSearchParams(value).toString();
+  return entireString ? encodeURIComponent(String(value)) : encodeURI(String(value));
+}`,
+  },
+  urlDecode: {
+    name: 'n8nUrlDecode',
+    code: `function n8nUrlDecode(value: string, entireString: boolean = false): string {
+  return entireString ? decodeURIComponent(String(value)) : decodeURI(String(value));
+}`,
+  },
+  base64Encode: {
+    name: 'n8nBase64Encode',
+    code: `function n8nBase64Encode(value: string): string {
+  return Buffer.from(String(value)).toString("base64");
+}`,
+  },
+  base64Decode: {
+    name: 'n8nBase64Decode',
+    code: `function n8nBase64Decode(value: string): string {
+  return Buffer.from(String(value), "base64").toString("utf8");
+}`,
+  },
+  hash: {
+    name: 'n8nHash',
+    code: `function n8nHash(value: string, algorithm: string = "md5"): string {
+  return createHash(algorithm.toLowerCase().replace("-", "")).update(String(value)).digest("hex");
+}`,
+    imports: ['import { createHash } from "node:crypto";'],
+  },
+  parseJson: {
+    name: 'n8nParseJson',
+    code: `function n8nParseJson(value: string): any {
+  return JSON.parse(String(value));
+}`,
+  },
+
+  // Arrays
+  first: {
+    name: 'n8nFirst',
+    code: `function n8nFirst(value: any[]): any {
+  return value[0];
+}`,
+  },
+  last: {
+    name: 'n8nLast',
+    code: `function n8nLast(value: any[]): any {
+  return value[value.length - 1];
+}`,
+  },
+  pluck: {
+    name: 'n8nPluck',
+    code: `function n8nPluck(value: any[], ...fields: string[]): any[] {
+  if (fields.length === 1) return value.map(item => item?.[fields[0]]);
+  return value.map(item => Object.fromEntries(fields.map(f => [f, item?.[f]])));
+}`,
+  },
+  removeDuplicates: {
+    name: 'n8nRemoveDuplicates',
+    code: `function n8nRemoveDuplicates(value: any[], ...fields: string[]): any[] {
+  const key = (item: any) => JSON.stringify(fields.length > 0 ? fields.map(f => item?.[f]) : item);
+  const seen = new Set<string>();
+  return value.filter(item => !seen.has(key(item)) && !!seen.add(key(item)));
+}`,
+  },
+  chunk: {
+    name: 'n8nChunk',
+    code: `function n8nChunk(value: any[], size: number): any[][] {
+  const chunks: any[][] = [];
+  for (let i = 0; i < value.length; i += size) chunks.push(value.slice(i, i + size));
+  return chunks;
+}`,
+  },
+  sum: {
+    name: 'n8nSum',
+    code: `function n8nSum(value: any[]): number {
+  return value.reduce((total, n) => total + Number(n), 0);
+}`,
+  },
+  average: {
+    name: 'n8nAverage',
+    code: `function n8nAverage(value: any[]): number {
+  return value.length > 0 ? value.reduce((total, n) => total + Number(n), 0) / value.length : 0;
+}`,
+  },
+  min: {
+    name: 'n8nMin',
+    code: `function n8nMin(value: any[]): number {
+  return Math.min(...value.map(Number));
+}`,
+  },
+  max: {
+    name: 'n8nMax',
+    code: `function n8nMax(value: any[]): number {
+  return Math.max(...value.map(Number));
+}`,
+  },
+  difference: {
+    name: 'n8nDifference',
+    code: `function n8nDifference(value: any[], other: any[]): any[] {
+  const others = new Set(other.map(item => JSON.stringify(item)));
+  return value.filter(item => !others.has(JSON.stringify(item)));
+}`,
+  },
+  intersection: {
+    name: 'n8nIntersection',
+    code: `function n8nIntersection(value: any[], other: any[]): any[] {
+  const others = new Set(other.map(item => JSON.stringify(item)));
+  return value.filter(item => others.has(JSON.stringify(item)));
+}`,
+  },
+  union: {
+    name: 'n8nUnion',
+    code: `function n8nUnion(value: any[], other: any[]): any[] {
+  const seen = new Set<string>();
+  return [...value, ...other].filter(item => !seen.has(JSON.stringify(item)) && !!seen.add(JSON.stringify(item)));
+}`,
+  },
+  randomItem: {
+    name: 'n8nRandomItem',
+    code: `function n8nRandomItem(value: any[]): any {
+  return value[Math.floor(Math.random() * value.length)];
+}`,
+  },
+  smartJoin: {
+    name: 'n8nSmartJoin',
+    code: `function n8nSmartJoin(value: any[], keyField: string, valueField: string): Record<string, any> {
+  return Object.fromEntries(value.map(item => [item?.[keyField], item?.[valueField]]));
+}`,
+  },
+
+  // Numbers
+  round: {
+    name: 'n8nRound',
+    code: `function n8nRound(value: number, decimals: number = 0): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}`,
+  },
+  floor: {
+    name: 'n8nFloor',
+    code: `function n8nFloor(value: number): number {
+  return Math.floor(value);
+}`,
+  },
+  ceil: {
+    name: 'n8nCeil',
+    code: `function n8nCeil(value: number): number {
+  return Math.ceil(value);
+}`,
+  },
+  abs: {
+    name: 'n8nAbs',
+    code: `function n8nAbs(value: number): number {
+  return Math.abs(value);
+}`,
+  },
+  isEven: {
+    name: 'n8nIsEven',
+    code: `function n8nIsEven(value: number): boolean {
+  return value % 2 === 0;
+}`,
+  },
+  isOdd: {
+    name: 'n8nIsOdd',
+    code: `function n8nIsOdd(value: number): boolean {
+  return Math.abs(value % 2) === 1;
+}`,
+  },
+
+  // Objects
+  hasField: {
+    name: 'n8nHasField',
+    code: `function n8nHasField(value: Record<string, any>, field: string): boolean {
+  return value !== null && typeof value === "object" && field in value;
+}`,
+  },
+  removeField: {
+    name: 'n8nRemoveField',
+    code: `function n8nRemoveField(value: Record<string, any>, field: string): Record<string, any> {
+  const { [field]: _removed, ...rest } = value ?? {};
+  return rest;
+}`,
+  },
+  toJsonString: {
+    name: 'n8nToJsonString',
+    code: `function n8nToJsonString(value: any): string {
+  return JSON.stringify(value);
+}`,
+  },
+};
+
+// `unique` is an alias of `removeDuplicates`
+EXTENSION_HELPERS.unique = EXTENSION_HELPERS.removeDuplicates;
+
+/**
+ * Whether a method name is an n8n extension method
+ */
+export function isExtensionMethod(method: string): boolean {
+  return Object.prototype.hasOwnProperty.call(EXTENSION_HELPERS, method);
+}
+
+/**
+ * Add an extension method's helper to the generated code and return its name
+ */
+export function useExtension(method: string, context: ConversionContext): string {
+  const helper = EXTENSION_HELPERS[method];
+  context.helpers.add(helper.code);
+  helper.imports?.forEach(imp => context.imports.add(imp));
+  return helper.name;
+}
@@ -0,0 +1,399 @@
+/**
+ * Form Converters
+ * n8n forms become server-rendered pages: the Form Trigger's route renders and validates them and sends
+ * the trigger event, and Form nodes show the next page (or the completion screen) and wait for its submission
+ */
+
+import { ParsedNode } from '../parser/workflow-parser.js';
+import { FormFieldParameter, FormNodeParameters, FormTriggerParameters } from '../types/n8n.js';
+import {
+  NodeConverter,
+  ConversionContext,
+  ConversionResult,
+  toStepId,
+  toVariableName,
+  convertN8nExpression,
+  generateDataAccess,
+  generateItemsAccess,
+} from './base-converter.js';
+import { toPropertyKey } from './schema-inference.js';
+import { useWebhookResponses } from './webhook-routes.js';
+
+const FORM_NODE_TYPE = 'n8n-nodes-base.form';
+
+/**
+ * Form pages and their rendering and validation, shared by the form route and the Form node steps
+ * Inputs are named by position (field-<index>, and field-<index>-<option> for checkbox lists)
+ */
+const FORM_HELPERS = `type FormField = {
+  key: string;
+  label: string;
+  type: string;
+  required: boolean;
+  placeholder?: string;
+  options?: string[];
+  multiselect?: boolean;
+  value?: string;
+};
+
+type FormPage = { title: string; description: string; buttonLabel: string; fields: FormField[] };
+
+function n8nEscapeHtml(text: string): string {
+  const entities: Record<string, string> = { "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" };
+  return text.replace(/[&<>"']/g, char => entities[char]);
+}
+
+function n8nFormHtml(title: string, content: string, status = 200): WebhookResponse {
+  return {
+    status,
+    headers: { "Content-Type": "text/html; charset=utf-8" },
+    body: \`<!doctype html>
+<html lang="en">
+<head>
+  <meta charset="utf-8" />
+  <meta name="viewport" content="width=device-width, initial-scale=1" />
+  <title>\${n8nEscapeHtml(title)}</title>
+  <style>
+    body { font-family: system-ui, sans-serif; background: #f5f5f7; margin: 0; padding: 2rem 1rem; }
+    main { max-width: 32rem; margin: 0 auto; background: #fff; border-radius: 8px; padding: 2rem; box-shadow: 0 1px 3px rgba(0, 0, 0, 0.12); }
+    label, legend { display: block; margin: 1rem 0 0.25rem; font-weight: 600; }
+    input, textarea, select { width: 100%; box-sizing: border-box; padding: 0.5rem; font: inherit; }
+    fieldset { border: 0; padding: 0; margin: 0; }
+    .choice { display: flex; gap: 0.5rem; align-items: center; margin: 0.25rem 0; font-weight: normal; }
+    .choice input { width: auto; }
+    .errors { color: #b00020; }
+    button { margin-top: 1.5rem; padding: 0.6rem 1.2rem; font: inherit; }
+  </style>
+</head>
+<body>
+  <main>\${content}</main>
+</body>
+</html>\`,
+  };
+}
+
+function n8nRenderForm(page: FormPage, action: string, values: Record<string, unknown> = {}, errors: string[] = []): WebhookResponse {
+  const fields = page.fields.map((field, i) => {
+    const name = \`field-\${i}\`;
+    const value = n8nEscapeHtml(String(values[name] ?? field.value ?? ""));
+    const label = n8nEscapeHtml(field.label) + (field.required ? " *" : "");
+    const attributes = \`id="\${name}" name="\${name}"\${field.required ? " required" : ""}\${field.placeholder ? \` placeholder="\${n8nEscapeHtml(field.placeholder)}"\` : ""}\`;
+
+    if (field.type === "html") return field.value ?? "";
+    if (field.type === "hiddenField") return \`<input type="hidden" name="\${name}" value="\${value}" />\`;
+    // Multiselect dropdowns are checkbox lists, as in n8n
+    if (field.type === "checkbox" || field.type === "radio" || field.multiselect) {
+      const choices = (field.options ?? []).map((option, j) => field.type === "radio"
+        ? \`<label class="choice"><input type="radio" name="\${name}" value="\${n8nEscapeHtml(option)}"\${values[name] === option ? " checked" : ""} />\${n8nEscapeHtml(option)}</label>\`
+        : \`<label class="choice"><input type="checkbox" name="\${name}-\${j}"\${values[\`\${name}-\${j}\`] !== undefined ? " checked" : ""} />\${n8nEscapeHtml(option)}</label>\`);
+      return \`<fieldset><legend>\${label}</legend>\${choices.join("")}</fieldset>\`;
+    }
+    if (field.type === "dropdown") {
+      const options = (field.options ?? []).map(option => \`<option\${values[name] === option ? " selected" : ""}>\${n8nEscapeHtml(option)}</option>\`);
+      return \`<label for="\${name}">\${label}</label><select \${attributes}><option value=""></option>\${options.join("")}</select>\`;
+    }
+    if (field.type === "textarea") return \`<label for="\${name}">\${label}</label><textarea \${attributes}>\${value}</textarea>\`;
+    return \`<label for="\${name}">\${label}</label><input type="\${field.type}" \${attributes} value="\${value}" />\`;
+  });
+
+  const errorList = errors.length > 0
+    ? \`<ul class="errors">\${errors.map(error => \`<li>\${n8nEscapeHtml(error)}</li>\`).join("")}</ul>\`
+    : "";
+  return n8nFormHtml(page.title, \`<h1>\${n8nEscapeHtml(page.title)}</h1>
+    \${page.description ? \`<p>\${n8nEscapeHtml(page.description)}</p>\` : ""}\${errorList}
+    <form method="POST" action="\${n8nEscapeHtml(action)}">
+      \${fields.join("\\n      ")}
+      <button type="submit">\${n8nEscapeHtml(page.buttonLabel)}</button>
+    </form>\`, errors.length > 0 ? 400 : 200);
+}
+
+/**
+ * Check a submission against the page's fields, returning the field values by key
+ */
+function n8nValidateForm(page: FormPage, body: unknown): { data: Record<string, unknown>; errors: string[] } {
+  const values = (body && typeof body === "object" ? body : {}) as Record<string, unknown>;
+  const data: Record<string, unknown> = {};
+  const errors: string[] = [];
+
+  page.fields.forEach((field, i) => {
+    const name = \`field-\${i}\`;
+    if (field.type === "html") return;
+    if (field.type === "checkbox" || field.multiselect) {
+      const selected = (field.options ?? []).filter((_, j) => values[\`\${name}-\${j}\`] !== undefined);
+      if (field.required && selected.length === 0) errors.push(\`\${field.label} is required\`);
+      data[field.key] = selected;
+      return;
+    }
+
+    const value = String(values[name] ?? "").trim();
+    if (!value) {
+      if (field.required) errors.push(\`\${field.label} is required\`);
+      return;
+    }
+    if (field.type === "number" && Number.isNaN(Number(value))) {
+      errors.push(\`\${field.label} must be a number\`);
+    } else if (field.type === "email" && !/^[^\\s@]+@[^\\s@]+\\.[^\\s@]+$/.test(value)) {
+      errors.push(\`\${field.label} must be an email address\`);
+    } else if (field.type === "date" && Number.isNaN(Date.parse(value))) {
+      errors.push(\`\${field.label} must be a date\`);
+    } else if (field.options && !field.options.includes(value)) {
+      errors.push(\`\${field.label} must be one of: \${field.options.join(", ")}\`);
+    }
+    data[field.key] = field.type === "number" ? Number(value) : value;
+  });
+
+  return { data, errors };
+}
+
+function n8nFormCompletion(title: string, message: string): WebhookResponse {
+  return n8nFormHtml(title, \`<h1>\${n8nEscapeHtml(title)}</h1><p>\${n8nEscapeHtml(message)}</p>\`);
+}`;
+
+/**
+ * Form page definition, before it is written to the generated code
+ */
+export interface FormPageDefinition {
+  title: string;
+  description: string;
+  buttonLabel: string;
+  fields: FormFieldParameter[];
+}
+
+/**
+ * Add the form helpers and a page's definition to the generated code
+ */
+export function useFormPage(
+  variable: string,
+  page: FormPageDefinition,
+  node: ParsedNode,
+  context: ConversionContext
+): void {
+  useWebhookResponses(context);
+  context.helpers.add(FORM_HELPERS);
+
+  const fields = page.fields
+    .filter(field => {
+      if (field.fieldType !== 'file') return true;
+      context.warnings.push(`Form "${node.name}": file field "${field.fieldLabel}" is not supported and was left out of the form.`);
+      return false;
+    })
+    .map(field => ({
+      key: formFieldKey(field),
+      label: field.fieldLabel ?? '',
+      type: field.fieldType || 'text',
+      required: Boolean(field.requiredField),
+      ...(field.placeholder ? { placeholder: field.placeholder } : {}),
+      ...(field.fieldOptions?.values ? { options: field.fieldOptions.values.map(o => o.option) } : {}),
+      ...(field.multiselect ? { multiselect: true } : {}),
+      ...(field.fieldType === 'hiddenField' && field.fieldValue ? { value: field.fieldValue } : {}),
+      ...(field.fieldType === 'html' ? { value: field.html ?? '' } : {}),
+    }))
+    .map(field => `{ ${Object.entries(field).map(([key, value]) => `${key}: ${JSON.stringify(value)}`).join(', ')} }`);
+
+  context.helpers.add(`const ${variable}: FormPage = {
+  title: ${JSON.stringify(page.title)},
+  description: ${JSON.stringify(page.description)},
+  buttonLabel: ${JSON.stringify(page.buttonLabel)},
+  fields: [${fields.map(field => `\n    ${field},`).join('')}${fields.length > 0 ? '\n  ' : ''}],
+};`);
+}
+
+/**
+ * The trigger's form page, from the Form Trigger parameters
+ */
+export function formTriggerPage(params: FormTriggerParameters): FormPageDefinition {
+  return {
+    title: params.formTitle || 'Form',
+    description: params.formDescription || '',
+    buttonLabel: params.options?.buttonLabel || 'Submit',
+    fields: params.formFields?.values ?? [],
+  };
+}
+
+/**
+ * Event data fields for a page's fields, keyed like n8n's output (by label)
+ */
+export function formEventFields(fields: FormFieldParameter[]): Record<string, string> {
+  const eventFields: Record<string, string> = {};
+  fields
+    .filter(field => field.fieldType !== 'html' && field.fieldType !== 'file')
+    .forEach(field => {
+      const list = field.fieldType === 'checkbox' || field.multiselect;
+      const type = list ? 'string[]' : field.fieldType === 'number' ? 'number' : 'string';
+      const optional = !list && !field.requiredField;
+      eventFields[`${toPropertyKey(formFieldKey(field))}${optional ? '?' : ''}`] = type;
+    });
+  return eventFields;
+}
+
+/**
+ * URL path of a Form Trigger's form, as n8n serves it (/form/<path>)
+ */
+export function formPath(trigger: ParsedNode, context: ConversionContext): string {
+  const params = trigger.parameters as unknown as FormTriggerParameters;
+  const path = params.options?.path || trigger.webhookId || toStepId(context.workflowName);
+  return `/form/${path.replace(/^\/+/, '')}`;
+}
+
+/**
+ * Event sent when the page of a Form node is submitted
+ */
+export function formPageEventName(context: ConversionContext): string {
+  return `${context.options.eventPrefix || 'form'}/${toStepId(context.workflowName)}.page`;
+}
+
+/**
+ * Form nodes showing a further page of the form
+ */
+export function findFormPageNodes(context: ConversionContext): ParsedNode[] {
+  return Array.from(context.allNodes.values()).filter(node =>
+    node.type === FORM_NODE_TYPE &&
+    !node.disabled &&
+    (node.parameters as FormNodeParameters).operation !== 'completion'
+  );
+}
+
+/**
+ * Whether a node is a Form node showing the form's completion screen
+ */
+export function isFormCompletionNode(node: ParsedNode | undefined): boolean {
+  return node?.type === FORM_NODE_TYPE && (node.parameters as FormNodeParameters).operation === 'completion';
+}
+
+/**
+ * Variable holding a Form node's page
+ */
+export function formPageVariable(node: ParsedNode): string {
+  return `${toVariableName(node.name)}FormPage`;
+}
+
+function formFieldKey(field: FormFieldParameter): string {
+  return field.fieldType === 'hiddenField' && field.fieldName ? field.fieldName : field.fieldLabel ?? '';
+}
+
+/**
+ * Form Node Converter
+ * A page shows the next page of the form to the waiting form route, waits for its submission
+ * and outputs the submitted fields; a completion shows the form's final screen
+ */
+export const formNodeConverter: NodeConverter = {
+  nodeTypes: [FORM_NODE_TYPE],
+  items: 'native',
+
+  convert(node: ParsedNode, context: ConversionContext): ConversionResult {
+    const params = node.parameters as unknown as FormNodeParameters;
+    const stepId = toStepId(node.name);
+    const varName = toVariableName(node.name);
+    const trigger = Array.from(context.allNodes.values()).find(n => n.type === 'n8n-nodes-base.formTrigger');
+
+    context.variableMap.set(node.name, varName);
+
+    if (!trigger) {
+      context.warnings.push(`Form "${node.name}": the workflow has no Form Trigger to show the page on; the node passes its input through.`);
+      return {
+        steps: [{ type: 'run', id: stepId, code: `return ${passThrough(node, context)};`, comment: `Form: ${node.name}` }],
+      };
+    }
+
+    if (params.operation === 'completion') {
+      return convertFormCompletion(node, params, context);
+    }
+
+    let fields = params.formFields?.values ?? [];
+    if (params.defineForm === 'json') {
+      try {
+        fields = JSON.parse(params.jsonOutput ?? '[]');
+      } catch {
+        context.warnings.push(`Form "${node.name}": the form fields JSON is not valid (or uses expressions); the page has no fields.`);
+        fields = [];
+      }
+    }
+    useFormPage(formPageVariable(node), {
+      title: params.options?.formTitle || (trigger.parameters as FormTriggerParameters).formTitle || 'Form',
+      description: params.options?.formDescription || '',
+      buttonLabel: params.options?.buttonLabel || 'Submit',
+      fields,
+    }, node, context);
+    context.imports.add('import { NonRetriableError } from "inngest";');
+
+    const submission = toVariableName(`${stepId}-submission`);
+    const action = `\`${formPath(trigger, context)}?submission=\${encodeURIComponent(inputData.responseId)}&page=${stepId}\``;
+
+    return {
+      steps: [
+        {
+          type: 'run',
+          id: `${stepId}-page`,
+          code: `await n8nSendWebhookResponse(inputData.responseId, n8nRenderForm(${formPageVariable(node)}, ${action}));`,
+          comment: `Form: show the "${node.name}" page`,
+        },
+        {
+          type: 'waitForEvent',
+          id: `${stepId}-submission`,
+          eventName: formPageEventName(context),
+          timeout: '7d',
+          if: `async.data.responseId == event.data.responseId && async.data.page == '${stepId}'`,
+          comment: `Form: wait for the "${node.name}" page to be submitted`,
+        },
+        {
+          type: 'run',
+          id: stepId,
+          code: `
+      if (!${submission}) {
+        throw new NonRetriableError("Form page \\"${node.name}\\" was not submitted within 7 days");
+      }
+      const fields: Record<string, unknown> = { ...${submission}.data };
+      delete fields.page;
+      delete fields.responseId;
+      return ${context.options.itemSemantics ? '[{ json: fields }]' : 'fields'};
+          `.trim(),
+          comment: `Form: ${node.name}`,
+        },
+      ],
+    };
+  },
+};
+
+/**
+ * Show the form's completion screen (text or redirect) and pass the input through
+ */
+function convertFormCompletion(
+  node: ParsedNode,
+  params: FormNodeParameters,
+  context: ConversionContext
+): ConversionResult {
+  useWebhookResponses(context);
+  context.helpers.add(FORM_HELPERS);
+
+  if (params.respondWith === 'showText' || params.respondWith === 'returnBinary') {
+    context.warnings.push(`Form "${node.name}": completion "${params.respondWith}" is shown as the completion title and message.`);
+  }
+  const response = params.respondWith === 'redirect'
+    ? `{ status: 303, headers: { Location: ${convertN8nExpression(params.redirectUrl ?? '', context)} } }`
+    : `n8nFormCompletion(${convertN8nExpression(params.completionTitle || 'Form Submitted', context)}, ${convertN8nExpression(params.completionMessage ?? '', context)})`;
+
+  const items = context.options.itemSemantics ? generateItemsAccess(node, context) : undefined;
+  const code = `
+      const data = ${items ? `${items}[0]?.json ?? {}` : generateDataAccess(node, context)};
+      await n8nSendWebhookResponse(inputData.responseId, ${response});
+      return ${items ?? 'data'};
+  `.trim();
+
+  return {
+    steps: [{
+      type: 'run',
+      id: toStepId(node.name),
+      code,
+      comment: `Form: ${node.name} (completion)`,
+    }],
+  };
+}
+
+function passThrough(node: ParsedNode, context: ConversionContext): string {
+  return context.options.itemSemantics ? generateItemsAccess(node, context) : generateDataAccess(node, context);
+}
+
+// Export all converters
+export const formConverters: NodeConverter[] = [
+  formNodeConverter,
+];
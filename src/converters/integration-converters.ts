@@ -14,6 +14,7 @@ import {
   generateDataAccess,
   generateEnvVarCheck,
 } from './base-converter.js';
+import { useWebhookResponses, toHeaderRecord } from './webhook-routes.js';
 import { SupabaseNodeParameters, HttpRequestParameters, FirecrawlNodeParameters } from '../types/n8n.js';
 
 /**
@@ -1092,6 +1093,7 @@ export const splitOutConverter: NodeConverter = {
  */
 export const aggregateConverter: NodeConverter = {
   nodeTypes: ['n8n-nodes-base.aggregate'],
+  items: 'all',
 
   convert(node: ParsedNode, context: ConversionContext): ConversionResult {
     const params = node.parameters as Record<string, unknown>;
@@ -1145,61 +1147,52 @@ export const aggregateConverter: NodeConverter = {
  */
 export const respondToWebhookConverter: NodeConverter = {
   nodeTypes: ['n8n-nodes-base.respondToWebhook'],
+  items: 'all',
 
   convert(node: ParsedNode, context: ConversionContext): ConversionResult {
-    const params = node.parameters as Record<string, unknown>;
+    const params = node.parameters as Record<string, any>;
     const stepId = toStepId(node.name);
     const varName = toVariableName(node.name);
     const dataAccess = generateDataAccess(node, context);
 
     context.variableMap.set(node.name, varName);
+    useWebhookResponses(context);
 
     const respondWith = params.respondWith as string || 'json';
     const responseBody = params.responseBody as string || '';
-    const responseCode = params.responseCode as number || 200;
-
-    let code: string;
+    const responseCode = params.options?.responseCode as number || params.responseCode as number || 200;
+    const responseHeaders = toHeaderRecord(params.options?.responseHeaders);
 
+    let bodyCode: string;
     if (respondWith === 'json') {
-      const bodyCode = responseBody
+      const jsonCode = responseBody
         ? convertN8nExpression(responseBody, context)
         : `JSON.stringify(${dataAccess})`;
-
-      code = `
-      const data = ${dataAccess};
-
-      // In Inngest, webhook responses are handled via the function return
-      // This step prepares the response data
-      const responseData = ${bodyCode};
-
-      return {
-        statusCode: ${responseCode},
-        body: typeof responseData === 'string' ? JSON.parse(responseData) : responseData,
-      };
+      bodyCode = `
+      const responseData = ${jsonCode};
+      const body = typeof responseData === 'string' ? JSON.parse(responseData) : responseData;
       `.trim();
     } else if (respondWith === 'text') {
-      const bodyCode = responseBody
-        ? convertN8nExpression(responseBody, context)
-        : `String(${dataAccess})`;
-
-      code = `
-      const data = ${dataAccess};
-
-      return {
-        statusCode: ${responseCode},
-        body: ${bodyCode},
-      };
-      `.trim();
+      bodyCode = `const body = ${responseBody ? convertN8nExpression(responseBody, context) : `String(${dataAccess})`};`;
+    } else if (respondWith === 'noData') {
+      bodyCode = 'const body = undefined;';
     } else {
-      code = `
+      bodyCode = 'const body = data;';
+    }
+
+    // The ingress route waiting on this request (responseMode "responseNode") receives the response by its ID
+    const code = `
       const data = ${dataAccess};
+      ${bodyCode}
 
-      return {
-        statusCode: ${responseCode},
-        body: data,
+      const response: WebhookResponse = {
+        status: ${responseCode},
+        headers: ${JSON.stringify(responseHeaders)},
+        body,
       };
+      await n8nSendWebhookResponse(inputData.responseId, response);
+      return response;
       `.trim();
-    }
 
     return {
       steps: [{
@@ -1218,6 +1211,7 @@ export const respondToWebhookConverter: NodeConverter = {
  */
 export const itemListsConverter: NodeConverter = {
   nodeTypes: ['n8n-nodes-base.itemLists'],
+  items: 'all',
 
   convert(node: ParsedNode, context: ConversionContext): ConversionResult {
     const params = node.parameters as Record<string, unknown>;
@@ -1302,52 +1296,6 @@ export const itemListsConverter: NodeConverter = {
   },
 };
 
-/**
- * Loop Over Items (Split in Batches) Node Converter
- * Converts n8n splitInBatches node for batch processing
- */
-export const splitInBatchesConverter: NodeConverter = {
-  nodeTypes: ['n8n-nodes-base.splitInBatches'],
-
-  convert(node: ParsedNode, context: ConversionContext): ConversionResult {
-    const params = node.parameters as Record<string, unknown>;
-    const stepId = toStepId(node.name);
-    const varName = toVariableName(node.name);
-    const dataAccess = generateDataAccess(node, context);
-
-    context.variableMap.set(node.name, varName);
-
-    const batchSize = params.batchSize as number || 10;
-
-    const code = `
-      const items = Array.isArray(${dataAccess}) ? ${dataAccess} : [${dataAccess}];
-
-      // Split into batches
-      const batches = [];
-      for (let i = 0; i < items.length; i += ${batchSize}) {
-        batches.push(items.slice(i, i + ${batchSize}));
-      }
-
-      // Process each batch (in Inngest, consider using step.run for each batch)
-      const results = [];
-      for (const batch of batches) {
-        results.push(...batch);
-      }
-
-      return results;
-    `.trim();
-
-    return {
-      steps: [{
-        type: 'run',
-        id: stepId,
-        code,
-        comment: `Split in Batches (size: ${batchSize}): ${node.name}`,
-      }],
-    };
-  },
-};
-
 /**
  * DateTime Node Converter
  * Converts n8n DateTime node for date/time operations
@@ -1869,7 +1817,6 @@ export const integrationConverters: NodeConverter[] = [
   aggregateConverter,
   respondToWebhookConverter,
   itemListsConverter,
-  splitInBatchesConverter,
   dateTimeConverter,
   editImageConverter,
 ];
@@ -0,0 +1,70 @@
+/**
+ * Item Helpers
+ * With `itemSemantics` enabled, steps pass n8n items arrays (`{ json, binary }[]`) between each other
+ * and per-item nodes run once for every item, as in n8n
+ */
+
+import { ConversionContext } from './base-converter.js';
+import { ExpressionScope } from './expression-translator.js';
+
+/**
+ * Expression scope inside per-item code: `item` is the current item and `data` its JSON
+ */
+export const ITEM_SCOPE: ExpressionScope = { item: 'data', itemIndex: 'itemIndex', items: 'items' };
+
+/**
+ * Runtime helper normalizing any value to an items array
+ */
+export const TO_ITEMS_HELPER = `function n8nToItems(value: unknown): Array<{ json: any; binary?: any }> {
+  if (value === undefined || value === null) return [];
+  const values = Array.isArray(value) ? value : [value];
+  return values.map(v =>
+    typeof v === "object" && v !== null && "json" in v && typeof v.json === "object" ? v : { json: v }
+  );
+}`;
+
+/**
+ * Add the items helper to the generated code and wrap a value with it
+ */
+export function toItems(access: string, context: ConversionContext): string {
+  context.helpers.add(TO_ITEMS_HELPER);
+  return `n8nToItems(${access})`;
+}
+
+/**
+ * Run step code once per input item, collecting the results as items
+ * The code reads the current item as `item` and returns its output
+ */
+export function wrapEachItem(code: string, itemsAccess: string, context: ConversionContext): string {
+  return `const items = ${itemsAccess};
+const runItem = async (item: { json: any; binary?: any }, itemIndex: number) => {
+${indentBody(code)}
+};
+
+const results = [];
+for (let itemIndex = 0; itemIndex < items.length; itemIndex++) {
+  results.push(...${toItems('await runItem(items[itemIndex], itemIndex)', context)});
+}
+return results;`;
+}
+
+/**
+ * Run step code once for all input items and return its result as items
+ */
+export function wrapAllItems(code: string, context: ConversionContext): string {
+  return `const runNode = async () => {
+${indentBody(code)}
+};
+
+return ${toItems('await runNode()', context)};`;
+}
+
+/**
+ * Re-indent converter step code (continuation lines carry 6 spaces) as a function body
+ */
+export function indentBody(code: string): string {
+  return code
+    .split('\n')
+    .map(line => (line.trim() ? `  ${line.replace(/^ {6}/, '')}` : ''))
+    .join('\n');
+}
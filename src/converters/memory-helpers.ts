@@ -0,0 +1,156 @@
+/**
+ * Memory Helpers
+ * Translates n8n chat memory sub-nodes (Simple Memory, Postgres, Redis) to conversation history stores
+ */
+
+import { ParsedNode } from '../parser/workflow-parser.js';
+import { ConversionContext, toVariableName, convertN8nExpression } from './base-converter.js';
+
+/**
+ * Chat memory of an agent node
+ */
+export interface ChatMemory {
+  // Module-scope ChatMemoryStore holding the conversation history
+  store: string;
+  // Session key expression, reading the agent's input as `data`
+  sessionKey: string;
+  // Messages loaded before the agent runs
+  limit: number;
+}
+
+interface MemoryNodeParameters {
+  sessionIdType?: 'fromInput' | 'customKey';
+  sessionKey?: string;
+  contextWindowLength?: number;
+  tableName?: string;
+  sessionTTL?: number;
+}
+
+// History is stored in LangChain's message format, so conversations n8n already stored keep working
+const CHAT_MEMORY_HELPERS = `type ChatMessage = { role: "user" | "assistant"; content: string };
+
+type ChatMemoryStore = {
+  load(sessionKey: string, limit: number): Promise<ChatMessage[]>;
+  append(sessionKey: string, messages: ChatMessage[]): Promise<void>;
+};
+
+function n8nChatSessionKey(value: unknown): string {
+  if (value === undefined || value === null || value === "") {
+    throw new NonRetriableError("No session ID found for the chat memory");
+  }
+  return String(value);
+}
+
+function n8nToStoredMessage(message: ChatMessage): { type: string; data: { content: string } } {
+  return { type: message.role === "user" ? "human" : "ai", data: { content: message.content } };
+}
+
+function n8nFromStoredMessage(stored: { type: string; data: { content: string } }): ChatMessage {
+  return { role: stored.type === "human" ? "user" : "assistant", content: stored.data.content };
+}`;
+
+const IN_MEMORY_CHAT_MEMORY_HELPER = `function n8nInMemoryChatMemory(): ChatMemoryStore {
+  const sessions = new Map<string, ChatMessage[]>();
+  return {
+    async load(sessionKey, limit) {
+      return (sessions.get(sessionKey) ?? []).slice(-limit);
+    },
+    async append(sessionKey, messages) {
+      sessions.set(sessionKey, [...(sessions.get(sessionKey) ?? []), ...messages]);
+    },
+  };
+}`;
+
+const POSTGRES_CHAT_MEMORY_HELPER = `function n8nPostgresChatMemory(tableName: string): ChatMemoryStore {
+  const pool = new Pool({ connectionString: process.env.N8N_POSTGRES_URL });
+  let table: Promise<unknown> | undefined;
+  const ensureTable = () => (table ??= pool.query(
+    \`CREATE TABLE IF NOT EXISTS \${tableName} (id SERIAL PRIMARY KEY, session_id VARCHAR(255) NOT NULL, message JSONB NOT NULL)\`
+  ));
+  return {
+    async load(sessionKey, limit) {
+      await ensureTable();
+      const { rows } = await pool.query(
+        \`SELECT message FROM \${tableName} WHERE session_id = $1 ORDER BY id DESC LIMIT $2\`,
+        [sessionKey, limit]
+      );
+      return rows.reverse().map(row => n8nFromStoredMessage(row.message));
+    },
+    async append(sessionKey, messages) {
+      await ensureTable();
+      for (const message of messages) {
+        await pool.query(\`INSERT INTO \${tableName} (session_id, message) VALUES ($1, $2)\`, [sessionKey, n8nToStoredMessage(message)]);
+      }
+    },
+  };
+}`;
+
+const REDIS_CHAT_MEMORY_HELPER = `function n8nRedisChatMemory(ttlSeconds: number): ChatMemoryStore {
+  let client: Promise<ReturnType<typeof createClient>> | undefined;
+  const connect = () => (client ??= createClient({ url: process.env.N8N_REDIS_URL }).connect());
+  return {
+    async load(sessionKey, limit) {
+      const redis = await connect();
+      // Newest first, as LangChain's Redis history pushes them
+      const entries = await redis.lRange(sessionKey, 0, limit - 1);
+      return entries.reverse().map(entry => n8nFromStoredMessage(JSON.parse(entry)));
+    },
+    async append(sessionKey, messages) {
+      const redis = await connect();
+      for (const message of messages) {
+        await redis.lPush(sessionKey, JSON.stringify(n8nToStoredMessage(message)));
+      }
+      if (ttlSeconds > 0) await redis.expire(sessionKey, ttlSeconds);
+    },
+  };
+}`;
+
+/**
+ * Declare the history store of the memory node attached to an agent
+ * n8n's context window counts user/assistant pairs; the session key defaults to the chat's sessionId
+ */
+export function useChatMemory(
+  memoryNode: ParsedNode,
+  agentNode: ParsedNode,
+  context: ConversionContext
+): ChatMemory | undefined {
+  const params = memoryNode.parameters as MemoryNodeParameters;
+  const store = toVariableName(agentNode.name) + 'Memory';
+
+  let declaration: string;
+  switch (memoryNode.type) {
+    case '@n8n/n8n-nodes-langchain.memoryBufferWindow':
+      context.helpers.add(IN_MEMORY_CHAT_MEMORY_HELPER);
+      declaration = 'n8nInMemoryChatMemory()';
+      break;
+    case '@n8n/n8n-nodes-langchain.memoryPostgresChat':
+      context.imports.add('import { Pool } from "pg";');
+      context.helpers.add(POSTGRES_CHAT_MEMORY_HELPER);
+      declaration = `n8nPostgresChatMemory("${params.tableName || 'n8n_chat_histories'}")`;
+      break;
+    case '@n8n/n8n-nodes-langchain.memoryRedisChat':
+      context.imports.add('import { createClient } from "redis";');
+      context.helpers.add(REDIS_CHAT_MEMORY_HELPER);
+      declaration = `n8nRedisChatMemory(${params.sessionTTL ?? 0})`;
+      break;
+    default:
+      context.warnings.push(`Memory "${memoryNode.name}" (${memoryNode.type}) is not supported; agent "${agentNode.name}" runs without memory.`);
+      return undefined;
+  }
+
+  context.imports.add('import { NonRetriableError } from "inngest";');
+  context.helpers.add(CHAT_MEMORY_HELPERS);
+  context.helpers.add(`// Chat memory: ${memoryNode.name}\nconst ${store} = ${declaration};`);
+
+  // Before v1.2 the session key was always set on the node (default "chat_history")
+  const customKey = params.sessionIdType === 'customKey' || memoryNode.typeVersion < 1.2;
+  const sessionKey = customKey
+    ? convertN8nExpression(params.sessionKey ?? 'chat_history', context)
+    : 'data.sessionId';
+
+  return {
+    store,
+    sessionKey,
+    limit: (params.contextWindowLength ?? 5) * 2,
+  };
+}
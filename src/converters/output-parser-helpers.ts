@@ -0,0 +1,132 @@
+/**
+ * Output Parser Helpers
+ * Translates n8n Structured Output Parser sub-nodes to Zod schemas validating an agent's output,
+ * which is re-prompted for when it doesn't match (as n8n's Auto-fixing Output Parser does)
+ */
+
+import { ParsedNode } from '../parser/workflow-parser.js';
+import { ConversionContext, toVariableName } from './base-converter.js';
+import { JsonSchema, InferredShape, inferShape, renderShapeZod, jsonSchemaToZod } from './schema-inference.js';
+
+/**
+ * Structured output schema of an agent or parser node
+ */
+export interface OutputParser {
+  // Module-scope Zod schema of the output
+  schema: string;
+  // Format instructions for the model
+  instructions: string;
+}
+
+interface OutputParserParameters {
+  schemaType?: 'fromJson' | 'manual';
+  jsonSchemaExample?: string;
+  inputSchema?: string;
+  // Before v1.2
+  jsonSchema?: string;
+}
+
+// Re-prompts after an output fails validation
+export const OUTPUT_PARSER_RETRIES = 2;
+
+// The parsers' defaults, which exported workflows leave out
+const DEFAULT_SCHEMA_EXAMPLE = '{"state": "California", "cities": ["Los Angeles", "San Francisco", "San Diego"]}';
+const DEFAULT_JSON_SCHEMA = '{"type": "object", "properties": {"state": {"type": "string"}, "cities": {"type": "array", "items": {"type": "string"}}}}';
+
+const AUTOFIXING_OUTPUT_PARSER = '@n8n/n8n-nodes-langchain.outputParserAutofixing';
+
+const STRUCTURED_OUTPUT_HELPERS = `function n8nParseStructuredOutput<T>(schema: z.ZodType<T>, text: string): z.SafeParseReturnType<unknown, T> {
+  let value: unknown = text;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    // Models often wrap the JSON in prose or a code block
+    const json = text.match(/[{[][\\s\\S]*[}\\]]/)?.[0];
+    try {
+      if (json) value = JSON.parse(json);
+    } catch {
+      // Validated as text
+    }
+  }
+  return schema.safeParse(value);
+}
+
+function n8nOutputErrors(error: z.ZodError): string {
+  return error.issues.map(issue => \`\${issue.path.join(".") || "output"}: \${issue.message}\`).join("; ");
+}`;
+
+/**
+ * Declare the output schema of the parser attached to an agent
+ * The Auto-fixing Output Parser wraps the structured parser whose schema it enforces
+ */
+export function useOutputParser(
+  parserNode: ParsedNode,
+  agentNode: ParsedNode,
+  context: ConversionContext
+): OutputParser | undefined {
+  let structured: ParsedNode | undefined = parserNode;
+  if (parserNode.type === AUTOFIXING_OUTPUT_PARSER) {
+    const wrapped = parserNode.incomingConnections.find(c => c.connectionType === 'ai_outputParser');
+    structured = wrapped && context.allNodes.get(wrapped.nodeName);
+  }
+
+  if (structured?.type !== '@n8n/n8n-nodes-langchain.outputParserStructured') {
+    context.warnings.push(`Output parser "${parserNode.name}" (${structured?.type ?? parserNode.type}) is not supported; agent "${agentNode.name}" returns its text output.`);
+    return undefined;
+  }
+
+  return declareOutputSchema(structured, toVariableName(agentNode.name) + 'OutputSchema', context);
+}
+
+/**
+ * Declare a Structured Output Parser's schema at module scope, from its JSON example or JSON Schema
+ */
+export function declareOutputSchema(
+  parserNode: ParsedNode,
+  schema: string,
+  context: ConversionContext
+): OutputParser | undefined {
+  const params = parserNode.parameters as OutputParserParameters;
+  // Before v1.2 the parser only took a JSON Schema; since then it defaults to an example
+  const fromExample = parserNode.typeVersion >= 1.2 && params.schemaType !== 'manual';
+  const source = fromExample
+    ? params.jsonSchemaExample ?? DEFAULT_SCHEMA_EXAMPLE
+    : params.inputSchema ?? params.jsonSchema ?? DEFAULT_JSON_SCHEMA;
+
+  let value: unknown;
+  try {
+    value = JSON.parse(source);
+  } catch {
+    context.warnings.push(`Output parser "${parserNode.name}": the ${fromExample ? 'JSON example' : 'JSON Schema'} is not valid JSON; the output is not validated.`);
+    return undefined;
+  }
+
+  let zod: string;
+  if (fromExample) {
+    // Fields of the example are required from v1.3
+    const shape = inferShape(value);
+    if (parserNode.typeVersion < 1.3) markOptional(shape);
+    zod = renderShapeZod(shape);
+  } else {
+    zod = jsonSchemaToZod(value as JsonSchema);
+  }
+
+  context.imports.add('import { z } from "zod";');
+  context.helpers.add(STRUCTURED_OUTPUT_HELPERS);
+  context.helpers.add(`// Output parser: ${parserNode.name}\nconst ${schema} = ${zod};`);
+
+  return {
+    schema,
+    instructions: fromExample
+      ? `Respond only with JSON in the format of this example:\n${JSON.stringify(value)}`
+      : `Respond only with JSON that adheres to this JSON Schema:\n${JSON.stringify(value)}`,
+  };
+}
+
+function markOptional(shape: InferredShape): void {
+  shape.fields?.forEach(field => {
+    field.optional = true;
+    markOptional(field.shape);
+  });
+  if (shape.items) markOptional(shape.items);
+}
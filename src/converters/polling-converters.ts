@@ -0,0 +1,562 @@
+/**
+ * Polling Trigger Converters
+ * n8n polls some services for changes (Google Drive, Google Sheets, Airtable, IMAP mailboxes). Each becomes a cron function
+ * querying the source since a persisted cursor and sending one event per new item to the workflow function
+ */
+
+import { ParsedNode } from '../parser/workflow-parser.js';
+import {
+  AirtableTriggerParameters,
+  EmailReadImapParameters,
+  GoogleDriveTriggerParameters,
+  GoogleSheetsTriggerParameters,
+} from '../types/n8n.js';
+import { InngestRunStep } from '../types/inngest.js';
+import { ConversionContext, toStepId, toVariableName, generateEnvVarCheck, generateEnvVarChecks } from './base-converter.js';
+
+export interface PollingSource {
+  // Event name segment, e.g. "google-drive.file-created"
+  id: string;
+  label: string;
+  // Fields of the event data (one item)
+  eventFields: Record<string, string>;
+  cursorKey: string;
+  // Step code reading the cursor and returning { items: Array<{ id, data }>, cursor }
+  pollCode: string;
+  // Step code run once the events are sent (reads `poll`)
+  commitCode?: string;
+  // Event name shared by all sources of this kind, told apart by the trigger's `filter`
+  eventName?: string;
+  filter?: string;
+  // Step run first in the workflow function (reads `inputData`), bound to `variable`
+  setupStep?: { step: InngestRunStep; variable: string };
+}
+
+/**
+ * Pluggable store for poll cursors, file-backed by default
+ */
+const CURSOR_STORE_HELPER = `type PollCursorStore = {
+  get(key: string): Promise<any>;
+  set(key: string, cursor: unknown): Promise<void>;
+};
+
+export function createMemoryCursorStore(): PollCursorStore {
+  const cursors = new Map<string, unknown>();
+  return {
+    async get(key) {
+      return cursors.get(key);
+    },
+    async set(key, cursor) {
+      cursors.set(key, cursor);
+    },
+  };
+}
+
+export function createFileCursorStore(path: string): PollCursorStore {
+  const read = async (): Promise<Record<string, unknown>> => {
+    try {
+      return JSON.parse(await readFile(path, "utf8"));
+    } catch {
+      return {};
+    }
+  };
+  return {
+    async get(key) {
+      return (await read())[key];
+    },
+    async set(key, cursor) {
+      await writeFile(path, JSON.stringify({ ...(await read()), [key]: cursor }, null, 2));
+    },
+  };
+}
+
+let pollCursorStore: PollCursorStore = createFileCursorStore(process.env.N8N_POLL_CURSOR_FILE ?? ".n8n-poll-cursors.json");
+
+/**
+ * Keep poll cursors in a shared store (e.g. a database) when functions run on several machines
+ */
+export function setPollCursorStore(store: PollCursorStore): void {
+  pollCursorStore = store;
+}`;
+
+/**
+ * Runtime helper keeping the items changed since a time cursor, skipping those already sent at that time
+ */
+const NEW_SINCE_HELPER = `function n8nNewSince(
+  candidates: Array<{ id: string; time: string; data: unknown }>,
+  cursor: { time: string; ids: string[] } | undefined
+): { items: Array<{ id: string; data: unknown }>; cursor: { time: string; ids: string[] } } {
+  // The first poll only starts the cursor, as n8n does when a trigger is activated
+  if (!cursor) return { items: [], cursor: { time: new Date().toISOString(), ids: [] } };
+
+  const items = candidates.filter(c => c.time > cursor.time || (c.time === cursor.time && !cursor.ids.includes(c.id)));
+  const time = items.reduce((max, c) => (c.time > max ? c.time : max), cursor.time);
+  const ids = [...(time === cursor.time ? cursor.ids : []), ...items.filter(c => c.time === time).map(c => c.id)];
+  return { items: items.map(c => ({ id: \`\${c.id}-\${c.time}\`, data: c.data })), cursor: { time, ids } };
+}`;
+
+/**
+ * Add the cursor store to the generated code
+ */
+export function usePollCursorStore(context: ConversionContext): void {
+  context.imports.add('import { readFile, writeFile } from "node:fs/promises";');
+  context.helpers.add(CURSOR_STORE_HELPER);
+}
+
+/**
+ * Build the polling logic for a polling trigger node
+ */
+export function getPollingSource(node: ParsedNode, context: ConversionContext): PollingSource {
+  usePollCursorStore(context);
+  const cursorKey = `${toStepId(context.workflowName)}/${toStepId(node.name)}`;
+
+  switch (node.type) {
+    case 'n8n-nodes-base.googleSheetsTrigger':
+      return googleSheetsSource(node, cursorKey, context);
+    case 'n8n-nodes-base.airtableTrigger':
+      return airtableSource(node, cursorKey, context);
+    case 'n8n-nodes-base.emailReadImap':
+    case 'n8n-nodes-base.emailTrigger':
+      return emailSource(node, cursorKey, context);
+    default:
+      return googleDriveSource(node, cursorKey, context);
+  }
+}
+
+/**
+ * Google Drive: files (or folders) created or updated since the cursor
+ */
+function googleDriveSource(node: ParsedNode, cursorKey: string, context: ConversionContext): PollingSource {
+  const params = node.parameters as unknown as GoogleDriveTriggerParameters;
+  const event = params.event || 'fileCreated';
+  const triggerOn = params.triggerOn || 'anyFileFolder';
+  const timeField = event.endsWith('Created') ? 'createdTime' : 'modifiedTime';
+  context.helpers.add(NEW_SINCE_HELPER);
+
+  const conditions = [`${timeField} >= '\${since}'`, 'trashed = false'];
+  if (triggerOn === 'specificFolder') {
+    conditions.push(`'${resourceValue(params.folderToWatch)}' in parents`);
+  }
+  if (event.startsWith('folder')) {
+    conditions.push(`mimeType = 'application/vnd.google-apps.folder'`);
+  } else if (event.startsWith('file')) {
+    conditions.push(`mimeType != 'application/vnd.google-apps.folder'`);
+  }
+
+  const fields = 'id,name,mimeType,createdTime,modifiedTime,webViewLink,parents';
+  const listCode = triggerOn === 'specificFile'
+    ? `
+      const response = await fetch(
+        \`https://www.googleapis.com/drive/v3/files/${resourceValue(params.fileToWatch)}?fields=${fields}\`,
+        { headers: { "Authorization": \`Bearer \${process.env.N8N_GOOGLE_ACCESS_TOKEN}\` } }
+      );
+      if (!response.ok) {
+        throw new Error(\`[Google Drive:poll] Request failed: \${response.status} - \${await response.text()}\`);
+      }
+      const files = [await response.json()];`
+    : `
+      const params = new URLSearchParams({
+        q: \`${conditions.join(' and ')}\`,
+        orderBy: "${timeField}",
+        pageSize: "100",
+        fields: "files(${fields})",
+      });
+      const response = await fetch(\`https://www.googleapis.com/drive/v3/files?\${params}\`, {
+        headers: { "Authorization": \`Bearer \${process.env.N8N_GOOGLE_ACCESS_TOKEN}\` },
+      });
+      if (!response.ok) {
+        throw new Error(\`[Google Drive:poll] Request failed: \${response.status} - \${await response.text()}\`);
+      }
+      const { files = [] } = await response.json();`;
+
+  return {
+    id: `google-drive.${toKebabCase(event)}`,
+    label: 'Google Drive',
+    eventFields: {
+      id: 'string',
+      name: 'string',
+      mimeType: 'string',
+      createdTime: 'string',
+      modifiedTime: 'string',
+      webViewLink: 'string',
+    },
+    cursorKey,
+    pollCode: `
+      ${generateEnvVarCheck('N8N_GOOGLE_ACCESS_TOKEN', 'Google Drive')}
+
+      const cursor = await pollCursorStore.get("${cursorKey}");
+      const since = cursor?.time ?? new Date().toISOString();
+${listCode}
+
+      return n8nNewSince(files.map((file: any) => ({ id: file.id, time: file.${timeField}, data: file })), cursor);
+    `.trim(),
+  };
+}
+
+/**
+ * Google Sheets: rows added (by row count) or changed (by row hash) since the cursor
+ */
+function googleSheetsSource(node: ParsedNode, cursorKey: string, context: ConversionContext): PollingSource {
+  const params = node.parameters as unknown as GoogleSheetsTriggerParameters;
+  const event = params.event || 'rowAdded';
+  const documentId = resourceValue(params.documentId);
+  const sheetName = typeof params.sheetName === 'object' && params.sheetName.mode === 'list'
+    ? params.sheetName.cachedResultName || 'Sheet1'
+    : resourceValue(params.sheetName) || 'Sheet1';
+
+  let changesCode: string;
+  if (event === 'rowAdded') {
+    changesCode = `
+      // The first poll only starts the cursor, as n8n does when a trigger is activated
+      if (!cursor) return { items: [], cursor: { lastRow: rows.length + 1 } };
+
+      const items = rows
+        .filter(row => row.row_number > cursor.lastRow)
+        .map(row => ({ id: \`row-\${row.row_number}\`, data: row }));
+      return { items, cursor: { lastRow: Math.max(cursor.lastRow, rows.length + 1) } };`;
+  } else {
+    context.imports.add('import { createHash } from "node:crypto";');
+    changesCode = `
+      const hashes: Record<string, string> = Object.fromEntries(
+        rows.map(row => [row.row_number, createHash("sha1").update(JSON.stringify(row)).digest("hex")])
+      );
+      if (!cursor) return { items: [], cursor: { hashes } };
+
+      const items = rows
+        .filter(row => hashes[row.row_number] !== cursor.hashes[row.row_number])${event === 'rowUpdate' ? '\n        .filter(row => row.row_number in cursor.hashes)' : ''}
+        .map(row => ({ id: \`row-\${row.row_number}-\${hashes[row.row_number]}\`, data: row }));
+      return { items, cursor: { hashes } };`;
+  }
+
+  return {
+    id: `google-sheets.${toKebabCase(event)}`,
+    label: 'Google Sheets',
+    eventFields: {
+      row_number: 'number',
+      '[column: string]': 'unknown',
+    },
+    cursorKey,
+    pollCode: `
+      ${generateEnvVarCheck('N8N_GOOGLE_ACCESS_TOKEN', 'Google Sheets')}
+
+      const cursor = await pollCursorStore.get("${cursorKey}");
+      const response = await fetch(
+        \`https://sheets.googleapis.com/v4/spreadsheets/${documentId}/values/\${encodeURIComponent(${JSON.stringify(sheetName)})}\`,
+        { headers: { "Authorization": \`Bearer \${process.env.N8N_GOOGLE_ACCESS_TOKEN}\` } }
+      );
+      if (!response.ok) {
+        throw new Error(\`[Google Sheets:poll] Request failed: \${response.status} - \${await response.text()}\`);
+      }
+
+      // Rows as objects keyed by the header row, numbered as in the sheet
+      const { values = [] } = await response.json();
+      const [header = [], ...data] = values as string[][];
+      const rows = data.map((cells, index) => ({
+        row_number: index + 2,
+        ...Object.fromEntries(header.map((column, i) => [column, cells[i] ?? ""])),
+      }));
+${changesCode}
+    `.trim(),
+  };
+}
+
+/**
+ * Airtable: records whose trigger field (a last modified time) is after the cursor
+ */
+function airtableSource(node: ParsedNode, cursorKey: string, context: ConversionContext): PollingSource {
+  const params = node.parameters as unknown as AirtableTriggerParameters;
+  const baseId = resourceValue(params.baseId);
+  const tableId = resourceValue(params.tableId);
+  const triggerField = params.triggerField || 'Last Modified';
+  context.helpers.add(NEW_SINCE_HELPER);
+
+  return {
+    id: 'airtable.record-changed',
+    label: 'Airtable',
+    eventFields: {
+      id: 'string',
+      createdTime: 'string',
+      fields: 'Record<string, unknown>',
+    },
+    cursorKey,
+    pollCode: `
+      ${generateEnvVarCheck('N8N_AIRTABLE_TOKEN', 'Airtable')}
+
+      const cursor = await pollCursorStore.get("${cursorKey}");
+      const since = cursor?.time ?? new Date().toISOString();
+
+      const records: any[] = [];
+      let offset: string | undefined;
+      do {
+        const params = new URLSearchParams({ filterByFormula: \`NOT(IS_BEFORE({${triggerField}}, '\${since}'))\` });
+        if (offset) params.set("offset", offset);
+
+        const response = await fetch(\`https://api.airtable.com/v0/${baseId}/${tableId}?\${params}\`, {
+          headers: { "Authorization": \`Bearer \${process.env.N8N_AIRTABLE_TOKEN}\` },
+        });
+        if (!response.ok) {
+          throw new Error(\`[Airtable:poll] Request failed: \${response.status} - \${await response.text()}\`);
+        }
+        const page = await response.json();
+        records.push(...page.records);
+        offset = page.offset;
+      } while (offset);
+
+      return n8nNewSince(records.map(record => ({ id: record.id, time: record.fields[${JSON.stringify(triggerField)}], data: record })), cursor);
+    `.trim(),
+  };
+}
+
+/**
+ * Runtime helpers opening an IMAP connection and formatting address headers
+ */
+const IMAP_HELPERS = `async function n8nImapConnect(allowUnauthorizedCerts: boolean): Promise<ImapFlow> {
+  const client = new ImapFlow({
+    host: process.env.N8N_IMAP_HOST!,
+    port: Number(process.env.N8N_IMAP_PORT ?? 993),
+    secure: process.env.N8N_IMAP_SECURE !== "false",
+    auth: { user: process.env.N8N_IMAP_USER!, pass: process.env.N8N_IMAP_PASSWORD! },
+    tls: { rejectUnauthorized: !allowUnauthorizedCerts },
+    logger: false,
+  });
+  await client.connect();
+  return client;
+}
+
+function n8nAddressText(value: AddressObject | AddressObject[] | undefined): string {
+  return [value ?? []].flat().map(address => address.text).join(", ");
+}`;
+
+/**
+ * IMAP mailbox: messages matching the search criteria with a UID above the cursor
+ * Sends one `email/received` event per message; the trigger's `if` filter keeps the messages of this mailbox
+ */
+function emailSource(node: ParsedNode, cursorKey: string, context: ConversionContext): PollingSource {
+  const params = node.parameters as unknown as EmailReadImapParameters;
+  const mailbox = params.mailbox || 'INBOX';
+  const format = params.format || 'simple';
+  const markAsRead = (params.postProcessAction || 'read') === 'read';
+  const downloadAttachments = format === 'resolved' || (format === 'simple' && Boolean(params.downloadAttachments));
+  const allowUnauthorizedCerts = Boolean(params.options?.allowUnauthorizedCerts);
+  const searchTerms = imapSearchTerms(params.options?.customEmailConfig ?? '["UNSEEN"]', node, context);
+
+  context.imports.add('import { ImapFlow } from "imapflow";');
+  context.helpers.add(IMAP_HELPERS);
+  if (format !== 'raw') {
+    context.imports.add('import { simpleParser, type AddressObject } from "mailparser";');
+  }
+
+  const eventFields: Record<string, string> = { source: 'string', uid: 'number' };
+  let messageCode: string;
+  if (format === 'raw') {
+    eventFields.raw = 'string';
+    messageCode = `
+          items.push({
+            id: \`\${uidValidity}-\${uid}\`,
+            data: { source: "${cursorKey}", uid, raw: message.source.toString("base64") },
+          });`;
+  } else {
+    Object.assign(eventFields, {
+      messageId: 'string',
+      from: 'string',
+      to: 'string',
+      cc: 'string',
+      subject: 'string',
+      date: 'string',
+      textPlain: 'string',
+      textHtml: 'string',
+      ...(format === 'resolved' ? { headers: 'Record<string, string>' } : {}),
+      ...(downloadAttachments ? { attachments: 'Array<{ fileName: string; mimeType: string; size: number }>' } : {}),
+    });
+    const extraFields = [
+      ...(format === 'resolved'
+        ? ['headers: Object.fromEntries([...mail.headers].map(([key, value]) => [key, typeof value === "string" ? value : JSON.stringify(value)])),']
+        : []),
+      // Only the attachments' metadata: events are size-limited, the content is downloaded by the workflow function
+      ...(downloadAttachments
+        ? ['attachments: mail.attachments.map(a => ({ fileName: a.filename ?? "", mimeType: a.contentType, size: a.size })),']
+        : []),
+    ];
+    messageCode = `
+          const mail = await simpleParser(message.source);
+          items.push({
+            id: \`\${uidValidity}-\${uid}\`,
+            data: {
+              source: "${cursorKey}",
+              uid,
+              messageId: mail.messageId ?? "",
+              from: n8nAddressText(mail.from),
+              to: n8nAddressText(mail.to),
+              cc: n8nAddressText(mail.cc),
+              subject: mail.subject ?? "",
+              date: (mail.date ?? new Date()).toISOString(),
+              textPlain: mail.text ?? "",
+              textHtml: mail.html || "",${extraFields.map(field => `\n              ${field}`).join('')}
+            },
+          });`;
+  }
+
+  return {
+    id: 'email.received',
+    label: 'Email',
+    eventName: 'email/received',
+    filter: `event.data.source == '${cursorKey}'`,
+    eventFields,
+    cursorKey,
+    pollCode: `
+      ${generateEnvVarChecks([
+        { name: 'N8N_IMAP_HOST', service: 'IMAP' },
+        { name: 'N8N_IMAP_USER', service: 'IMAP' },
+        { name: 'N8N_IMAP_PASSWORD', service: 'IMAP' },
+      ])}
+
+      const cursor = await pollCursorStore.get("${cursorKey}");
+      const client = await n8nImapConnect(${allowUnauthorizedCerts});
+      const lock = await client.getMailboxLock(${JSON.stringify(mailbox)});
+      try {
+        // UIDs are only comparable while the mailbox keeps its UIDVALIDITY
+        const uidValidity = String(client.mailbox ? client.mailbox.uidValidity : "");
+        const lastUid: number = cursor?.uidValidity === uidValidity ? cursor.lastUid : 0;
+
+        const found = await client.search({ ${[...searchTerms, 'uid: `${lastUid + 1}:*`'].join(', ')} }, { uid: true });
+        const uids = (found || []).filter(uid => uid > lastUid);
+
+        const items = [];
+        for (const uid of uids) {
+          const message = await client.fetchOne(String(uid), { source: true }, { uid: true });
+          if (!message || !message.source) continue;
+${messageCode}
+        }
+        return { items, cursor: { uidValidity, lastUid: Math.max(lastUid, ...uids) } };
+      } finally {
+        lock.release();
+        await client.logout();
+      }
+    `.trim(),
+    ...(markAsRead ? { commitCode: `
+      // Mark the sent messages as read, as n8n does once it has read them
+      if (poll.items.length > 0) {
+        const client = await n8nImapConnect(${allowUnauthorizedCerts});
+        const lock = await client.getMailboxLock(${JSON.stringify(mailbox)});
+        try {
+          await client.messageFlagsAdd(poll.items.map(item => item.data.uid).join(","), ["\\\\Seen"], { uid: true });
+        } finally {
+          lock.release();
+          await client.logout();
+        }
+      }
+    `.trim() } : {}),
+    ...(downloadAttachments ? { setupStep: imapAttachmentsStep(node, cursorKey, mailbox, allowUnauthorizedCerts, context) } : {}),
+  };
+}
+
+/**
+ * Step downloading the attachments of the event's message, base64-encoded
+ * Reads the message again by UID, so it must still be in the mailbox
+ */
+function imapAttachmentsStep(
+  node: ParsedNode,
+  cursorKey: string,
+  mailbox: string,
+  allowUnauthorizedCerts: boolean,
+  context: ConversionContext
+): { step: InngestRunStep; variable: string } {
+  const id = `download-${toStepId(node.name)}-attachments`;
+  const variable = `${toVariableName(node.name)}Attachments`;
+  context.warnings.push(`Email Trigger "${node.name}": events carry the attachments' metadata; step "${id}" downloads their content into \`${variable}\`.`);
+
+  return {
+    variable,
+    step: {
+      type: 'run',
+      id,
+      comment: 'Download the attachments of the message',
+      code: `
+// Other triggers of the function send no attachments
+if (inputData.source !== "${cursorKey}" || !inputData.attachments?.length) return [];
+
+const client = await n8nImapConnect(${allowUnauthorizedCerts});
+const lock = await client.getMailboxLock(${JSON.stringify(mailbox)});
+try {
+  const message = await client.fetchOne(String(inputData.uid), { source: true }, { uid: true });
+  if (!message || !message.source) {
+    throw new Error(\`[Email:attachments] Message \${inputData.uid} is no longer in the mailbox\`);
+  }
+  const mail = await simpleParser(message.source);
+  return mail.attachments.map(a => ({ fileName: a.filename ?? "", mimeType: a.contentType, size: a.size, data: a.content.toString("base64") }));
+} finally {
+  lock.release();
+  await client.logout();
+}
+      `.trim(),
+    },
+  };
+}
+
+/**
+ * Convert n8n's IMAP search criteria (node-imap style, e.g. ["UNSEEN", ["SINCE", "May 20, 2024"]])
+ * to imapflow search query terms
+ */
+function imapSearchTerms(criteria: unknown, node: ParsedNode, context: ConversionContext): string[] {
+  let parsed: unknown = criteria;
+  if (typeof criteria === 'string') {
+    try {
+      parsed = JSON.parse(criteria);
+    } catch {
+      context.warnings.push(`Email Trigger "${node.name}": custom email rules are not valid JSON; searching unseen messages.`);
+      parsed = ['UNSEEN'];
+    }
+  }
+
+  const flags: Record<string, string> = {
+    ALL: 'all: true',
+    NEW: 'new: true',
+    SEEN: 'seen: true',
+    UNSEEN: 'seen: false',
+    FLAGGED: 'flagged: true',
+    UNFLAGGED: 'flagged: false',
+    ANSWERED: 'answered: true',
+    UNANSWERED: 'answered: false',
+    DELETED: 'deleted: true',
+    UNDELETED: 'deleted: false',
+    DRAFT: 'draft: true',
+  };
+  const dates: Record<string, string> = { SINCE: 'since', BEFORE: 'before', ON: 'on', SENTSINCE: 'sentSince', SENTBEFORE: 'sentBefore' };
+  const texts: Record<string, string> = { FROM: 'from', TO: 'to', CC: 'cc', BCC: 'bcc', SUBJECT: 'subject', BODY: 'body', TEXT: 'text' };
+
+  const terms: string[] = [];
+  for (const criterion of Array.isArray(parsed) ? parsed : [parsed]) {
+    const [name, ...args] = [criterion].flat().map(String);
+    const key = name.toUpperCase();
+    if (flags[key]) {
+      terms.push(flags[key]);
+    } else if (dates[key] && args[0]) {
+      terms.push(`${dates[key]}: new Date(${JSON.stringify(args[0])})`);
+    } else if (texts[key] && args[0]) {
+      terms.push(`${texts[key]}: ${JSON.stringify(args[0])}`);
+    } else if (key === 'HEADER' && args.length === 2) {
+      terms.push(`header: { ${JSON.stringify(args[0])}: ${JSON.stringify(args[1])} }`);
+    } else {
+      context.warnings.push(`Email Trigger "${node.name}": search criterion ${JSON.stringify(criterion)} is not supported and was ignored.`);
+    }
+  }
+
+  return terms;
+}
+
+/**
+ * Value of a resource locator parameter ({ mode, value }) or plain string
+ */
+function resourceValue(param: unknown): string {
+  if (param && typeof param === 'object' && 'value' in param) {
+    return String((param as { value: unknown }).value ?? '');
+  }
+  return typeof param === 'string' ? param : '';
+}
+
+/**
+ * fileCreated -> file-created
+ */
+function toKebabCase(value: string): string {
+  return toStepId(value.replace(/([a-z0-9])([A-Z])/g, '$1 $2'));
+}
@@ -0,0 +1,290 @@
+/**
+ * RAG Converters
+ * Vector store nodes insert documents (split → embed → upsert) or get the most similar ones;
+ * as sub-nodes they are searched by the Question and Answer Chain and the vector store tools
+ */
+
+import { ParsedNode } from '../parser/workflow-parser.js';
+import {
+  NodeConverter,
+  ConversionContext,
+  ConversionResult,
+  toStepId,
+  toVariableName,
+  convertN8nExpression,
+  generateDataAccess,
+  generateEnvVarCheck,
+} from './base-converter.js';
+import {
+  VECTOR_STORE_NODE_TYPES,
+  DEFAULT_TOP_K,
+  useVectorStore,
+  generateDocuments,
+  vectorStoreSubNodes,
+  findSubNode,
+} from './vector-store-helpers.js';
+
+interface VectorStoreNodeParameters {
+  mode?: 'load' | 'insert' | 'retrieve' | 'retrieve-as-tool' | 'update';
+  prompt?: string;
+  topK?: number;
+  includeDocumentMetadata?: boolean;
+  clearStore?: boolean;
+  toolName?: string;
+  toolDescription?: string;
+  options?: {
+    clearNamespace?: boolean;
+  };
+}
+
+interface RetrievalQaParameters {
+  promptType?: 'auto' | 'define';
+  text?: string;
+  // Before v1.4
+  query?: string;
+  options?: {
+    systemPromptTemplate?: string;
+  };
+}
+
+const DEFAULT_QA_SYSTEM_PROMPT = `You are an assistant for question-answering tasks. Use the following pieces of retrieved context to answer the question.
+If you don't know the answer, just say that you don't know, don't try to make up an answer.
+----------------
+Context: {context}`;
+
+/**
+ * Vector Store Node Converter
+ * In Retrieve modes the node is a sub-node of a chain, retriever or agent and emits no steps
+ */
+export const vectorStoreConverter: NodeConverter = {
+  nodeTypes: VECTOR_STORE_NODE_TYPES,
+  items: 'all',
+
+  convert(node: ParsedNode, context: ConversionContext): ConversionResult {
+    const params = node.parameters as VectorStoreNodeParameters;
+    const mode = params.mode ?? 'retrieve';
+    if (mode === 'retrieve' || mode === 'retrieve-as-tool') {
+      return { steps: [] };
+    }
+
+    const stepId = toStepId(node.name);
+    const varName = toVariableName(node.name);
+    const dataAccess = generateDataAccess(node, context);
+    const subNodes = vectorStoreSubNodes(node, context);
+
+    const vectorStore = mode === 'update' ? undefined : useVectorStore(node, context);
+    if (!vectorStore) {
+      if (mode === 'update') {
+        context.warnings.push(`Vector store "${node.name}": updating documents is not supported; the node passes its input through.`);
+      }
+      context.variableMap.set(node.name, dataAccess);
+      return { steps: [], subNodes };
+    }
+    const { store, embeddings } = vectorStore;
+
+    context.variableMap.set(node.name, varName);
+
+    let code: string;
+    if (mode === 'insert') {
+      const clear = params.clearStore || params.options?.clearNamespace;
+      code = `
+      const input = ${dataAccess};
+      const items: any[] = Array.isArray(input) ? input : [input];
+      const documents = items.flatMap((data) => ${generateDocuments(node, context)});
+${clear ? `
+      await ${store}.clear?.();
+` : ''}
+      await n8nAddDocuments(${store}, ${embeddings}, documents);
+      return documents;
+      `.trim();
+    } else {
+      // Get Many: the documents most similar to the prompt of each item
+      const prompt = convertN8nExpression(params.prompt ?? '', context);
+      const document = params.includeDocumentMetadata === false ? 'document: { pageContent: document.pageContent }' : 'document';
+      code = `
+      const input = ${dataAccess};
+      const items: any[] = Array.isArray(input) ? input : [input];
+      const results: Array<{ document: Partial<VectorDocument>; score: number }> = [];
+
+      for (const data of items) {
+        const matches = await n8nSimilaritySearch(${store}, ${embeddings}, String(${prompt}), ${params.topK ?? DEFAULT_TOP_K});
+        results.push(...matches.map(({ document, score }) => ({ ${document}, score })));
+      }
+
+      return results;
+      `.trim();
+    }
+
+    return {
+      steps: [{
+        type: 'run',
+        id: stepId,
+        code,
+        comment: `Vector Store (${mode === 'insert' ? 'Insert Documents' : 'Get Many'}): ${node.name}`,
+      }],
+      subNodes,
+    };
+  },
+};
+
+/**
+ * Question and Answer Chain Converter
+ * Answers the question with the documents of the connected retriever as context
+ */
+export const retrievalQaConverter: NodeConverter = {
+  nodeTypes: ['@n8n/n8n-nodes-langchain.chainRetrievalQa'],
+
+  convert(node: ParsedNode, context: ConversionContext): ConversionResult {
+    const params = node.parameters as RetrievalQaParameters;
+    const stepId = toStepId(node.name);
+    const varName = toVariableName(node.name);
+    const dataAccess = generateDataAccess(node, context);
+
+    context.variableMap.set(node.name, varName);
+
+    const retriever = findSubNode(node, 'ai_retriever', context);
+    const storeNode = retriever?.type === '@n8n/n8n-nodes-langchain.retrieverVectorStore'
+      ? findSubNode(retriever, 'ai_vectorStore', context)
+      : undefined;
+    const vectorStore = storeNode && useVectorStore(storeNode, context);
+    if (!retriever || !storeNode || !vectorStore) {
+      if (!retriever) {
+        context.warnings.push(`Question and Answer Chain "${node.name}" has no retriever connected; it passes its input through.`);
+      } else if (!storeNode) {
+        context.warnings.push(`Retriever "${retriever.name}" (${retriever.type}) is not supported; connect a Vector Store Retriever to "${node.name}".`);
+      }
+      context.variableMap.set(node.name, dataAccess);
+      return { steps: [] };
+    }
+
+    const query = params.promptType === 'define' && params.text
+      ? convertN8nExpression(params.text, context)
+      : node.typeVersion < 1.4
+        ? convertN8nExpression(params.query ?? '={{ $json.input }}', context)
+        : 'data.chatInput';
+    const topK = (retriever.parameters.topK as number | undefined) ?? DEFAULT_TOP_K;
+    const systemPrompt = params.options?.systemPromptTemplate || DEFAULT_QA_SYSTEM_PROMPT;
+    const model = chatModelName(findSubNode(node, 'ai_languageModel', context));
+
+    // Before v1.5 the chain returned LangChain's { text } output
+    const response = node.typeVersion < 1.5 ? '{ text: output }' : 'output';
+
+    const code = `
+      const data: any = ${dataAccess};
+      const query = String(${query});
+
+      ${generateEnvVarCheck('N8N_OPENAI_API_KEY', 'OpenAI')}
+
+      // The most similar documents are the context of the answer
+      const matches = await n8nSimilaritySearch(${vectorStore.store}, ${vectorStore.embeddings}, query, ${topK});
+      const documents = matches.map(({ document }) => document.pageContent).join("\\n\\n");
+
+      const response = await fetch("https://api.openai.com/v1/chat/completions", {
+        method: "POST",
+        headers: {
+          "Authorization": \`Bearer \${process.env.N8N_OPENAI_API_KEY}\`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          model: "${model}",
+          messages: [
+            { role: "system", content: ${JSON.stringify(systemPrompt)}.replace("{context}", () => documents) },
+            { role: "user", content: query },
+          ],
+        }),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(\`[QuestionAndAnswerChain] Request failed: \${response.status} - \${errorText}\`);
+      }
+
+      const result = await response.json();
+      const output = result.choices?.[0]?.message?.content;
+      return { response: ${response} };
+    `.trim();
+
+    return {
+      steps: [{
+        type: 'run',
+        id: stepId,
+        code,
+        comment: `Question and Answer Chain: ${node.name}`,
+      }],
+      subNodes: [retriever.name, storeNode.name, ...vectorStoreSubNodes(storeNode, context)],
+    };
+  },
+};
+
+/**
+ * Embeddings, Document Loader, Text Splitter and Retriever Converter
+ * They are used by the vector store or chain they are connected to; the nodes emit no steps
+ */
+export const ragSubNodeConverter: NodeConverter = {
+  nodeTypes: [
+    '@n8n/n8n-nodes-langchain.embeddingsOpenAi',
+    '@n8n/n8n-nodes-langchain.embeddingsOllama',
+    '@n8n/n8n-nodes-langchain.documentDefaultDataLoader',
+    '@n8n/n8n-nodes-langchain.textSplitterRecursiveCharacterTextSplitter',
+    '@n8n/n8n-nodes-langchain.retrieverVectorStore',
+    '@n8n/n8n-nodes-langchain.toolVectorStore',
+  ],
+
+  convert(): ConversionResult {
+    return {
+      steps: [], // Configuration only
+    };
+  },
+};
+
+/**
+ * Module-scope AgentKit tool searching a vector store, for the Vector Store Tool and
+ * vector store nodes in "Retrieve Documents (As Tool)" mode
+ * The search runs in step.run when AgentKit passes the handler `step`
+ */
+export function generateVectorStoreTool(toolNode: ParsedNode, context: ConversionContext): string | undefined {
+  const params = toolNode.parameters as VectorStoreNodeParameters & { name?: string; description?: string };
+  const isStoreNode = VECTOR_STORE_NODE_TYPES.includes(toolNode.type);
+  const storeNode = isStoreNode ? toolNode : findSubNode(toolNode, 'ai_vectorStore', context);
+  const vectorStore = storeNode && useVectorStore(storeNode, context);
+  if (!vectorStore) {
+    if (!storeNode) {
+      context.warnings.push(`Vector Store Tool "${toolNode.name}" has no vector store connected.`);
+    }
+    return undefined;
+  }
+
+  const name = (isStoreNode ? params.toolName : params.name) || toolNode.name;
+  const description = (isStoreNode ? params.toolDescription : params.description) || `Search the ${name} documents`;
+
+  return `
+const ${toVariableName(toolNode.name)}Tool = createTool({
+  name: "${name.replace(/[^A-Za-z0-9_-]/g, '_')}",
+  description: ${JSON.stringify(description)},
+  parameters: z.object({
+    query: z.string().describe("What to search the documents for"),
+  }),
+  handler: async ({ query }, { step }) => {
+    const run = async () => (await n8nSimilaritySearch(${vectorStore.store}, ${vectorStore.embeddings}, query, ${params.topK ?? DEFAULT_TOP_K})).map(({ document }) => document);
+    return step ? step.run("${toStepId(toolNode.name)}", run) : run();
+  },
+});
+  `.trim();
+}
+
+/**
+ * Model of the chat model sub-node when it is an OpenAI model
+ */
+function chatModelName(llmNode: ParsedNode | undefined): string {
+  const model = llmNode?.type === '@n8n/n8n-nodes-langchain.lmChatOpenAi'
+    ? llmNode.parameters.model as string | { value?: string } | undefined
+    : undefined;
+  return (typeof model === 'object' ? model.value : model) || 'gpt-4o';
+}
+
+// Export all converters
+export const ragConverters: NodeConverter[] = [
+  vectorStoreConverter,
+  retrievalQaConverter,
+  ragSubNodeConverter,
+];
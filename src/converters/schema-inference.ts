@@ -0,0 +1,342 @@
+/**
+ * Schema Inference
+ * Infers the shape of a trigger's output from its pinned sample data (`pinData`) and the
+ * paths downstream expressions read from it, and renders it as a TypeScript type or Zod schema
+ * Output parsers' JSON Schemas are rendered as Zod schemas too
+ */
+
+import { ParsedNode } from '../parser/workflow-parser.js';
+import { ConversionContext } from './base-converter.js';
+
+export interface InferredShape {
+  // Primitive types seen: 'string' | 'number' | 'boolean' | 'null'
+  primitives: Set<string>;
+  fields?: Map<string, InferredField>;
+  // Shape of array elements
+  items?: InferredShape;
+}
+
+export interface InferredField {
+  shape: InferredShape;
+  optional: boolean;
+}
+
+/**
+ * The subset of JSON Schema rendered to Zod
+ */
+export interface JsonSchema {
+  type?: string | string[];
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: unknown[];
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+}
+
+// Property accessors after `.json`: .name, ["name"], ['name'] or [0]
+const PATH_PATTERN = String.raw`((?:\??\.[A-Za-z_$][\w$]*|\[\s*(?:'[^']*'|"[^"]*"|\d+)\s*\])*)(\s*\()?`;
+const SEGMENT_PATTERN = /\.([A-Za-z_$][\w$]*)|\[\s*(?:'([^']*)'|"([^"]*)"|(\d+))\s*\]/g;
+
+/**
+ * Infer the shape of a trigger's output JSON, or undefined when nothing is known about it
+ */
+export function inferTriggerShape(node: ParsedNode, context: ConversionContext): InferredShape | undefined {
+  const samples = (context.pinData?.[node.name] ?? []).map(item =>
+    item && typeof item === 'object' && 'json' in item ? item.json : item
+  );
+  const paths = collectReferencedPaths(node, context);
+  if (samples.length === 0 && paths.length === 0) {
+    return undefined;
+  }
+
+  const shape = samples.map(inferShape).reduce(mergeShapes, emptyShape());
+  paths.forEach(path => addPath(shape, path));
+  return shape;
+}
+
+/**
+ * Paths of the trigger's output read by expressions: `$('Trigger').item.json.a.b`
+ * anywhere, and `$json.a.b` in the nodes it feeds
+ */
+export function collectReferencedPaths(trigger: ParsedNode, context: ConversionContext): string[][] {
+  const name = escapeRegExp(trigger.name);
+  const byName = [
+    String.raw`\$\(\s*(['"])${name}\1\s*\)(?:\.item|\.first\(\)|\.last\(\)|\.all\(\)\[\d+\])?\.json`,
+    String.raw`\$node\[\s*(['"])${name}\1\s*\]\.json`,
+  ];
+  const direct = [String.raw`()\$json`, String.raw`()\$input\.(?:item|first\(\)|last\(\))\.json`];
+
+  const paths: string[][] = [];
+  context.allNodes.forEach(node => {
+    const fedByTrigger = node.incomingConnections.some(c => c.nodeName === trigger.name);
+    const prefixes = fedByTrigger ? [...byName, ...direct] : byName;
+    const text = collectStrings(node.parameters).join('\n');
+
+    for (const prefix of prefixes) {
+      for (const match of text.matchAll(new RegExp(prefix + PATH_PATTERN, 'g'))) {
+        const segments = [...match[2].matchAll(SEGMENT_PATTERN)].map(s => (s[4] !== undefined ? '[]' : s[1] ?? s[2] ?? s[3]));
+        // A trailing method call is not a field: $json.name.toUpperCase()
+        if (match[3]) segments.pop();
+        if (segments.length > 0) paths.push(segments);
+      }
+    }
+  });
+
+  return paths;
+}
+
+/**
+ * Shape of a sample value
+ */
+export function inferShape(value: unknown): InferredShape {
+  if (value === null || value === undefined) {
+    return { primitives: new Set(['null']) };
+  }
+  if (Array.isArray(value)) {
+    return { primitives: new Set(), items: value.map(inferShape).reduce(mergeShapes, emptyShape()) };
+  }
+  if (typeof value === 'object') {
+    const fields = new Map<string, InferredField>();
+    Object.entries(value).forEach(([key, v]) => fields.set(key, { shape: inferShape(v), optional: false }));
+    return { primitives: new Set(), fields };
+  }
+  return { primitives: new Set([typeof value]) };
+}
+
+/**
+ * Shape covering two shapes; fields missing from one object become optional
+ */
+export function mergeShapes(a: InferredShape, b: InferredShape): InferredShape {
+  if (isEmpty(a)) return b;
+  if (isEmpty(b)) return a;
+
+  const merged: InferredShape = { primitives: new Set([...a.primitives, ...b.primitives]) };
+
+  if (a.fields && b.fields) {
+    merged.fields = new Map();
+    for (const key of new Set([...a.fields.keys(), ...b.fields.keys()])) {
+      const fieldA = a.fields.get(key);
+      const fieldB = b.fields.get(key);
+      merged.fields.set(key, {
+        shape: mergeShapes(fieldA?.shape ?? emptyShape(), fieldB?.shape ?? emptyShape()),
+        optional: !fieldA || !fieldB || fieldA.optional || fieldB.optional,
+      });
+    }
+  } else {
+    merged.fields = a.fields ?? b.fields;
+  }
+
+  if (a.items || b.items) {
+    merged.items = mergeShapes(a.items ?? emptyShape(), b.items ?? emptyShape());
+  }
+
+  return merged;
+}
+
+/**
+ * Make sure a field path exists in a shape (paths read by expressions are expected to be set)
+ */
+export function addPath(shape: InferredShape, path: string[]): void {
+  const [segment, ...rest] = path;
+  if (segment === undefined) return;
+
+  let next: InferredShape;
+  if (segment === '[]') {
+    shape.items ??= emptyShape();
+    next = shape.items;
+  } else {
+    shape.fields ??= new Map();
+    const field = shape.fields.get(segment) ?? { shape: emptyShape(), optional: false };
+    shape.fields.set(segment, field);
+    next = field.shape;
+  }
+  addPath(next, rest);
+}
+
+/**
+ * Render a shape as a TypeScript type, nested object lines indented from `indent`
+ */
+export function renderShapeType(shape: InferredShape, indent = 0): string {
+  const pad = ' '.repeat(indent);
+  const types: string[] = [];
+
+  if (shape.fields) {
+    types.push(shape.fields.size === 0
+      ? 'Record<string, unknown>'
+      : `{\n${Array.from(shape.fields.entries())
+        .map(([key, field]) => `${pad}  ${toPropertyKey(key)}${field.optional ? '?' : ''}: ${renderShapeType(field.shape, indent + 2)};`)
+        .join('\n')}\n${pad}}`);
+  }
+  if (shape.items) {
+    const element = renderShapeType(shape.items, indent);
+    types.push(element.includes(' | ') ? `Array<${element}>` : `${element}[]`);
+  }
+  types.push(...shape.primitives);
+
+  return types.length > 0 ? types.join(' | ') : 'unknown';
+}
+
+/**
+ * Render a shape as a Zod schema expression
+ */
+export function renderShapeZod(shape: InferredShape, indent = 0): string {
+  const pad = ' '.repeat(indent);
+  const schemas: string[] = [];
+
+  if (shape.fields) {
+    schemas.push(shape.fields.size === 0
+      ? 'z.record(z.unknown())'
+      : `z.object({\n${Array.from(shape.fields.entries())
+        .map(([key, field]) => `${pad}  ${toPropertyKey(key)}: ${renderShapeZod(field.shape, indent + 2)}${field.optional ? '.optional()' : ''},`)
+        .join('\n')}\n${pad}})`);
+  }
+  if (shape.items) {
+    schemas.push(`z.array(${renderShapeZod(shape.items, indent)})`);
+  }
+  shape.primitives.forEach(primitive => schemas.push(`z.${primitive}()`));
+
+  if (schemas.length === 0) return 'z.unknown()';
+  return schemas.length === 1 ? schemas[0] : `z.union([${schemas.join(', ')}])`;
+}
+
+/**
+ * Convert a TypeScript type written by a trigger converter to a Zod schema expression
+ * Covers the types triggers declare: primitives, string literals, Record<string, T>, arrays and object literals
+ */
+export function typeToZod(type: string, indent = 0): string {
+  const t = type.trim();
+  const pad = ' '.repeat(indent);
+
+  if (/^"[^"]*"$/.test(t)) {
+    return `z.literal(${t})`;
+  }
+  if (['string', 'number', 'boolean', 'unknown', 'null'].includes(t)) {
+    return `z.${t}()`;
+  }
+  const record = t.match(/^Record<string,\s*(.+)>$/);
+  if (record) {
+    return `z.record(${typeToZod(record[1], indent)})`;
+  }
+  const array = t.match(/^Array<(.+)>$/) ?? t.match(/^([\w.]+)\[\]$/);
+  if (array) {
+    return `z.array(${typeToZod(array[1], indent)})`;
+  }
+  if (t.startsWith('{') && t.endsWith('}')) {
+    const members = splitMembers(t.slice(1, -1));
+    const indexed = members.find(m => m.key.startsWith('['));
+    const properties = members
+      .filter(m => !m.key.startsWith('['))
+      .map(m => `${pad}  ${m.key.replace(/\?$/, '')}: ${typeToZod(m.type, indent + 2)}${m.key.endsWith('?') ? '.optional()' : ''},`);
+    const object = properties.length > 0 ? `z.object({\n${properties.join('\n')}\n${pad}})` : 'z.object({})';
+    return indexed ? `${object}.catchall(${typeToZod(indexed.type, indent)})` : object;
+  }
+
+  return 'z.any()';
+}
+
+/**
+ * Convert a JSON Schema (as output parsers define their structure) to a Zod schema expression
+ */
+export function jsonSchemaToZod(schema: JsonSchema, indent = 0): string {
+  const pad = ' '.repeat(indent);
+  const describe = schema.description ? `.describe(${JSON.stringify(schema.description)})` : '';
+  const options = schema.anyOf ?? schema.oneOf;
+
+  if (schema.enum && schema.enum.length > 0) {
+    const literals = schema.enum.map(value => `z.literal(${JSON.stringify(value)})`);
+    const zod = schema.enum.every(value => typeof value === 'string')
+      ? `z.enum([${schema.enum.map(value => JSON.stringify(value)).join(', ')}])`
+      : literals.length === 1 ? literals[0] : `z.union([${literals.join(', ')}])`;
+    return zod + describe;
+  }
+  if (options && options.length > 0) {
+    const schemas = options.map(option => jsonSchemaToZod(option, indent));
+    return (schemas.length === 1 ? schemas[0] : `z.union([${schemas.join(', ')}])`) + describe;
+  }
+  if (Array.isArray(schema.type)) {
+    const schemas = schema.type.map(type => jsonSchemaToZod({ ...schema, type, description: undefined }, indent));
+    return (schemas.length === 1 ? schemas[0] : `z.union([${schemas.join(', ')}])`) + describe;
+  }
+
+  const type = schema.type ?? (schema.properties ? 'object' : schema.items ? 'array' : undefined);
+  switch (type) {
+    case 'object': {
+      const properties = Object.entries(schema.properties ?? {});
+      if (properties.length === 0) return `z.record(z.unknown())${describe}`;
+      const required = new Set(schema.required ?? []);
+      return `z.object({\n${properties
+        .map(([key, property]) => `${pad}  ${toPropertyKey(key)}: ${jsonSchemaToZod(property, indent + 2)}${required.has(key) ? '' : '.optional()'},`)
+        .join('\n')}\n${pad}})${describe}`;
+    }
+    case 'array':
+      return `z.array(${schema.items ? jsonSchemaToZod(schema.items, indent) : 'z.unknown()'})${describe}`;
+    case 'integer':
+      return `z.number().int()${describe}`;
+    case 'string':
+    case 'number':
+    case 'boolean':
+    case 'null':
+      return `z.${type}()${describe}`;
+    default:
+      return `z.unknown()${describe}`;
+  }
+}
+
+/**
+ * Object type members (`key: type`), split on top-level semicolons
+ */
+function splitMembers(body: string): Array<{ key: string; type: string }> {
+  const members: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of body) {
+    if (char === '{' || char === '<') depth++;
+    if (char === '}' || char === '>') depth--;
+    if (char === ';' && depth === 0) {
+      members.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  members.push(current);
+
+  return members
+    .map(member => member.trim())
+    .filter(Boolean)
+    .map(member => {
+      const colon = member.startsWith('[') ? member.indexOf(':', member.indexOf(']')) : member.indexOf(':');
+      return { key: member.slice(0, colon).trim(), type: member.slice(colon + 1).trim() };
+    });
+}
+
+/**
+ * Every string in a parameter tree
+ */
+function collectStrings(value: unknown): string[] {
+  if (typeof value === 'string') return [value];
+  if (Array.isArray(value)) return value.flatMap(collectStrings);
+  if (value && typeof value === 'object') return Object.values(value).flatMap(collectStrings);
+  return [];
+}
+
+function emptyShape(): InferredShape {
+  return { primitives: new Set() };
+}
+
+function isEmpty(shape: InferredShape): boolean {
+  return shape.primitives.size === 0 && !shape.fields && !shape.items;
+}
+
+/**
+ * Object type key, quoted unless it is an identifier
+ */
+export function toPropertyKey(key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,142 @@
+/**
+ * Sub-workflow Converters
+ * Execute Workflow nodes invoke the function converted from the target workflow's Execute Workflow Trigger,
+ * or send its event when they don't wait for the sub-workflow to finish
+ */
+
+import { ParsedNode } from '../parser/workflow-parser.js';
+import { ExecuteWorkflowParameters } from '../types/n8n.js';
+import { WorkflowReference } from '../types/inngest.js';
+import {
+  NodeConverter,
+  ConversionContext,
+  ConversionResult,
+  toStepId,
+  toVariableName,
+  convertN8nExpression,
+  generateDataAccess,
+  generateItemsAccess,
+} from './base-converter.js';
+import { subWorkflowFunctionId, subWorkflowEventName } from './trigger-converters.js';
+import { toPropertyKey } from './schema-inference.js';
+
+/**
+ * Execute Workflow Node Converter
+ */
+export const executeWorkflowConverter: NodeConverter = {
+  nodeTypes: ['n8n-nodes-base.executeWorkflow'],
+  items: 'native',
+
+  convert(node: ParsedNode, context: ConversionContext): ConversionResult {
+    const params = node.parameters as unknown as ExecuteWorkflowParameters;
+    const stepId = toStepId(node.name);
+    const input = generateDataAccess(node, context);
+    const target = resolveSubWorkflow(node, params, context);
+
+    if (!target) {
+      context.variableMap.set(node.name, input);
+      return { steps: [] };
+    }
+
+    const data = generateSubWorkflowInput(node, params, context);
+
+    // Without waiting, the sub-workflow starts from its event and the node passes its input through
+    if (params.options?.waitForSubWorkflow === false) {
+      const eventName = subWorkflowEventName(target.name, context);
+      context.variableMap.set(node.name, input);
+      return {
+        steps: [{
+          type: 'sendEvent',
+          id: stepId,
+          eventName,
+          data: `{ name: "${eventName}", data: ${data} }`,
+          comment: `Execute Workflow (without waiting): ${target.name}`,
+        }],
+      };
+    }
+
+    // Functions of other workflows are in their own app
+    const appId = target.name === context.workflowName ? '' : `appId: "${toStepId(target.name)}", `;
+    context.imports.add('import { referenceFunction } from "inngest";');
+    context.variableMap.set(node.name, `${toVariableName(stepId)}Result`);
+
+    return {
+      steps: [{
+        type: 'invoke',
+        id: stepId,
+        functionId: `referenceFunction({ ${appId}functionId: "${subWorkflowFunctionId(target.name)}" })`,
+        data,
+        comment: `Execute Workflow: ${target.name}`,
+      }],
+    };
+  },
+};
+
+/**
+ * The workflow an Execute Workflow node runs, by ID or name among the workflows converted together,
+ * or by the name n8n cached for it
+ */
+function resolveSubWorkflow(
+  node: ParsedNode,
+  params: ExecuteWorkflowParameters,
+  context: ConversionContext
+): WorkflowReference | undefined {
+  if (params.source && params.source !== 'database') {
+    context.warnings.push(`Execute Workflow "${node.name}": workflows from source "${params.source}" are not supported; convert the sub-workflow and select it by ID.`);
+    return undefined;
+  }
+
+  const locator = typeof params.workflowId === 'object' ? params.workflowId : { value: params.workflowId };
+  const id = String(locator?.value ?? '');
+  if (id.startsWith('=')) {
+    context.warnings.push(`Execute Workflow "${node.name}": the workflow is chosen by an expression and cannot be resolved; the node passes its input through.`);
+    return undefined;
+  }
+
+  const workflows: WorkflowReference[] = [
+    { id: context.workflowId, name: context.workflowName },
+    ...(context.options.workflows ?? []),
+  ];
+  const target = workflows.find(w => w.id && w.id === id)
+    ?? workflows.find(w => w.name === id || w.name === locator?.cachedResultName);
+  if (target) return target;
+
+  if (locator?.cachedResultName) {
+    context.warnings.push(`Execute Workflow "${node.name}": workflow "${locator.cachedResultName}" was not among the converted workflows; convert it too so the invoked function exists.`);
+    return { id, name: locator.cachedResultName };
+  }
+  context.warnings.push(`Execute Workflow "${node.name}": workflow "${id}" was not found; convert it together with this workflow. The node passes its input through.`);
+  return undefined;
+}
+
+/**
+ * Data sent to the sub-workflow: its mapped inputs (v1.2+), or the node's input
+ */
+function generateSubWorkflowInput(
+  node: ParsedNode,
+  params: ExecuteWorkflowParameters,
+  context: ConversionContext
+): string {
+  // Item semantics: the sub-workflow receives the first item (mode "each" would run it per item)
+  let source = generateDataAccess(node, context);
+  if (context.options.itemSemantics) {
+    source = `(${generateItemsAccess(node, context)}[0]?.json ?? {})`;
+    if (params.mode === 'each') {
+      context.warnings.push(`Execute Workflow "${node.name}": "Run once for each item" runs the sub-workflow once, with the first item.`);
+    }
+  }
+
+  const mapping = Object.entries(params.workflowInputs?.value ?? {});
+  if (mapping.length === 0) {
+    return source;
+  }
+
+  // Input expressions read the node's input as `data`
+  const fields = mapping.map(([key, value]) => `${toPropertyKey(key)}: ${convertN8nExpression(value as string, context)}`);
+  return `((data) => ({ ${fields.join(', ')} }))(${source})`;
+}
+
+// Export all converters
+export const subWorkflowConverters: NodeConverter[] = [
+  executeWorkflowConverter,
+];
@@ -9,18 +9,60 @@ import {
   InngestTrigger,
   InngestEventTrigger,
   InngestCronTrigger,
+  InngestStep,
 } from '../types/inngest.js';
 import {
   CronNodeParameters,
   ScheduleTriggerParameters,
+  ScheduleInterval,
   WebhookNodeParameters,
+  ExecuteWorkflowTriggerParameters,
+  ChatTriggerParameters,
+  FormTriggerParameters,
+  PollingTriggerParameters,
 } from '../types/n8n.js';
-import { ConversionContext, toStepId } from './base-converter.js';
+import { IRWebhookRoute, IRPoller } from '../types/ir.js';
+import { ConversionContext, toStepId, toVariableName } from './base-converter.js';
+import { toHeaderRecord } from './webhook-routes.js';
+import { getPollingSource } from './polling-converters.js';
+import {
+  useFormPage,
+  formTriggerPage,
+  formEventFields,
+  formPath,
+  formPageEventName,
+  findFormPageNodes,
+  formPageVariable,
+} from './form-converters.js';
+import {
+  inferTriggerShape,
+  inferShape,
+  renderShapeType,
+  renderShapeZod,
+  typeToZod,
+  toPropertyKey,
+} from './schema-inference.js';
 
 export interface TriggerConversionResult {
   config: Partial<InngestFunctionConfig>;
   trigger: InngestTrigger;
+  // Fields of the event data; refined from pinned sample data and expression paths into eventTypeDef
+  eventFields?: Record<string, string>;
   eventTypeDef?: string;
+  // Zod schema of the event data (eventSchemas 'zod')
+  eventSchema?: string;
+  // Every trigger of the function, when the node has several (Schedule Trigger rules)
+  triggers?: InngestTrigger[];
+  // HTTP route sending the trigger event (Webhook, Chat and Form triggers)
+  webhook?: IRWebhookRoute;
+  // Cron function polling the source and sending the trigger event (polling triggers)
+  poller?: IRPoller;
+  // Type of the events that can start the function (a union for combined triggers)
+  eventType?: string;
+  // The function returns its last node's output, for the workflows invoking it (sub-workflows)
+  returnsOutput?: boolean;
+  // Steps run before the workflow's nodes, each bound to its variable (polling triggers)
+  setupSteps?: Array<{ step: InngestStep; variable: string }>;
 }
 
 /**
@@ -29,6 +71,20 @@ export interface TriggerConversionResult {
 export function convertTrigger(
   node: ParsedNode,
   context: ConversionContext
+): TriggerConversionResult {
+  const result = convertTriggerNode(node, context);
+  if (!result.eventFields || result.trigger.type !== 'event') {
+    return result;
+  }
+  return { ...result, ...generateEventTypes(result.trigger.event, result.eventFields, node, context) };
+}
+
+/**
+ * Convert a trigger node by its type
+ */
+function convertTriggerNode(
+  node: ParsedNode,
+  context: ConversionContext
 ): TriggerConversionResult {
   switch (node.type) {
     case 'n8n-nodes-base.manualTrigger':
@@ -45,10 +101,14 @@ export function convertTrigger(
       return convertErrorTrigger(node, context);
     case '@n8n/n8n-nodes-langchain.chatTrigger':
       return convertChatTrigger(node, context);
+    case 'n8n-nodes-base.executeWorkflowTrigger':
+      return convertExecuteWorkflowTrigger(node, context);
     case 'n8n-nodes-base.googleDriveTrigger':
-      return convertGoogleDriveTrigger(node, context);
     case 'n8n-nodes-base.googleSheetsTrigger':
-      return convertGoogleSheetsTrigger(node, context);
+    case 'n8n-nodes-base.airtableTrigger':
+    case 'n8n-nodes-base.emailReadImap':
+    case 'n8n-nodes-base.emailTrigger':
+      return convertPollingTrigger(node, context);
     default:
       return convertGenericTrigger(node, context);
   }
@@ -72,9 +132,9 @@ function convertManualTrigger(
       type: 'event',
       event: eventName,
     },
-    eventTypeDef: generateEventTypeDef(eventName, {
-      data: 'Record<string, unknown>',
-    }),
+    eventFields: {
+      '[key: string]': 'unknown',
+    },
   };
 }
 
@@ -86,28 +146,43 @@ function convertWebhookTrigger(
   context: ConversionContext
 ): TriggerConversionResult {
   const params = node.parameters as unknown as WebhookNodeParameters;
-  const path = params.path || toStepId(context.workflowName);
+  const path = (params.path || toStepId(context.workflowName)).replace(/^\/+/, '');
   const method = params.httpMethod || 'POST';
-  const eventName = `${context.options.eventPrefix || 'webhook'}/${path}.${method.toLowerCase()}`;
-
-  // Generate event type definition based on webhook parameters
-  const dataType = generateWebhookDataType(params);
+  // Paths with :param segments are dynamic: n8n serves them under the webhook's ID and passes the values as `params`
+  const dynamic = path.split('/').some(segment => segment.startsWith(':'));
+  const eventPath = path.replace(/:/g, '');
+  const eventName = `${context.options.eventPrefix || 'webhook'}/${eventPath}.${method.toLowerCase()}`;
+  const responseMode = params.responseMode || 'onReceived';
 
   return {
     config: {
-      id: `webhook-${path}`,
+      id: `webhook-${eventPath}`,
       name: `Webhook: ${path}`,
     },
     trigger: {
       type: 'event',
       event: eventName,
     },
-    eventTypeDef: generateEventTypeDef(eventName, {
-      data: dataType,
+    eventFields: {
+      body: 'Record<string, unknown>',
       headers: 'Record<string, string>',
       query: 'Record<string, string>',
+      ...(dynamic ? { params: 'Record<string, string>' } : {}),
       method: `"${method}"`,
-    }),
+      ...(responseMode === 'onReceived' ? {} : { responseId: 'string' }),
+    },
+    webhook: {
+      handlerName: toVariableName(`handle ${eventPath} ${method} webhook`),
+      path: dynamic && node.webhookId ? `/webhook/${node.webhookId}/${path}` : `/webhook/${path}`,
+      method,
+      eventName,
+      eventType: `${eventNameToTypeName(eventName)}Event`,
+      authentication: params.authentication || 'none',
+      responseMode,
+      responseCode: params.responseCode || 200,
+      responseData: params.responseData || 'firstEntryJson',
+      responseHeaders: toHeaderRecord(params.options?.responseHeaders),
+    },
   };
 }
 
@@ -119,17 +194,21 @@ function convertScheduleTrigger(
   context: ConversionContext
 ): TriggerConversionResult {
   const params = node.parameters as unknown as ScheduleTriggerParameters;
-  const cronExpression = convertScheduleToCron(params);
+  const intervals = params.rule?.interval?.length ? params.rule.interval : [undefined];
+
+  // One cron trigger per interval of the rule, all on the same function
+  const triggers: InngestCronTrigger[] = intervals.map(interval => ({
+    type: 'cron',
+    cron: convertScheduleToCron(interval, node, context),
+  }));
 
   return {
     config: {
       id: toStepId(context.workflowName),
       name: `Scheduled: ${context.workflowName}`,
     },
-    trigger: {
-      type: 'cron',
-      cron: cronExpression,
-    },
+    trigger: triggers[0],
+    triggers,
   };
 }
 
@@ -157,12 +236,31 @@ function convertCronTrigger(
 
 /**
  * Convert Form Trigger to event-based trigger
+ * The form gets a route at n8n's URL (/form/<path>) rendering it and sending the event for valid submissions;
+ * with Form nodes the route then shows the pages they send until the workflow completes the form
  */
 function convertFormTrigger(
   node: ParsedNode,
   context: ConversionContext
 ): TriggerConversionResult {
+  const params = node.parameters as unknown as FormTriggerParameters;
   const eventName = `${context.options.eventPrefix || 'form'}/${toStepId(context.workflowName)}.submit`;
+  const page = formTriggerPage(params);
+  const pageNodes = findFormPageNodes(context);
+  const pageVariable = formPageVariable(node);
+
+  // Further pages are sent by the workflow, so the route waits for them
+  let responseMode = params.responseMode || 'onReceived';
+  if (pageNodes.length > 0 && responseMode === 'onReceived') {
+    responseMode = 'lastNode';
+  }
+
+  useFormPage(pageVariable, page, node, context);
+
+  const respondWith = params.options?.respondWithOptions?.values;
+  const completion = respondWith?.respondWith === 'redirect' && respondWith.redirectUrl
+    ? `{ status: 303, headers: { Location: ${JSON.stringify(respondWith.redirectUrl)} } }`
+    : `n8nFormCompletion(${JSON.stringify(page.title)}, ${JSON.stringify(respondWith?.formSubmittedText || 'Your response has been recorded')})`;
 
   return {
     config: {
@@ -173,21 +271,42 @@ function convertFormTrigger(
       type: 'event',
       event: eventName,
     },
-    eventTypeDef: generateEventTypeDef(eventName, {
-      formData: 'Record<string, unknown>',
+    eventFields: {
+      ...formEventFields(page.fields),
       submittedAt: 'string',
-    }),
+      formMode: '"production"',
+      ...(responseMode === 'onReceived' ? {} : { responseId: 'string' }),
+    },
+    webhook: {
+      handlerName: toVariableName(`handle ${toStepId(context.workflowName)} form`),
+      path: formPath(node, context),
+      method: 'POST',
+      eventName,
+      eventType: `${eventNameToTypeName(eventName)}Event`,
+      authentication: params.authentication === 'basicAuth' ? 'basicAuth' : 'none',
+      responseMode,
+      responseCode: 200,
+      responseData: 'firstEntryJson',
+      responseHeaders: {},
+      form: {
+        pageVariable,
+        pages: Object.fromEntries(pageNodes.map(n => [toStepId(n.name), formPageVariable(n)])),
+        pageEventName: formPageEventName(context),
+        completion,
+      },
+    },
   };
 }
 
 /**
- * Convert Error Trigger to Inngest onFailure handler
+ * Convert Error Trigger to a function receiving the failures of workflows that name it as their error workflow
+ * Their onFailure handlers send the event with n8n's Error Trigger data
  */
 function convertErrorTrigger(
   node: ParsedNode,
   context: ConversionContext
 ): TriggerConversionResult {
-  const eventName = `inngest/function.failed`;
+  const eventName = errorWorkflowEventName(context.workflowId || context.workflowName, context);
 
   return {
     config: {
@@ -197,24 +316,44 @@ function convertErrorTrigger(
     trigger: {
       type: 'event',
       event: eventName,
-      expression: `event.data.function_id == "${context.workflowName}"`,
     },
-    eventTypeDef: generateEventTypeDef(eventName, {
-      function_id: 'string',
-      error: '{ message: string; name: string; stack?: string }',
-      run_id: 'string',
-    }),
+    eventFields: {
+      execution: '{ id: string; mode: string; error: { message: string; name: string; stack?: string } }',
+      workflow: '{ id: string; name: string }',
+    },
   };
 }
 
+/**
+ * Event sent to an error workflow, by its n8n workflow ID (the `errorWorkflow` setting)
+ */
+export function errorWorkflowEventName(workflowId: string, context: ConversionContext): string {
+  return `${context.options.eventPrefix || 'app'}/${toStepId(workflowId)}.error`;
+}
+
 /**
  * Convert Chat Trigger to event-based trigger
+ * A public chat also gets a chat endpoint at n8n's URL (/webhook/<id>/chat) that sends the event
+ * and answers with the workflow's reply
  */
 function convertChatTrigger(
   node: ParsedNode,
   context: ConversionContext
 ): TriggerConversionResult {
+  const params = node.parameters as unknown as ChatTriggerParameters;
+  const chatId = node.webhookId || toStepId(context.workflowName);
   const eventName = `${context.options.eventPrefix || 'chat'}/${toStepId(context.workflowName)}.message`;
+  const responseMode = params.options?.responseMode === 'responseNode' ? 'responseNode' : 'lastNode';
+
+  if (params.options?.responseMode === 'streaming') {
+    context.warnings.push(`Chat Trigger "${node.name}": streaming responses are not supported; the endpoint answers with the final reply.`);
+  }
+  if (params.authentication === 'n8nUserAuth') {
+    context.warnings.push(`Chat Trigger "${node.name}": n8n user authentication is not available outside n8n; the chat endpoint is unauthenticated.`);
+  }
+  if (!params.public) {
+    context.warnings.push(`Chat Trigger "${node.name}": the chat is not public, so no chat endpoint was generated; send "${eventName}" events to chat.`);
+  }
 
   return {
     config: {
@@ -225,94 +364,147 @@ function convertChatTrigger(
       type: 'event',
       event: eventName,
     },
-    eventTypeDef: generateEventTypeDef(eventName, {
-      message: 'string',
+    eventFields: {
+      action: '"sendMessage"',
+      chatInput: 'string',
       sessionId: 'string',
-      userId: 'string',
-      metadata: 'Record<string, unknown>',
-    }),
+      ...(params.public ? { responseId: 'string' } : {}),
+    },
+    ...(params.public ? {
+      webhook: {
+        handlerName: toVariableName(`handle ${toStepId(context.workflowName)} chat`),
+        path: `/webhook/${chatId}/chat`,
+        method: 'POST',
+        eventName,
+        eventType: `${eventNameToTypeName(eventName)}Event`,
+        authentication: params.authentication === 'basicAuth' ? 'basicAuth' : 'none',
+        responseMode,
+        responseCode: 200,
+        responseData: 'firstEntryJson',
+        responseHeaders: {},
+        chat: {
+          hostedChat: (params.mode || 'hostedChat') === 'hostedChat',
+          initialMessages: (params.initialMessages ?? '').split('\n').map(line => line.trim()).filter(Boolean),
+          allowedOrigins: params.options?.allowedOrigins || '*',
+        },
+      },
+    } : {}),
   };
 }
 
 /**
- * Convert Google Drive Trigger to polling-based event trigger
+ * Convert a polling trigger (Google Drive, Google Sheets, Airtable, Email) to an event trigger
+ * fed by a cron function that polls the source for new items
  */
-function convertGoogleDriveTrigger(
+function convertPollingTrigger(
   node: ParsedNode,
   context: ConversionContext
 ): TriggerConversionResult {
-  const params = node.parameters as any;
-  const event = params.event || 'fileCreated';
-  const pollInterval = params.pollTimes?.item?.[0]?.mode || 'everyMinute';
-
-  // Convert to cron based on poll interval
-  let cronExpression = '* * * * *'; // Every minute by default
-  if (pollInterval === 'everyHour') {
-    cronExpression = '0 * * * *';
-  } else if (pollInterval === 'everyDay') {
-    cronExpression = '0 0 * * *';
-  }
-
-  const eventName = `${context.options.eventPrefix || 'google-drive'}/${event}`;
+  const params = node.parameters as unknown as PollingTriggerParameters;
+  const source = getPollingSource(node, context);
+  const eventName = source.eventName
+    ?? `${context.options.eventPrefix || 'app'}/${toStepId(context.workflowName)}.${source.id}`;
+  const functionId = `${source.id.split('.')[0]}-${toStepId(context.workflowName)}`;
 
   return {
     config: {
-      id: `google-drive-${toStepId(context.workflowName)}`,
-      name: `Google Drive: ${context.workflowName}`,
+      id: functionId,
+      name: `${source.label}: ${context.workflowName}`,
     },
     trigger: {
-      type: 'cron',
-      cron: cronExpression,
+      type: 'event',
+      event: eventName,
+      ...(source.filter ? { expression: source.filter } : {}),
+    },
+    eventFields: source.eventFields,
+    poller: {
+      id: `${functionId}-poll`,
+      name: `Poll ${source.label}: ${context.workflowName}`,
+      // n8n polls every minute unless the node sets poll times
+      cron: convertCronParams({ triggerTimes: params.pollTimes ?? { item: [{ mode: 'everyMinute' }] } }),
+      eventName,
+      eventType: `${eventNameToTypeName(eventName)}Event`,
+      cursorKey: source.cursorKey,
+      pollCode: source.pollCode,
+      commitCode: source.commitCode,
     },
-    eventTypeDef: generateEventTypeDef(eventName, {
-      id: 'string',
-      name: 'string',
-      mimeType: 'string',
-      createdTime: 'string',
-      modifiedTime: 'string',
-    }),
+    ...(source.setupStep ? { setupSteps: [source.setupStep] } : {}),
   };
 }
 
 /**
- * Convert Google Sheets Trigger to polling-based event trigger
+ * Convert Execute Workflow Trigger to a function that Execute Workflow nodes invoke,
+ * or trigger with its event when they don't wait for the sub-workflow
  */
-function convertGoogleSheetsTrigger(
+function convertExecuteWorkflowTrigger(
   node: ParsedNode,
   context: ConversionContext
 ): TriggerConversionResult {
-  const params = node.parameters as any;
-  const event = params.event || 'rowAdded';
-  const pollInterval = params.pollTimes?.item?.[0]?.mode || 'everyMinute';
-
-  // Convert to cron based on poll interval
-  let cronExpression = '* * * * *'; // Every minute by default
-  if (pollInterval === 'everyHour') {
-    cronExpression = '0 * * * *';
-  } else if (pollInterval === 'everyDay') {
-    cronExpression = '0 0 * * *';
-  }
-
-  const eventName = `${context.options.eventPrefix || 'google-sheets'}/${event}`;
+  const params = node.parameters as unknown as ExecuteWorkflowTriggerParameters;
 
   return {
     config: {
-      id: `google-sheets-${toStepId(context.workflowName)}`,
-      name: `Google Sheets: ${context.workflowName}`,
+      id: subWorkflowFunctionId(context.workflowName),
+      name: `Sub-workflow: ${context.workflowName}`,
     },
     trigger: {
-      type: 'cron',
-      cron: cronExpression,
+      type: 'event',
+      event: subWorkflowEventName(context.workflowName, context),
     },
-    eventTypeDef: generateEventTypeDef(eventName, {
-      spreadsheetId: 'string',
-      sheetId: 'string',
-      row: 'Record<string, unknown>',
-      rowNumber: 'number',
-    }),
+    eventFields: subWorkflowInputFields(params, node, context),
+    returnsOutput: true,
   };
 }
 
+/**
+ * Event data fields for the inputs a sub-workflow declares (passthrough accepts any data)
+ */
+function subWorkflowInputFields(
+  params: ExecuteWorkflowTriggerParameters,
+  node: ParsedNode,
+  context: ConversionContext
+): Record<string, string> {
+  const types: Record<string, string> = {
+    string: 'string',
+    number: 'number',
+    boolean: 'boolean',
+    array: 'unknown[]',
+    object: 'Record<string, unknown>',
+    any: 'unknown',
+  };
+
+  if (params.inputSource === 'jsonExample') {
+    try {
+      const fields = inferShape(JSON.parse(params.jsonExample || '{}')).fields;
+      if (fields && fields.size > 0) {
+        return Object.fromEntries(Array.from(fields, ([key, field]) => [toPropertyKey(key), renderShapeType(field.shape, 4)]));
+      }
+    } catch {
+      context.warnings.push(`Execute Workflow Trigger "${node.name}": the JSON example is not valid JSON; the input is untyped.`);
+    }
+  } else if (params.inputSource !== 'passthrough') {
+    const inputs = params.workflowInputs?.values ?? [];
+    if (inputs.length > 0) {
+      return Object.fromEntries(inputs.map(input => [toPropertyKey(input.name), types[input.type || 'string'] ?? 'unknown']));
+    }
+  }
+  return { '[key: string]': 'unknown' };
+}
+
+/**
+ * Function ID of a converted sub-workflow, by workflow name
+ */
+export function subWorkflowFunctionId(workflowName: string): string {
+  return `sub-workflow-${toStepId(workflowName)}`;
+}
+
+/**
+ * Event starting a converted sub-workflow without waiting for it, by workflow name
+ */
+export function subWorkflowEventName(workflowName: string, context: ConversionContext): string {
+  return `${context.options.eventPrefix || 'app'}/${toStepId(workflowName)}.execute`;
+}
+
 /**
  * Convert generic/unknown trigger to event-based trigger
  */
@@ -331,65 +523,95 @@ function convertGenericTrigger(
       type: 'event',
       event: eventName,
     },
-    eventTypeDef: generateEventTypeDef(eventName, {
-      data: 'Record<string, unknown>',
-    }),
+    eventFields: {
+      '[key: string]': 'unknown',
+    },
   };
 }
 
 /**
- * Convert n8n Schedule parameters to cron expression
+ * Convert one interval of an n8n Schedule rule to a cron expression
+ * Warns when Inngest's minute-level cron can't run the schedule exactly
  */
-function convertScheduleToCron(params: ScheduleTriggerParameters): string {
-  if (!params.rule?.interval?.[0]) {
+function convertScheduleToCron(
+  interval: ScheduleInterval | undefined,
+  node: ParsedNode,
+  context: ConversionContext
+): string {
+  if (!interval) {
     return '0 * * * *'; // Default: every hour
   }
 
-  const interval = params.rule.interval[0];
+  const hour = interval.triggerAtHour ?? 0;
+  const minute = interval.triggerAtMinute ?? 0;
+  const warn = (message: string) => context.warnings.push(`Schedule Trigger "${node.name}": ${message}`);
+  // `*/N` restarts at the start of every hour, day or year, so the gap before it is shorter
+  // unless N divides the field's range
+  const every = (value: number, range: number, unit: string, parent: string) => {
+    if (range % value !== 0) {
+      warn(`runs every ${value} ${unit} within each ${parent}, restarting at its start (${value} does not divide ${range}).`);
+    }
+    return `*/${value}`;
+  };
 
   switch (interval.field) {
-    case 'seconds':
-      // Inngest doesn't support seconds, convert to minutes
+    case 'seconds': {
+      // Inngest cron has no seconds field
       const seconds = interval.secondsInterval || 60;
       const minutes = Math.max(1, Math.ceil(seconds / 60));
-      return `*/${minutes} * * * *`;
+      if (seconds % 60 !== 0) {
+        warn(`runs every ${minutes} minute(s) instead of every ${seconds} seconds (cron has minute precision).`);
+      }
+      return `${every(minutes, 60, 'minutes', 'hour')} * * * *`;
+    }
 
     case 'minutes':
-      const minuteInterval = interval.minutesInterval || 1;
-      return `*/${minuteInterval} * * * *`;
+      return `${every(interval.minutesInterval || 1, 60, 'minutes', 'hour')} * * * *`;
 
     case 'hours':
-      const hourInterval = interval.hoursInterval || 1;
-      const triggerAtMinute = interval.triggerAtMinute || 0;
-      return `${triggerAtMinute} */${hourInterval} * * *`;
+      return `${minute} ${every(interval.hoursInterval || 1, 24, 'hours', 'day')} * * *`;
 
-    case 'days':
+    case 'days': {
       const dayInterval = interval.daysInterval || 1;
-      const hour = interval.triggerAtHour || 0;
-      const minute = interval.triggerAtMinute || 0;
       if (dayInterval === 1) {
         return `${minute} ${hour} * * *`;
       }
+      warn(`runs every ${dayInterval} days within each month, restarting on the 1st (months have 28 to 31 days).`);
       return `${minute} ${hour} */${dayInterval} * *`;
+    }
 
-    case 'weeks':
-      const weekDay = interval.triggerAtDay || 1; // 1 = Monday
-      const weekHour = interval.triggerAtHour || 0;
-      const weekMinute = interval.triggerAtMinute || 0;
-      return `${weekMinute} ${weekHour} * * ${weekDay}`;
+    case 'weeks': {
+      const days = [interval.triggerAtDay ?? 1].flat();
+      const weeksInterval = interval.weeksInterval || 1;
+      if (weeksInterval > 1) {
+        warn(`runs every week instead of every ${weeksInterval} weeks (cron can't skip weeks).`);
+      }
+      return `${minute} ${hour} * * ${days.join(',')}`;
+    }
 
-    case 'months':
-      const monthDay = interval.triggerAtDay || 1;
-      const monthHour = interval.triggerAtHour || 0;
-      const monthMinute = interval.triggerAtMinute || 0;
+    case 'months': {
+      const monthDay = interval.triggerAtDayOfMonth ?? interval.triggerAtDay ?? 1;
       const monthsInterval = interval.monthsInterval || 1;
       if (monthsInterval === 1) {
-        return `${monthMinute} ${monthHour} ${monthDay} * *`;
+        return `${minute} ${hour} ${monthDay} * *`;
       }
-      return `${monthMinute} ${monthHour} ${monthDay} */${monthsInterval} *`;
-
-    case 'cronExpression':
-      return interval.cronExpression || '0 * * * *';
+      return `${minute} ${hour} ${monthDay} ${every(monthsInterval, 12, 'months', 'year')} *`;
+    }
+
+    case 'cronExpression': {
+      const fields = (interval.expression || interval.cronExpression || '0 * * * *').trim().split(/\s+/);
+      // n8n accepts a leading seconds field
+      if (fields.length === 6) {
+        const [seconds, ...rest] = fields;
+        if (seconds === '*' || seconds.startsWith('*/')) {
+          warn(`runs once a minute instead of every ${seconds === '*' ? 'second' : `${seconds.slice(2)} seconds`} for "${fields.join(' ')}" (cron has minute precision).`);
+        } else if (seconds !== '0') {
+          warn(`ignores the seconds field "${seconds}" of "${fields.join(' ')}" (cron has minute precision).`);
+        }
+        return rest.join(' ');
+      }
+      return fields.join(' ');
+    }
 
     default:
       return '0 * * * *';
@@ -397,7 +619,7 @@ function convertScheduleToCron(params: ScheduleTriggerParameters): string {
 }
 
 /**
- * Convert n8n Cron parameters to cron expression
+ * Convert n8n Cron parameters (or a polling trigger's poll times) to cron expression
  */
 function convertCronParams(params: CronNodeParameters): string {
   if (!params.triggerTimes?.item?.[0]) {
@@ -431,6 +653,11 @@ function convertCronParams(params: CronNodeParameters): string {
       const monthMinute = item.minute || 0;
       return `${monthMinute} ${monthHour} ${monthDay} * *`;
 
+    case 'everyX':
+      return item.unit === 'hours'
+        ? `0 */${item.value || 1} * * *`
+        : `*/${item.value || 1} * * * *`;
+
     case 'custom':
       return item.cronExpression || '0 * * * *';
 
@@ -440,12 +667,64 @@ function convertCronParams(params: CronNodeParameters): string {
 }
 
 /**
- * Generate webhook data type based on parameters
+ * Generate the event type (and Zod schema) of a trigger's event
+ * Loosely typed declared fields are refined with the shape inferred from pinned sample data and
+ * expression paths; inferred fields the trigger doesn't declare are added only to open events (`[key: string]`)
+ */
+function generateEventTypes(
+  eventName: string,
+  declared: Record<string, string>,
+  node: ParsedNode,
+  context: ConversionContext
+): Pick<TriggerConversionResult, 'eventTypeDef' | 'eventSchema' | 'eventType'> {
+  // Declared fields keep their order; refined ones are replaced in place
+  const refined = new Map<string, { name: string; type: string; schema: string }>();
+  const shape = inferTriggerShape(node, context);
+  const open = Object.keys(declared).some(key => key.startsWith('['));
+  shape?.fields?.forEach((field, key) => {
+    // Only loosely typed fields are refined (e.g. the webhook body, not its headers)
+    if (key in declared ? !['unknown', 'Record<string, unknown>'].includes(declared[key]) : !open) return;
+    refined.set(key, {
+      name: `${toPropertyKey(key)}${field.optional ? '?' : ''}`,
+      type: renderShapeType(field.shape, 4),
+      schema: renderShapeZod(field.shape, 6),
+    });
+  });
+
+  const fields: Record<string, string> = {};
+  const zodFields: Record<string, string> = {};
+  Object.entries(declared).forEach(([key, type]) => {
+    const field = refined.get(key) ?? { name: key, type, schema: typeToZod(type, 6) };
+    fields[field.name] = field.type;
+    zodFields[field.name] = field.schema;
+  });
+  refined.forEach((field, key) => {
+    if (key in declared) return;
+    fields[field.name] = field.type;
+    zodFields[field.name] = field.schema;
+  });
+
+  return {
+    eventTypeDef: generateEventTypeDef(eventName, fields),
+    eventType: `${eventNameToTypeName(eventName)}Event`,
+    ...(context.options.eventSchemas === 'zod' ? { eventSchema: generateEventSchema(zodFields) } : {}),
+  };
+}
+
+/**
+ * Generate the Zod schema of an event's data
  */
-function generateWebhookDataType(params: WebhookNodeParameters): string {
-  // For now, return a generic type
-  // Could be extended to parse expected body schema
-  return 'Record<string, unknown>';
+function generateEventSchema(zodFields: Record<string, string>): string {
+  const index = Object.keys(zodFields).find(key => key.startsWith('['));
+  const properties = Object.entries(zodFields)
+    .filter(([key]) => key !== index)
+    .map(([key, schema]) => {
+      const optional = key.endsWith('?');
+      return `      ${optional ? key.slice(0, -1) : key}: ${schema}${optional ? '.optional()' : ''},`;
+    });
+
+  const object = properties.length > 0 ? `z.object({\n${properties.join('\n')}\n    })` : 'z.object({})';
+  return index ? `${object}.catchall(${zodFields[index]})` : object;
 }
 
 /**
@@ -484,23 +763,79 @@ function eventNameToTypeName(eventName: string): string {
 }
 
 /**
- * Check if multiple triggers should be combined
+ * Check if multiple triggers should be combined into one function
+ * They are when they all feed the same first node(s), so the functions would have the same steps
  */
 export function shouldCombineTriggers(triggers: ParsedNode[]): boolean {
-  // If all triggers are of the same type, they can potentially be combined
-  const types = new Set(triggers.map(t => t.type));
-  return types.size === 1 && triggers.length > 1;
+  if (triggers.length < 2) return false;
+  const [first, ...rest] = triggers.map(firstNodesKey);
+  return first !== '' && rest.every(key => key === first);
+}
+
+/**
+ * Group triggers into the functions they start, in trigger order
+ * Triggers feeding the same first node(s) share a function
+ */
+export function groupTriggers(triggers: ParsedNode[]): ParsedNode[][] {
+  const groups: ParsedNode[][] = [];
+
+  for (const trigger of triggers) {
+    const group = groups.find(g => shouldCombineTriggers([g[0], trigger]));
+    if (group) {
+      group.push(trigger);
+    } else {
+      groups.push([trigger]);
+    }
+  }
+
+  return groups;
 }
 
 /**
- * Generate combined trigger configuration
+ * Generate combined trigger configuration: every trigger of the group on one function,
+ * with a union type of the events that can start it
  */
 export function generateCombinedTriggers(
   triggers: ParsedNode[],
+  results: TriggerConversionResult[],
   context: ConversionContext
-): InngestTrigger[] {
-  return triggers.map(trigger => {
-    const result = convertTrigger(trigger, context);
-    return result.trigger;
+): TriggerConversionResult {
+  const combined = results.flatMap(result => result.triggers ?? [result.trigger]);
+  const eventType = `${eventNameToTypeName(triggers.map(t => t.name).join(' or '))}TriggerEvent`;
+
+  const members = new Set<string>();
+  results.forEach(result => {
+    for (const trigger of result.triggers ?? [result.trigger]) {
+      if (trigger.type === 'cron') {
+        members.add('InngestScheduledTimerEvent');
+      } else {
+        members.add(result.eventType ?? `{ name: "${trigger.event}"; data: Record<string, any> }`);
+      }
+    }
   });
+
+  const definitions = [
+    `type ${eventType} =\n${[...members].map(member => `  | ${member}`).join('\n')};`,
+  ];
+  if (members.has('InngestScheduledTimerEvent')) {
+    definitions.unshift(generateEventTypeDef('inngest/scheduled.timer', { cron: 'string' }));
+  }
+
+  return {
+    config: {
+      id: toStepId(context.workflowName),
+      name: context.workflowName,
+    },
+    trigger: combined[0],
+    triggers: combined,
+    eventTypeDef: definitions.join('\n\n'),
+    eventType,
+  };
+}
+
+/**
+ * Key identifying the nodes a trigger feeds
+ */
+function firstNodesKey(trigger: ParsedNode): string {
+  return [...new Set(trigger.outgoingConnections.map(c => c.nodeName))].sort().join('\u0000');
 }
@@ -0,0 +1,458 @@
+/**
+ * Vector Store Helpers
+ * Translates n8n vector store, embeddings, document loader and text splitter sub-nodes to
+ * module-scope stores and the code splitting, embedding and searching documents
+ */
+
+import { ParsedNode } from '../parser/workflow-parser.js';
+import { ConversionContext, toVariableName, convertN8nExpression } from './base-converter.js';
+import { toPropertyKey } from './schema-inference.js';
+
+/**
+ * Vector store declared for a vector store node
+ */
+export interface VectorStore {
+  // Module-scope VectorStore
+  store: string;
+  // Module-scope Embeddings of the store's embeddings sub-node
+  embeddings: string;
+}
+
+type ResourceLocator = string | { value?: string; cachedResultName?: string };
+
+interface VectorStoreParameters {
+  mode?: 'load' | 'insert' | 'retrieve' | 'retrieve-as-tool' | 'update';
+  memoryKey?: ResourceLocator;
+  tableName?: ResourceLocator;
+  pineconeIndex?: ResourceLocator;
+  qdrantCollection?: ResourceLocator;
+  options?: {
+    queryName?: string;
+    pineconeNamespace?: string;
+    columnNames?: {
+      values?: { idColumnName?: string; vectorColumnName?: string; contentColumnName?: string; metadataColumnName?: string };
+    };
+  };
+}
+
+interface DocumentLoaderParameters {
+  dataType?: 'json' | 'binary';
+  jsonMode?: 'allInputData' | 'expressionData';
+  jsonData?: string;
+  textSplittingMode?: 'simple' | 'custom';
+  options?: {
+    metadata?: { metadataValues?: Array<{ name: string; value: string }> };
+  };
+}
+
+export const VECTOR_STORE_NODE_TYPES = [
+  '@n8n/n8n-nodes-langchain.vectorStoreInMemory',
+  '@n8n/n8n-nodes-langchain.vectorStorePGVector',
+  '@n8n/n8n-nodes-langchain.vectorStoreSupabase',
+  '@n8n/n8n-nodes-langchain.vectorStorePinecone',
+  '@n8n/n8n-nodes-langchain.vectorStoreQdrant',
+];
+
+// n8n searches the 4 most similar documents unless told otherwise
+export const DEFAULT_TOP_K = 4;
+
+const VECTOR_STORE_HELPERS = `type VectorDocument = { pageContent: string; metadata: Record<string, unknown> };
+
+type VectorStore = {
+  add(documents: VectorDocument[], vectors: number[][]): Promise<void>;
+  search(vector: number[], topK: number): Promise<Array<{ document: VectorDocument; score: number }>>;
+  clear?(): Promise<void>;
+};
+
+type Embeddings = (texts: string[]) => Promise<number[][]>;
+
+// ID derived from the document, so adding it again when a step retries overwrites it instead of duplicating it
+function n8nDocumentId(document: VectorDocument): string {
+  const hash = createHash("sha256").update(JSON.stringify([document.pageContent, document.metadata])).digest("hex");
+  return \`\${hash.slice(0, 8)}-\${hash.slice(8, 12)}-\${hash.slice(12, 16)}-\${hash.slice(16, 20)}-\${hash.slice(20, 32)}\`;
+}
+
+async function n8nAddDocuments(store: VectorStore, embeddings: Embeddings, documents: VectorDocument[]): Promise<void> {
+  if (documents.length === 0) return;
+  await store.add(documents, await embeddings(documents.map(document => document.pageContent)));
+}
+
+async function n8nSimilaritySearch(store: VectorStore, embeddings: Embeddings, query: string, topK: number) {
+  const [vector] = await embeddings([query]);
+  return store.search(vector, topK);
+}`;
+
+// OpenAI-compatible embeddings endpoint, as OpenAI and Ollama serve it
+const EMBEDDINGS_HELPER = `function n8nEmbeddings(options: { baseURL: string; apiKey?: string; model: string; dimensions?: number; batchSize: number }): Embeddings {
+  return async (texts) => {
+    const vectors: number[][] = [];
+    for (let start = 0; start < texts.length; start += options.batchSize) {
+      const response = await fetch(\`\${options.baseURL}/embeddings\`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(options.apiKey ? { "Authorization": \`Bearer \${options.apiKey}\` } : {}),
+        },
+        body: JSON.stringify({
+          model: options.model,
+          input: texts.slice(start, start + options.batchSize),
+          dimensions: options.dimensions,
+        }),
+      });
+      if (!response.ok) {
+        throw new Error(\`[Embeddings] Request failed: \${response.status} - \${await response.text()}\`);
+      }
+      const result = await response.json();
+      vectors.push(...result.data.map((entry: { embedding: number[] }) => entry.embedding));
+    }
+    return vectors;
+  };
+}`;
+
+// Same separators and merging as LangChain's RecursiveCharacterTextSplitter
+const TEXT_SPLITTER_HELPER = `function n8nSplitText(text: string, chunkSize: number, chunkOverlap: number, separators = ["\\n\\n", "\\n", " ", ""]): string[] {
+  const separator = separators.find(s => s === "" || text.includes(s)) ?? "";
+  const finer = separators.slice(separators.indexOf(separator) + 1);
+  const chunks: string[] = [];
+  let current: string[] = [];
+  let length = 0;
+  const join = (pieces: string[]) => pieces.join(separator).trim();
+
+  for (const piece of separator ? text.split(separator) : Array.from(text)) {
+    if (piece.length > chunkSize && finer.length > 0) {
+      if (current.length > 0) chunks.push(join(current));
+      current = [];
+      length = 0;
+      chunks.push(...n8nSplitText(piece, chunkSize, chunkOverlap, finer));
+      continue;
+    }
+    if (current.length > 0 && length + separator.length + piece.length > chunkSize) {
+      chunks.push(join(current));
+      // Keep the end of the chunk as the overlap with the next one
+      while (current.length > 0 && (length > chunkOverlap || length + separator.length + piece.length > chunkSize)) {
+        length -= current.shift()!.length + (current.length > 0 ? separator.length : 0);
+      }
+    }
+    length += piece.length + (current.length > 0 ? separator.length : 0);
+    current.push(piece);
+  }
+  if (current.length > 0) chunks.push(join(current));
+
+  return chunks.filter(chunk => chunk.length > 0);
+}`;
+
+const IN_MEMORY_VECTOR_STORE_HELPER = `// Stores by memory key, shared by the workflows running in this process
+const n8nInMemoryVectorStores = new Map<string, Array<{ id: string; document: VectorDocument; vector: number[] }>>();
+
+function n8nCosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  a.forEach((value, i) => {
+    dot += value * b[i];
+    normA += value * value;
+    normB += b[i] * b[i];
+  });
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB) || 1);
+}
+
+function n8nInMemoryVectorStore(memoryKey: string): VectorStore {
+  return {
+    async add(documents, vectors) {
+      const entries = n8nInMemoryVectorStores.get(memoryKey) ?? [];
+      documents.forEach((document, i) => {
+        const id = n8nDocumentId(document);
+        if (!entries.some(entry => entry.id === id)) entries.push({ id, document, vector: vectors[i] });
+      });
+      n8nInMemoryVectorStores.set(memoryKey, entries);
+    },
+    async search(vector, topK) {
+      return (n8nInMemoryVectorStores.get(memoryKey) ?? [])
+        .map(entry => ({ document: entry.document, score: n8nCosineSimilarity(vector, entry.vector) }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, topK);
+    },
+    async clear() {
+      n8nInMemoryVectorStores.delete(memoryKey);
+    },
+  };
+}`;
+
+// Same table layout as LangChain's PGVectorStore, so tables n8n filled keep working
+const PGVECTOR_STORE_HELPER = `function n8nPgVectorStore(
+  tableName: string,
+  columns: { id: string; vector: string; content: string; metadata: string }
+): VectorStore {
+  const pool = new Pool({ connectionString: process.env.N8N_POSTGRES_URL });
+  let table: Promise<unknown> | undefined;
+  const ensureTable = () => (table ??= pool.query("CREATE EXTENSION IF NOT EXISTS vector").then(() => pool.query(
+    \`CREATE TABLE IF NOT EXISTS \${tableName} (\${columns.id} uuid PRIMARY KEY DEFAULT gen_random_uuid(), \${columns.content} text, \${columns.metadata} jsonb, \${columns.vector} vector)\`
+  )));
+  return {
+    async add(documents, vectors) {
+      await ensureTable();
+      for (const [i, document] of documents.entries()) {
+        await pool.query(
+          \`INSERT INTO \${tableName} (\${columns.id}, \${columns.content}, \${columns.metadata}, \${columns.vector}) VALUES ($1, $2, $3, $4::vector) ON CONFLICT (\${columns.id}) DO NOTHING\`,
+          [n8nDocumentId(document), document.pageContent, document.metadata, JSON.stringify(vectors[i])]
+        );
+      }
+    },
+    async search(vector, topK) {
+      await ensureTable();
+      const { rows } = await pool.query(
+        \`SELECT \${columns.content} AS content, \${columns.metadata} AS metadata, \${columns.vector} <=> $1::vector AS distance FROM \${tableName} ORDER BY distance LIMIT $2\`,
+        [JSON.stringify(vector), topK]
+      );
+      return rows.map(row => ({ document: { pageContent: row.content, metadata: row.metadata ?? {} }, score: 1 - Number(row.distance) }));
+    },
+  };
+}`;
+
+// Rows and match function as LangChain's SupabaseVectorStore expects them
+const SUPABASE_VECTOR_STORE_HELPER = `function n8nSupabaseVectorStore(tableName: string, queryName: string): VectorStore {
+  const supabase = createClient(process.env.N8N_SUPABASE_URL!, process.env.N8N_SUPABASE_KEY!);
+  return {
+    async add(documents, vectors) {
+      // LangChain's documents table numbers its rows, so they are inserted in a single request
+      const rows = documents.map((document, i) => ({ content: document.pageContent, metadata: document.metadata, embedding: vectors[i] }));
+      const { error } = await supabase.from(tableName).insert(rows);
+      if (error) throw new Error(\`[Supabase:vectorStore] \${error.message}\`);
+    },
+    async search(vector, topK) {
+      const { data, error } = await supabase.rpc(queryName, { query_embedding: vector, match_count: topK, filter: {} });
+      if (error) throw new Error(\`[Supabase:vectorStore] \${error.message}\`);
+      return (data ?? []).map((row: { content: string; metadata: Record<string, unknown>; similarity: number }) => ({
+        document: { pageContent: row.content, metadata: row.metadata ?? {} },
+        score: row.similarity,
+      }));
+    },
+  };
+}`;
+
+// The document text is kept in the "text" metadata field, as LangChain's PineconeStore does
+const PINECONE_VECTOR_STORE_HELPER = `function n8nPineconeVectorStore(indexName: string, namespace?: string): VectorStore {
+  let host: Promise<string> | undefined;
+  const request = async (path: string, body: unknown) => {
+    host ??= fetch(\`https://api.pinecone.io/indexes/\${indexName}\`, {
+      headers: { "Api-Key": process.env.N8N_PINECONE_API_KEY! },
+    }).then(async response => {
+      if (!response.ok) throw new Error(\`[Pinecone] Index lookup failed: \${response.status} - \${await response.text()}\`);
+      return (await response.json()).host;
+    });
+    const response = await fetch(\`https://\${await host}\${path}\`, {
+      method: "POST",
+      headers: { "Api-Key": process.env.N8N_PINECONE_API_KEY!, "Content-Type": "application/json" },
+      body: JSON.stringify({ ...(body as object), namespace }),
+    });
+    if (!response.ok) throw new Error(\`[Pinecone] Request failed: \${response.status} - \${await response.text()}\`);
+    return response.json();
+  };
+  return {
+    async add(documents, vectors) {
+      await request("/vectors/upsert", {
+        vectors: documents.map((document, i) => ({
+          id: n8nDocumentId(document),
+          values: vectors[i],
+          metadata: { ...document.metadata, text: document.pageContent },
+        })),
+      });
+    },
+    async search(vector, topK) {
+      const result = await request("/query", { vector, topK, includeMetadata: true });
+      return (result.matches ?? []).map((match: { score: number; metadata?: Record<string, unknown> }) => {
+        const { text, ...metadata } = match.metadata ?? {};
+        return { document: { pageContent: String(text ?? ""), metadata }, score: match.score };
+      });
+    },
+    async clear() {
+      await request("/vectors/delete", { deleteAll: true });
+    },
+  };
+}`;
+
+// Points carry the document as "content" and "metadata" payload, as LangChain's QdrantVectorStore writes them
+const QDRANT_VECTOR_STORE_HELPER = `function n8nQdrantVectorStore(collectionName: string): VectorStore {
+  const request = async (method: string, path: string, body?: unknown) => {
+    const response = await fetch(\`\${process.env.N8N_QDRANT_URL}/collections/\${collectionName}\${path}\`, {
+      method,
+      headers: {
+        "Content-Type": "application/json",
+        ...(process.env.N8N_QDRANT_API_KEY ? { "api-key": process.env.N8N_QDRANT_API_KEY } : {}),
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    if (!response.ok && !(method === "GET" && response.status === 404)) {
+      throw new Error(\`[Qdrant] Request failed: \${response.status} - \${await response.text()}\`);
+    }
+    return response;
+  };
+  return {
+    async add(documents, vectors) {
+      if ((await request("GET", "")).status === 404) {
+        await request("PUT", "", { vectors: { size: vectors[0].length, distance: "Cosine" } });
+      }
+      await request("PUT", "/points?wait=true", {
+        points: documents.map((document, i) => ({
+          id: n8nDocumentId(document),
+          vector: vectors[i],
+          payload: { content: document.pageContent, metadata: document.metadata },
+        })),
+      });
+    },
+    async search(vector, topK) {
+      const { result } = await (await request("POST", "/points/search", { vector, limit: topK, with_payload: true })).json();
+      return (result ?? []).map((point: { score: number; payload?: { content?: string; metadata?: Record<string, unknown> } }) => ({
+        document: { pageContent: point.payload?.content ?? "", metadata: point.payload?.metadata ?? {} },
+        score: point.score,
+      }));
+    },
+  };
+}`;
+
+/**
+ * Declare the store of a vector store node and the embeddings it uses
+ */
+export function useVectorStore(storeNode: ParsedNode, context: ConversionContext): VectorStore | undefined {
+  const params = storeNode.parameters as VectorStoreParameters;
+  const store = toVariableName(storeNode.name) + 'Client';
+
+  const embeddingsNode = findSubNode(storeNode, 'ai_embedding', context);
+  if (!embeddingsNode) {
+    context.warnings.push(`Vector store "${storeNode.name}" has no embeddings connected; connect an embeddings node to convert it.`);
+    return undefined;
+  }
+  const embeddings = useEmbeddings(embeddingsNode, context);
+  if (!embeddings) return undefined;
+
+  let declaration: string;
+  switch (storeNode.type) {
+    case '@n8n/n8n-nodes-langchain.vectorStoreInMemory':
+      context.helpers.add(IN_MEMORY_VECTOR_STORE_HELPER);
+      declaration = `n8nInMemoryVectorStore("${locatorValue(params.memoryKey) || 'vector_store_key'}")`;
+      break;
+    case '@n8n/n8n-nodes-langchain.vectorStorePGVector': {
+      const columns = params.options?.columnNames?.values ?? {};
+      context.imports.add('import { Pool } from "pg";');
+      context.helpers.add(PGVECTOR_STORE_HELPER);
+      declaration = `n8nPgVectorStore("${locatorValue(params.tableName) || 'n8n_vectors'}", { id: "${columns.idColumnName || 'id'}", vector: "${columns.vectorColumnName || 'embedding'}", content: "${columns.contentColumnName || 'text'}", metadata: "${columns.metadataColumnName || 'metadata'}" })`;
+      break;
+    }
+    case '@n8n/n8n-nodes-langchain.vectorStoreSupabase':
+      context.imports.add('import { createClient } from "@supabase/supabase-js";');
+      context.helpers.add(SUPABASE_VECTOR_STORE_HELPER);
+      declaration = `n8nSupabaseVectorStore("${locatorValue(params.tableName)}", "${params.options?.queryName || 'match_documents'}")`;
+      break;
+    case '@n8n/n8n-nodes-langchain.vectorStorePinecone': {
+      const namespace = params.options?.pineconeNamespace;
+      context.helpers.add(PINECONE_VECTOR_STORE_HELPER);
+      declaration = `n8nPineconeVectorStore("${locatorValue(params.pineconeIndex)}"${namespace ? `, "${namespace}"` : ''})`;
+      break;
+    }
+    case '@n8n/n8n-nodes-langchain.vectorStoreQdrant':
+      context.helpers.add(QDRANT_VECTOR_STORE_HELPER);
+      declaration = `n8nQdrantVectorStore("${locatorValue(params.qdrantCollection)}")`;
+      break;
+    default:
+      context.warnings.push(`Vector store "${storeNode.name}" (${storeNode.type}) is not supported.`);
+      return undefined;
+  }
+
+  context.helpers.add(`// Vector store: ${storeNode.name}\nconst ${store} = ${declaration};`);
+  return { store, embeddings };
+}
+
+/**
+ * Declare the embeddings of an embeddings node
+ */
+function useEmbeddings(embeddingsNode: ParsedNode, context: ConversionContext): string | undefined {
+  const params = embeddingsNode.parameters as { model?: string; options?: { dimensions?: number; batchSize?: number; baseURL?: string } };
+  const embeddings = toVariableName(embeddingsNode.name);
+
+  let options: string;
+  switch (embeddingsNode.type) {
+    case '@n8n/n8n-nodes-langchain.embeddingsOpenAi': {
+      const baseURL = params.options?.baseURL || 'https://api.openai.com/v1';
+      const dimensions = params.options?.dimensions ? `, dimensions: ${params.options.dimensions}` : '';
+      options = `{ baseURL: "${baseURL}", apiKey: process.env.N8N_OPENAI_API_KEY, model: "${params.model || 'text-embedding-3-small'}"${dimensions}, batchSize: ${params.options?.batchSize ?? 512} }`;
+      break;
+    }
+    case '@n8n/n8n-nodes-langchain.embeddingsOllama':
+      options = `{ baseURL: process.env.N8N_OLLAMA_BASE_URL || "http://localhost:11434/v1", model: "${params.model || 'llama2'}", batchSize: 512 }`;
+      break;
+    default:
+      context.warnings.push(`Embeddings "${embeddingsNode.name}" (${embeddingsNode.type}) are not supported.`);
+      return undefined;
+  }
+
+  context.imports.add('import { createHash } from "node:crypto";');
+  context.helpers.add(VECTOR_STORE_HELPERS);
+  context.helpers.add(EMBEDDINGS_HELPER);
+  context.helpers.add(`// Embeddings: ${embeddingsNode.name}\nconst ${embeddings} = n8nEmbeddings(${options});`);
+  return embeddings;
+}
+
+/**
+ * Expression building the documents of an input item (`data`) with the store's document loader:
+ * its text, split by the loader's text splitter, and metadata
+ */
+export function generateDocuments(storeNode: ParsedNode, context: ConversionContext): string {
+  const loader = findSubNode(storeNode, 'ai_document', context);
+  const params = (loader?.parameters ?? {}) as DocumentLoaderParameters;
+
+  if (!loader) {
+    context.warnings.push(`Vector store "${storeNode.name}" has no document loader connected; each item's JSON is stored as one document.`);
+  } else if (loader.type !== '@n8n/n8n-nodes-langchain.documentDefaultDataLoader') {
+    context.warnings.push(`Document loader "${loader.name}" (${loader.type}) is not supported; each item's JSON is stored as one document.`);
+  } else if (params.dataType === 'binary') {
+    context.warnings.push(`Document loader "${loader.name}": binary data is not supported; each item's JSON is loaded instead.`);
+  }
+
+  const text = params.jsonMode === 'expressionData' && params.jsonData
+    ? `String(${convertN8nExpression(params.jsonData, context)})`
+    : 'JSON.stringify(data)';
+  const metadata = (params.options?.metadata?.metadataValues ?? [])
+    .map(({ name, value }) => `${toPropertyKey(name)}: ${convertN8nExpression(value, context)}`);
+
+  // From v1.1 the loader splits with default settings unless set to use the connected splitter
+  const customSplitting = loader !== undefined && (loader.typeVersion < 1.1 || params.textSplittingMode === 'custom');
+  const splitter = customSplitting ? findSubNode(loader, 'ai_textSplitter', context) : undefined;
+  let chunks = `[${text}]`;
+  if (splitter) {
+    const splitterParams = splitter.parameters as { chunkSize?: number; chunkOverlap?: number };
+    if (splitter.type !== '@n8n/n8n-nodes-langchain.textSplitterRecursiveCharacterTextSplitter') {
+      context.warnings.push(`Text splitter "${splitter.name}" (${splitter.type}) is converted as a recursive character text splitter.`);
+    }
+    context.helpers.add(TEXT_SPLITTER_HELPER);
+    chunks = `n8nSplitText(${text}, ${splitterParams.chunkSize ?? 1000}, ${splitterParams.chunkOverlap ?? 0})`;
+  } else if (loader && !customSplitting) {
+    context.helpers.add(TEXT_SPLITTER_HELPER);
+    chunks = `n8nSplitText(${text}, 1000, 200)`;
+  }
+
+  return `${chunks}.map((pageContent): VectorDocument => ({ pageContent, metadata: ${metadata.length > 0 ? `{ ${metadata.join(', ')} }` : '{}'} }))`;
+}
+
+/**
+ * Sub-nodes a vector store node uses: embeddings, document loader and its text splitter
+ */
+export function vectorStoreSubNodes(storeNode: ParsedNode, context: ConversionContext): string[] {
+  const loader = findSubNode(storeNode, 'ai_document', context);
+  return [
+    findSubNode(storeNode, 'ai_embedding', context)?.name,
+    loader?.name,
+    loader && findSubNode(loader, 'ai_textSplitter', context)?.name,
+  ].filter((name): name is string => Boolean(name));
+}
+
+/**
+ * The first sub-node connected to a node through an ai_* input
+ */
+export function findSubNode(node: ParsedNode, connectionType: string, context: ConversionContext): ParsedNode | undefined {
+  const connection = node.incomingConnections.find(c => c.connectionType === connectionType);
+  return connection && context.allNodes.get(connection.nodeName);
+}
+
+function locatorValue(locator: ResourceLocator | undefined): string {
+  return typeof locator === 'object' ? locator.value ?? '' : locator ?? '';
+}
@@ -0,0 +1,665 @@
+/**
+ * Webhook Routes
+ * HTTP ingress for converted Webhook, Chat and Form triggers: each route checks the request and sends the trigger event
+ */
+
+import { WebhookFramework } from '../types/inngest.js';
+import { IRWebhookRoute, IRChatEndpoint, IRFormEndpoint } from '../types/ir.js';
+import { ConversionContext } from './base-converter.js';
+
+/**
+ * Request and response shapes shared by the framework adapters, and the dispatcher validating path and method
+ */
+const ROUTER_CODE = `type WebhookRequest = {
+  method: string;
+  path: string;
+  headers: Record<string, string>;
+  query: Record<string, string>;
+  body: unknown;
+  // Values of the route path's :param segments, set by the dispatcher
+  params?: Record<string, string>;
+};
+
+function n8nMatchPath(routePath: string, path: string): Record<string, string> | undefined {
+  const routeSegments = routePath.split("/");
+  const segments = path.split("/");
+  if (routeSegments.length !== segments.length) return undefined;
+
+  const params: Record<string, string> = {};
+  for (const [i, segment] of routeSegments.entries()) {
+    if (segment.startsWith(":") && segments[i]) {
+      params[segment.slice(1)] = decodeURIComponent(segments[i]);
+    } else if (segment !== segments[i]) {
+      return undefined;
+    }
+  }
+  return params;
+}
+
+async function routeWebhook(request: WebhookRequest): Promise<WebhookResponse> {
+  // Static paths take precedence over paths with :param segments, as in n8n
+  const staticRoutes = webhookRoutes.filter(route => route.path === request.path);
+  const routes = staticRoutes.length > 0 ? staticRoutes : webhookRoutes.filter(route => n8nMatchPath(route.path, request.path));
+  if (routes.length === 0) {
+    return { status: 404, body: { message: "Webhook not found" } };
+  }
+  const route = routes.find(r => r.method === request.method.toUpperCase());
+  if (!route) {
+    return { status: 405, body: { message: \`Method \${request.method} not allowed\` } };
+  }
+  return route.handle({ ...request, params: n8nMatchPath(route.path, request.path) ?? {} });
+}
+
+/**
+ * Dispatch the request an adapter reads: 400 when its body doesn't parse, 500 when handling it fails
+ */
+async function n8nHandleWebhook(readRequest: () => WebhookRequest | Promise<WebhookRequest>): Promise<WebhookResponse> {
+  let request: WebhookRequest;
+  try {
+    request = await readRequest();
+  } catch (error) {
+    return { status: 400, body: { message: error instanceof Error ? error.message : "Invalid request body" } };
+  }
+  try {
+    return await routeWebhook(request);
+  } catch (error) {
+    console.error(\`[webhook] \${request.method} \${request.path} failed:\`, error);
+    return { status: 500, body: { message: "Error in workflow" } };
+  }
+}`;
+
+const RESPONSE_TYPE = `type WebhookResponse = { status: number; headers?: Record<string, string>; body?: unknown };`;
+
+/**
+ * Responses of request/response webhooks (responseMode "lastNode" / "responseNode"), by correlation ID
+ * The function publishes the response and the route waiting for it takes it from the store
+ */
+const RESPONSE_STORE_HELPER = `type WebhookResponseStore = {
+  set(responseId: string, response: WebhookResponse): Promise<void>;
+  take(responseId: string): Promise<WebhookResponse | undefined>;
+};
+
+const WEBHOOK_RESPONSE_TIMEOUT_MS = 30_000;
+
+const memoryWebhookResponses = new Map<string, WebhookResponse>();
+let webhookResponseStore: WebhookResponseStore = {
+  async set(responseId, response) {
+    memoryWebhookResponses.set(responseId, response);
+  },
+  async take(responseId) {
+    const response = memoryWebhookResponses.get(responseId);
+    memoryWebhookResponses.delete(responseId);
+    return response;
+  },
+};
+
+/**
+ * Share responses through another store (e.g. Redis) when routes and functions run in different processes
+ */
+export function setWebhookResponseStore(store: WebhookResponseStore): void {
+  webhookResponseStore = store;
+}
+
+async function n8nSendWebhookResponse(responseId: string | undefined, response: WebhookResponse): Promise<void> {
+  if (responseId) await webhookResponseStore.set(responseId, response);
+}
+
+async function n8nWaitForWebhookResponse(responseId: string): Promise<WebhookResponse> {
+  const deadline = Date.now() + WEBHOOK_RESPONSE_TIMEOUT_MS;
+  while (Date.now() < deadline) {
+    const response = await webhookResponseStore.take(responseId);
+    if (response) return response;
+    await new Promise(resolve => setTimeout(resolve, 100));
+  }
+  return { status: 504, body: { message: "Workflow did not respond in time" } };
+}`;
+
+const RESPONSE_BODY_HELPER = `function n8nResponseBody(response: WebhookResponse): { contentType: string; text: string } {
+  if (response.body === undefined) return { contentType: "text/plain", text: "" };
+  if (typeof response.body === "string") return { contentType: "text/plain; charset=utf-8", text: response.body };
+  return { contentType: "application/json", text: JSON.stringify(response.body) };
+}`;
+
+const PARSE_BODY_HELPER = `function n8nParseBody(text: string, contentType?: string | null): unknown {
+  if (!text) return {};
+  if (contentType?.includes("application/json")) {
+    try {
+      return JSON.parse(text);
+    } catch {
+      throw new Error("Invalid JSON body");
+    }
+  }
+  if (contentType?.includes("application/x-www-form-urlencoded")) {
+    return Object.fromEntries(new URLSearchParams(text));
+  }
+  return text;
+}`;
+
+const NORMALIZE_HEADERS_HELPER = `function n8nNormalizeHeaders(headers: Record<string, string | string[] | undefined>): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(headers)
+      .filter(([, value]) => value !== undefined)
+      .map(([name, value]) => [name.toLowerCase(), Array.isArray(value) ? value.join(", ") : String(value)])
+  );
+}`;
+
+const SAFE_EQUAL_HELPER = `function n8nSafeEqual(actual: string, expected: string): boolean {
+  const a = Buffer.from(actual);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+}`;
+
+/**
+ * Values of the env vars an authentication check reads, or undefined when one is unset or empty
+ * Missing credentials reject every request instead of comparing against empty values
+ */
+const AUTH_ENV_HELPER = `function n8nAuthEnv(...names: string[]): string[] | undefined {
+  const values = names.map(name => process.env[name] ?? "");
+  const missing = names.filter((_, i) => !values[i]);
+  if (missing.length > 0) {
+    console.error(\`[webhook] Rejecting request: \${missing.join(", ")} not set\`);
+    return undefined;
+  }
+  return values;
+}`;
+
+/**
+ * CORS headers of a chat endpoint for the request's origin, or undefined when the origin is not allowed
+ */
+const CHAT_CORS_HELPER = `function n8nChatCorsHeaders(origin: string | undefined, allowedOrigins: string): Record<string, string> | undefined {
+  if (!origin) return {};
+  const allowed = allowedOrigins.split(",").map(o => o.trim());
+  if (!allowed.includes("*") && !allowed.includes(origin)) return undefined;
+  return {
+    "Access-Control-Allow-Origin": allowed.includes("*") ? "*" : origin,
+    "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+    "Access-Control-Allow-Headers": "Content-Type, Authorization",
+    "Vary": "Origin",
+  };
+}`;
+
+/**
+ * n8n's hosted chat page: the @n8n/chat widget talking to the chat endpoint
+ */
+const HOSTED_CHAT_HELPER = `function n8nHostedChatPage(webhookUrl: string, initialMessages: string[]): string {
+  const options = JSON.stringify({ webhookUrl, initialMessages, mode: "fullscreen" }).replace(/</g, "\\\\u003c");
+  return \`<!doctype html>
+<html lang="en">
+<head>
+  <meta charset="utf-8" />
+  <meta name="viewport" content="width=device-width, initial-scale=1" />
+  <link href="https://cdn.jsdelivr.net/npm/@n8n/chat/dist/style.css" rel="stylesheet" />
+</head>
+<body>
+  <script type="module">
+    import { createChat } from "https://cdn.jsdelivr.net/npm/@n8n/chat/dist/chat.bundle.es.js";
+    createChat(\${options});
+  </script>
+</body>
+</html>\`;
+}`;
+
+// Webhook authentication, reading the same env vars as the matching n8n credentials
+const AUTH_HELPERS: Record<string, { name: string; code: string; imports: string[] }> = {
+  basicAuth: {
+    name: 'n8nCheckBasicAuth',
+    code: `function n8nCheckBasicAuth(headers: Record<string, string>): boolean {
+  const env = n8nAuthEnv("N8N_API_USERNAME", "N8N_API_PASSWORD");
+  if (!env) return false;
+
+  const [username, password] = env;
+  return n8nSafeEqual(headers["authorization"] ?? "", \`Basic \${Buffer.from(\`\${username}:\${password}\`).toString("base64")}\`);
+}`,
+    imports: [],
+  },
+  headerAuth: {
+    name: 'n8nCheckHeaderAuth',
+    code: `function n8nCheckHeaderAuth(headers: Record<string, string>): boolean {
+  const env = n8nAuthEnv("N8N_API_HEADER_NAME", "N8N_API_HEADER_VALUE");
+  if (!env) return false;
+
+  const [name, value] = env;
+  return n8nSafeEqual(headers[name.toLowerCase()] ?? "", value);
+}`,
+    imports: [],
+  },
+  jwtAuth: {
+    name: 'n8nCheckJwtAuth',
+    code: `function n8nCheckJwtAuth(headers: Record<string, string>): boolean {
+  const env = n8nAuthEnv("N8N_JWT_SECRET");
+  if (!env) return false;
+
+  const [secret] = env;
+  const token = (headers["authorization"] ?? "").replace(/^Bearer\\s+/i, "");
+  const [header, payload, signature] = token.split(".");
+  if (!header || !payload || !signature) return false;
+
+  try {
+    const { alg } = JSON.parse(Buffer.from(header, "base64url").toString());
+    const hash = ({ HS256: "sha256", HS384: "sha384", HS512: "sha512" } as Record<string, string>)[alg];
+    if (!hash) return false;
+
+    const expected = createHmac(hash, secret).update(\`\${header}.\${payload}\`).digest("base64url");
+    if (!n8nSafeEqual(signature, expected)) return false;
+
+    const { exp, nbf } = JSON.parse(Buffer.from(payload, "base64url").toString());
+    const now = Date.now() / 1000;
+    return (exp === undefined || now < exp) && (nbf === undefined || now >= nbf);
+  } catch {
+    return false;
+  }
+}`,
+    imports: ['import { createHmac } from "node:crypto";'],
+  },
+};
+
+/**
+ * Add the imports and helpers the webhook routes need to the generated code
+ */
+export function useWebhookRoutes(
+  routes: IRWebhookRoute[],
+  framework: WebhookFramework,
+  context: ConversionContext
+): void {
+  if (routes.some(route => route.responseMode !== 'onReceived')) {
+    useWebhookResponses(context);
+  }
+  if (routes.length === 0 || framework === 'none') return;
+
+  context.helpers.add(RESPONSE_TYPE);
+  context.helpers.add(RESPONSE_BODY_HELPER);
+  if (routes.some(route => route.responseMode !== 'onReceived')) {
+    context.imports.add('import { randomUUID } from "node:crypto";');
+  }
+  switch (framework) {
+    case 'express':
+      context.imports.add('import express from "express";');
+      context.helpers.add(NORMALIZE_HEADERS_HELPER);
+      break;
+    case 'node':
+      context.imports.add('import type { IncomingMessage, ServerResponse } from "node:http";');
+      context.helpers.add(NORMALIZE_HEADERS_HELPER);
+      context.helpers.add(PARSE_BODY_HELPER);
+      break;
+    case 'nextjs':
+      context.helpers.add(PARSE_BODY_HELPER);
+      break;
+  }
+
+  if (routes.some(route => route.chat)) {
+    context.helpers.add(CHAT_CORS_HELPER);
+  }
+  if (routes.some(route => route.chat?.hostedChat)) {
+    context.helpers.add(HOSTED_CHAT_HELPER);
+  }
+
+  routes.forEach(route => {
+    const auth = AUTH_HELPERS[route.authentication];
+    if (!auth) return;
+    context.imports.add('import { timingSafeEqual } from "node:crypto";');
+    auth.imports.forEach(imp => context.imports.add(imp));
+    context.helpers.add(SAFE_EQUAL_HELPER);
+    context.helpers.add(AUTH_ENV_HELPER);
+    context.helpers.add(auth.code);
+  });
+}
+
+/**
+ * Add the response store to the generated code, for steps publishing webhook responses
+ */
+export function useWebhookResponses(context: ConversionContext): void {
+  context.helpers.add(RESPONSE_TYPE);
+  context.helpers.add(RESPONSE_STORE_HELPER);
+}
+
+/**
+ * Generate the code of the step responding with the last node's output (responseMode "lastNode")
+ */
+export function generateLastNodeResponseCode(
+  route: IRWebhookRoute,
+  outputAccess: string,
+  context: ConversionContext
+): string {
+  useWebhookResponses(context);
+
+  // With item semantics outputs are items; responses carry their JSON
+  const entries = context.options.itemSemantics
+    ? `[${outputAccess}].flat().map((item: any) => item?.json ?? item)`
+    : `[${outputAccess}].flat()`;
+  const bodies: Record<string, string> = { allEntries: 'entries', noData: 'undefined' };
+  const body = bodies[route.responseData] ?? 'entries[0]';
+
+  return `
+      const entries = ${entries};
+      const response: WebhookResponse = {
+        status: ${route.responseCode},
+        headers: ${JSON.stringify(route.responseHeaders)},
+        body: ${body},
+      };
+
+      await n8nSendWebhookResponse(inputData.responseId, response);
+      return response;
+  `.trim();
+}
+
+/**
+ * Convert n8n response header entries to a headers object
+ */
+export function toHeaderRecord(
+  headers?: { entries?: Array<{ name: string; value: string }> }
+): Record<string, string> {
+  return Object.fromEntries((headers?.entries ?? []).map(entry => [entry.name, entry.value]));
+}
+
+/**
+ * Generate the route handlers for the webhooks, and the adapter for a framework
+ */
+export function generateWebhookRoutes(routes: IRWebhookRoute[], framework: WebhookFramework): string {
+  const handlers = routes.map(route => {
+    if (route.chat) return generateChatHandler(route, route.chat);
+    if (route.form) return generateFormHandler(route, route.form);
+    return generateRouteHandler(route);
+  });
+  const table = routes
+    .flatMap(route => routeMethods(route).map(method => `  { method: "${method}", path: "${route.path}", handle: ${route.handlerName} },`))
+    .join('\n');
+
+  return [
+    ROUTER_CODE,
+    ...handlers,
+    `const webhookRoutes: Array<{ method: string; path: string; handle: (request: WebhookRequest) => Promise<WebhookResponse> }> = [
+${table}
+];`,
+    generateAdapter(routes, framework),
+  ].join('\n\n');
+}
+
+/**
+ * Generate the handler checking authentication and sending the trigger event
+ */
+function generateRouteHandler(route: IRWebhookRoute): string {
+  const auth = AUTH_HELPERS[route.authentication];
+  const authCheck = auth
+    ? `
+  if (!${auth.name}(request.headers)) {
+    return { status: 401, body: { message: "Authorization data is wrong!" } };
+  }
+`
+    : '';
+
+  const payload = `{
+      body: request.body ?? {},
+      headers: request.headers,
+      query: request.query,${route.path.includes('/:') ? '\n      params: request.params ?? {},' : ''}
+      method: "${route.method}",${route.responseMode === 'onReceived' ? '' : '\n      responseId,'}
+    } as ${route.eventType}["data"]`;
+
+  // Respond once the function publishes its response, or right away
+  const send = route.responseMode === 'onReceived'
+    ? `
+  const { ids } = await inngest.send({
+    name: "${route.eventName}",
+    data: ${payload},
+  });
+  return {
+    status: ${route.responseCode},
+    headers: ${JSON.stringify(route.responseHeaders)},
+    body: { message: "Workflow was started", ids },
+  };`
+    : `
+  const responseId = randomUUID();
+  await inngest.send({
+    name: "${route.eventName}",
+    data: ${payload},
+  });
+  return n8nWaitForWebhookResponse(responseId);`;
+
+  return `/**
+ * Webhook: ${route.method} ${route.path}
+ */
+async function ${route.handlerName}(request: WebhookRequest): Promise<WebhookResponse> {${authCheck}${send}
+}`;
+}
+
+/**
+ * Generate the handler of a chat endpoint (n8n's chat protocol, as the @n8n/chat widget speaks it)
+ * sending the chat event and answering with the workflow's reply
+ */
+function generateChatHandler(route: IRWebhookRoute, chat: IRChatEndpoint): string {
+  const auth = AUTH_HELPERS[route.authentication];
+  const authCheck = auth
+    ? `
+  if (!${auth.name}(request.headers)) {
+    return { status: 401, headers: cors, body: { message: "Authorization data is wrong!" } };
+  }
+`
+    : '';
+  const hostedPage = chat.hostedChat
+    ? `
+  if (request.method === "GET") {
+    return {
+      status: 200,
+      headers: { ...cors, "Content-Type": "text/html; charset=utf-8" },
+      body: n8nHostedChatPage("${route.path}", ${JSON.stringify(chat.initialMessages)}),
+    };
+  }
+`
+    : '';
+
+  return `/**
+ * Chat: ${route.path}
+ */
+async function ${route.handlerName}(request: WebhookRequest): Promise<WebhookResponse> {
+  const cors = n8nChatCorsHeaders(request.headers["origin"], ${JSON.stringify(chat.allowedOrigins)});
+  if (!cors) {
+    return { status: 403, body: { message: "Origin not allowed" } };
+  }
+  if (request.method === "OPTIONS") {
+    return { status: 204, headers: cors };
+  }
+${authCheck}${hostedPage}
+  const body = (request.body ?? {}) as Record<string, unknown>;
+  if (body.action === "loadPreviousSession") {
+    // Chat history is not kept outside n8n
+    return { status: 200, headers: cors, body: { data: [] } };
+  }
+
+  const responseId = randomUUID();
+  await inngest.send({
+    name: "${route.eventName}",
+    data: {
+      action: "sendMessage",
+      chatInput: String(body.chatInput ?? ""),
+      sessionId: String(body.sessionId ?? randomUUID()),
+      responseId,
+    } as ${route.eventType}["data"],
+  });
+  const response = await n8nWaitForWebhookResponse(responseId);
+  return { ...response, headers: { ...response.headers, ...cors } };
+}`;
+}
+
+/**
+ * Generate the handler of a form: GET renders a page, POST validates it and sends the trigger event,
+ * or the page event for pages sent by Form nodes (which post back with their submission and page)
+ */
+function generateFormHandler(route: IRWebhookRoute, form: IRFormEndpoint): string {
+  const auth = AUTH_HELPERS[route.authentication];
+  const authCheck = auth
+    ? `
+  if (!${auth.name}(request.headers)) {
+    return { status: 401, body: { message: "Authorization data is wrong!" } };
+  }
+`
+    : '';
+  const pageEntries = Object.entries(form.pages);
+  const hasPages = pageEntries.length > 0;
+
+  const findPage = hasPages
+    ? `
+  const pages: Record<string, FormPage> = {
+${pageEntries.map(([key, variable]) => `    "${key}": ${variable},`).join('\n')}
+  };
+  const { submission, page: pageKey } = request.query;
+  const page = submission ? pages[pageKey] : ${form.pageVariable};
+  if (!page) {
+    return { status: 404, body: { message: "Form page not found" } };
+  }
+  const action = submission
+    ? \`${route.path}?submission=\${encodeURIComponent(submission)}&page=\${encodeURIComponent(pageKey)}\`
+    : "${route.path}";`
+    : `
+  const page = ${form.pageVariable};
+  const action = "${route.path}";`;
+
+  const triggerData = (responseId: boolean, pad: string) => `{
+${pad}  ...data,
+${pad}  submittedAt: new Date().toISOString(),
+${pad}  formMode: "production",${responseId ? `\n${pad}  responseId,` : ''}
+${pad}} as ${route.eventType}["data"]`;
+
+  let send: string;
+  if (route.responseMode === 'onReceived') {
+    send = `
+  await inngest.send({
+    name: "${route.eventName}",
+    data: ${triggerData(false, '    ')},
+  });
+  return ${form.completion};`;
+  } else {
+    const sendEvents = hasPages
+      ? `
+  const responseId = submission ?? randomUUID();
+  if (submission) {
+    await inngest.send({ name: "${form.pageEventName}", data: { ...data, page: pageKey, responseId } });
+  } else {
+    await inngest.send({
+      name: "${route.eventName}",
+      data: ${triggerData(true, '      ')},
+    });
+  }`
+      : `
+  const responseId = randomUUID();
+  await inngest.send({
+    name: "${route.eventName}",
+    data: ${triggerData(true, '    ')},
+  });`;
+    // The last node's output is not a page, so the form shows its completion screen instead
+    const respond = route.responseMode === 'lastNode'
+      ? `
+  const response = await n8nWaitForWebhookResponse(responseId);
+  const isPage = response.status === 303 || String(response.headers?.["Content-Type"] ?? "").startsWith("text/html");
+  return isPage || response.status >= 400 ? response : ${form.completion};`
+      : `
+  return n8nWaitForWebhookResponse(responseId);`;
+    send = sendEvents + respond;
+  }
+
+  return `/**
+ * Form: ${route.path}
+ */
+async function ${route.handlerName}(request: WebhookRequest): Promise<WebhookResponse> {${authCheck}${findPage}
+  if (request.method === "GET") {
+    return n8nRenderForm(page, action);
+  }
+
+  const { data, errors } = n8nValidateForm(page, request.body);
+  if (errors.length > 0) {
+    return n8nRenderForm(page, action, request.body as Record<string, unknown>, errors);
+  }
+${send}
+}`;
+}
+
+/**
+ * HTTP methods a route answers: chat endpoints also answer CORS preflights and serve the hosted chat page,
+ * and forms are rendered on GET
+ */
+function routeMethods(route: IRWebhookRoute): string[] {
+  if (route.form) return ['GET', route.method];
+  if (!route.chat) return [route.method];
+  return [route.method, 'OPTIONS', ...(route.chat.hostedChat ? ['GET'] : [])];
+}
+
+/**
+ * Generate the framework-specific entry point calling routeWebhook
+ */
+function generateAdapter(routes: IRWebhookRoute[], framework: WebhookFramework): string {
+  switch (framework) {
+    case 'express': {
+      const paths = [...new Set(routes.map(route => route.path))];
+      return `/**
+ * Express router for the webhooks - mount with app.use(webhookRouter)
+ */
+export const webhookRouter = express.Router();
+webhookRouter.use(express.json(), express.urlencoded({ extended: true }));
+
+const handleExpressWebhook: express.RequestHandler = async (req, res) => {
+  const response = await n8nHandleWebhook(() => ({
+    method: req.method,
+    path: req.baseUrl + req.path,
+    headers: n8nNormalizeHeaders(req.headers),
+    query: req.query as Record<string, string>,
+    body: req.body,
+  }));
+  const { contentType, text } = n8nResponseBody(response);
+  res.status(response.status).set({ "Content-Type": contentType, ...response.headers }).send(text);
+};
+
+// Bodies express.json() and express.urlencoded() can't parse
+const handleExpressError: express.ErrorRequestHandler = (error, req, res, next) => {
+  if (res.headersSent) return next(error);
+  const invalidBody = error?.type === "entity.parse.failed";
+  res.status(invalidBody ? 400 : 500).json({ message: invalidBody ? "Invalid request body" : "Error in workflow" });
+};
+${paths.map(path => `webhookRouter.all("${path}", handleExpressWebhook);`).join('\n')}
+webhookRouter.use(handleExpressError);`;
+    }
+
+    case 'nextjs': {
+      const methods = [...new Set(routes.flatMap(routeMethods))];
+      return `/**
+ * Next.js route handler for the webhooks
+ * In app/webhook/[...path]/route.ts: export { ${methods.map(method => `handleWebhookRoute as ${method}`).join(', ')} } from "<this module>";
+ */
+export async function handleWebhookRoute(request: Request): Promise<Response> {
+  const url = new URL(request.url);
+  const headers: Record<string, string> = {};
+  request.headers.forEach((value, name) => {
+    headers[name] = value;
+  });
+  const response = await n8nHandleWebhook(async () => ({
+    method: request.method,
+    path: url.pathname,
+    headers,
+    query: Object.fromEntries(url.searchParams),
+    body: n8nParseBody(await request.text(), request.headers.get("content-type")),
+  }));
+  const { contentType, text } = n8nResponseBody(response);
+  return new Response(text, { status: response.status, headers: { "Content-Type": contentType, ...response.headers } });
+}`;
+    }
+
+    default:
+      return `/**
+ * Node http request listener for the webhooks - http.createServer(handleWebhookRequest)
+ */
+export async function handleWebhookRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  const response = await n8nHandleWebhook(async () => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    return {
+      method: req.method ?? "GET",
+      path: url.pathname,
+      headers: n8nNormalizeHeaders(req.headers),
+      query: Object.fromEntries(url.searchParams),
+      body: n8nParseBody(Buffer.concat(chunks).toString("utf8"), req.headers["content-type"]),
+    };
+  });
+  const { contentType, text } = n8nResponseBody(response);
+  res.writeHead(response.status, { "Content-Type": contentType, ...response.headers });
+  res.end(text);
+}`;
+  }
+}
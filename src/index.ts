@@ -6,6 +6,7 @@
 // Re-export types
 export * from './types/n8n.js';
 export * from './types/inngest.js';
+export * from './types/ir.js';
 
 // Re-export parser
 export {
@@ -25,6 +26,10 @@ export {
   CredentialConfig,
 } from './converter/index.js';
 
+// Re-export IR build and emit steps
+export { buildProgram } from './converter/ir-builder.js';
+export { emitProgram, emitFunction, EmittedProgram } from './converter/ir-emitter.js';
+
 // Re-export base converter utilities
 export {
   NodeConverter,
@@ -0,0 +1,611 @@
+/**
+ * Expression Parser
+ * Tokenizes and parses the JavaScript inside n8n `{{ }}` expressions into an AST,
+ * and prints an AST back to JavaScript
+ */
+
+export type ExpressionNode =
+  | { type: 'Literal'; value: string | number | boolean | null; raw: string }
+  | { type: 'Template'; quasis: string[]; expressions: ExpressionNode[] }
+  | { type: 'RegExp'; raw: string }
+  | { type: 'Identifier'; name: string }
+  | { type: 'Member'; object: ExpressionNode; property: ExpressionNode; computed: boolean; optional: boolean }
+  | { type: 'Call'; callee: ExpressionNode; arguments: ExpressionNode[]; optional: boolean }
+  | { type: 'New'; callee: ExpressionNode; arguments: ExpressionNode[] }
+  | { type: 'Unary'; operator: string; argument: ExpressionNode }
+  | { type: 'Binary'; operator: string; left: ExpressionNode; right: ExpressionNode }
+  | { type: 'Conditional'; test: ExpressionNode; consequent: ExpressionNode; alternate: ExpressionNode }
+  | { type: 'Array'; elements: ExpressionNode[] }
+  | { type: 'Object'; properties: ObjectProperty[] }
+  | { type: 'Spread'; argument: ExpressionNode }
+  | { type: 'Arrow'; params: string[]; body: ExpressionNode }
+  | { type: 'Sequence'; expressions: ExpressionNode[] }
+  // Already rendered code, used by translators for replacements
+  | { type: 'Raw'; code: string; precedence: number };
+
+export type ObjectProperty =
+  | { type: 'Property'; key: ExpressionNode; computed: boolean; shorthand: boolean; value: ExpressionNode }
+  | { type: 'Spread'; argument: ExpressionNode };
+
+export class ExpressionSyntaxError extends Error {
+  constructor(message: string, public position: number) {
+    super(`${message} at position ${position}`);
+    this.name = 'ExpressionSyntaxError';
+  }
+}
+
+interface Token {
+  type: 'number' | 'string' | 'template' | 'regexp' | 'identifier' | 'punctuator' | 'eof';
+  value: string;
+  start: number;
+  // Template literals: static parts and the source of each `${}` part
+  quasis?: string[];
+  expressions?: string[];
+}
+
+const PUNCTUATORS = [
+  '>>>', '===', '!==', '...', '**',
+  '=>', '==', '!=', '<=', '>=', '&&', '||', '??', '?.', '<<', '>>',
+  '+', '-', '*', '/', '%', '<', '>', '!', '~', '?', ':', '.', ',', '(', ')', '[', ']', '{', '}', '&', '|', '^', '=',
+];
+
+const BINARY_PRECEDENCE: Record<string, number> = {
+  '??': 4, '||': 4, '&&': 5, '|': 6, '^': 7, '&': 8,
+  '==': 9, '!=': 9, '===': 9, '!==': 9,
+  '<': 10, '>': 10, '<=': 10, '>=': 10, instanceof: 10, in: 10,
+  '<<': 11, '>>': 11, '>>>': 11,
+  '+': 12, '-': 12, '*': 13, '/': 13, '%': 13, '**': 14,
+};
+
+const UNARY_OPERATORS = ['!', '-', '+', '~', 'typeof', 'void'];
+
+/**
+ * Split source into tokens
+ */
+export function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let pos = 0;
+
+  // A `/` after one of these ends a value and is division, otherwise it starts a regex
+  const endsValue = () => {
+    const last = tokens[tokens.length - 1];
+    if (!last) return false;
+    if (last.type === 'punctuator') return [')', ']', '}'].includes(last.value);
+    if (last.type === 'identifier') return !['typeof', 'void', 'in', 'instanceof', 'new', 'return'].includes(last.value);
+    return true;
+  };
+
+  while (pos < source.length) {
+    const char = source[pos];
+
+    if (/\s/.test(char)) {
+      pos++;
+      continue;
+    }
+
+    const start = pos;
+
+    // Numbers
+    if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(source[pos + 1] ?? ''))) {
+      const match = source.slice(pos).match(/^(0[xX][0-9a-fA-F_]+|0[bB][01_]+|(\d[\d_]*)?\.?\d[\d_]*([eE][+-]?\d+)?n?)/);
+      if (!match) throw new ExpressionSyntaxError('Invalid number', pos);
+      tokens.push({ type: 'number', value: match[0], start });
+      pos += match[0].length;
+      continue;
+    }
+
+    // Identifiers and keywords
+    if (/[A-Za-z_$]/.test(char)) {
+      const match = source.slice(pos).match(/^[A-Za-z0-9_$]+/)!;
+      tokens.push({ type: 'identifier', value: match[0], start });
+      pos += match[0].length;
+      continue;
+    }
+
+    // Strings
+    if (char === '"' || char === "'") {
+      pos++;
+      while (pos < source.length && source[pos] !== char) {
+        pos += source[pos] === '\\' ? 2 : 1;
+      }
+      if (pos >= source.length) throw new ExpressionSyntaxError('Unterminated string', start);
+      pos++;
+      tokens.push({ type: 'string', value: source.slice(start, pos), start });
+      continue;
+    }
+
+    // Template literals
+    if (char === '`') {
+      const quasis: string[] = [];
+      const expressions: string[] = [];
+      let quasi = '';
+      pos++;
+
+      while (pos < source.length && source[pos] !== '`') {
+        if (source[pos] === '\\') {
+          quasi += source.slice(pos, pos + 2);
+          pos += 2;
+        } else if (source[pos] === '$' && source[pos + 1] === '{') {
+          const end = findClosingBrace(source, pos + 2);
+          quasis.push(quasi);
+          expressions.push(source.slice(pos + 2, end));
+          quasi = '';
+          pos = end + 1;
+        } else {
+          quasi += source[pos++];
+        }
+      }
+      if (pos >= source.length) throw new ExpressionSyntaxError('Unterminated template literal', start);
+      quasis.push(quasi);
+      pos++;
+      tokens.push({ type: 'template', value: source.slice(start, pos), start, quasis, expressions });
+      continue;
+    }
+
+    // Regular expressions
+    if (char === '/' && !endsValue()) {
+      let inClass = false;
+      pos++;
+      while (pos < source.length && (source[pos] !== '/' || inClass)) {
+        if (source[pos] === '\\') pos++;
+        else if (source[pos] === '[') inClass = true;
+        else if (source[pos] === ']') inClass = false;
+        pos++;
+      }
+      if (pos >= source.length) throw new ExpressionSyntaxError('Unterminated regular expression', start);
+      pos++;
+      const flags = source.slice(pos).match(/^[a-z]*/)![0];
+      pos += flags.length;
+      tokens.push({ type: 'regexp', value: source.slice(start, pos), start });
+      continue;
+    }
+
+    const punctuator = PUNCTUATORS.find(p => source.startsWith(p, pos));
+    if (!punctuator) throw new ExpressionSyntaxError(`Unexpected character "${char}"`, pos);
+
+    // `?.5` is a ternary followed by a number, not optional chaining
+    if (punctuator === '?.' && /[0-9]/.test(source[pos + 2] ?? '')) {
+      tokens.push({ type: 'punctuator', value: '?', start });
+      pos++;
+      continue;
+    }
+
+    tokens.push({ type: 'punctuator', value: punctuator, start });
+    pos += punctuator.length;
+  }
+
+  tokens.push({ type: 'eof', value: '', start: pos });
+  return tokens;
+}
+
+/**
+ * Find the `}` closing a block opened just before `start`, skipping strings and nested blocks
+ */
+export function findClosingBrace(source: string, start: number): number {
+  let depth = 0;
+  let pos = start;
+
+  while (pos < source.length) {
+    const char = source[pos];
+    if (char === '"' || char === "'" || char === '`') {
+      pos++;
+      while (pos < source.length && source[pos] !== char) {
+        pos += source[pos] === '\\' ? 2 : 1;
+      }
+    } else if (char === '{') {
+      depth++;
+    } else if (char === '}') {
+      if (depth === 0) return pos;
+      depth--;
+    }
+    pos++;
+  }
+
+  throw new ExpressionSyntaxError('Unterminated block', start);
+}
+
+/**
+ * Parse a JavaScript expression
+ */
+export function parseExpression(source: string): ExpressionNode {
+  const parser = new Parser(tokenize(source));
+  const node = parser.parseSequence();
+  parser.expectEnd();
+  return node;
+}
+
+class Parser {
+  private index = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  expectEnd(): void {
+    if (this.peek().type !== 'eof') {
+      this.fail(`Unexpected "${this.peek().value}"`);
+    }
+  }
+
+  parseSequence(): ExpressionNode {
+    const expressions = [this.parseAssignment()];
+    while (this.eat(',')) {
+      expressions.push(this.parseAssignment());
+    }
+    return expressions.length === 1 ? expressions[0] : { type: 'Sequence', expressions };
+  }
+
+  private parseAssignment(): ExpressionNode {
+    const arrow = this.tryParseArrow();
+    if (arrow) return arrow;
+
+    const test = this.parseBinary(0);
+    if (!this.eat('?')) return test;
+
+    const consequent = this.parseAssignment();
+    this.expect(':');
+    const alternate = this.parseAssignment();
+    return { type: 'Conditional', test, consequent, alternate };
+  }
+
+  private tryParseArrow(): ExpressionNode | null {
+    const token = this.peek();
+    let params: string[];
+
+    if (token.type === 'identifier' && this.peek(1).value === '=>') {
+      params = [token.value];
+      this.index += 2;
+    } else if (token.value === '(' && token.type === 'punctuator') {
+      // Scan to the matching parenthesis and check for `=>`
+      let depth = 0;
+      let end = this.index;
+      for (; end < this.tokens.length; end++) {
+        const value = this.tokens[end].type === 'punctuator' ? this.tokens[end].value : '';
+        if (value === '(' || value === '[' || value === '{') depth++;
+        if (value === ')' || value === ']' || value === '}') depth--;
+        if (depth === 0) break;
+      }
+      if (this.tokens[end + 1]?.value !== '=>') return null;
+
+      params = [];
+      let current = '';
+      let nested = 0;
+      for (let i = this.index + 1; i < end; i++) {
+        const value = this.tokens[i].value;
+        if (['(', '[', '{'].includes(value)) nested++;
+        if ([')', ']', '}'].includes(value)) nested--;
+        if (value === ',' && nested === 0) {
+          params.push(current);
+          current = '';
+        } else {
+          current += (current && /^[\w$]/.test(value) && /[\w$]$/.test(current) ? ' ' : '') + value;
+        }
+      }
+      if (current) params.push(current);
+      this.index = end + 2;
+    } else {
+      return null;
+    }
+
+    if (this.peek().value === '{' && this.peek().type === 'punctuator') {
+      this.fail('Arrow functions with block bodies are not supported');
+    }
+
+    return { type: 'Arrow', params, body: this.parseAssignment() };
+  }
+
+  private parseBinary(minPrecedence: number): ExpressionNode {
+    let left = this.parseUnary();
+
+    for (;;) {
+      const token = this.peek();
+      const isOperator = token.type === 'punctuator' || token.value === 'instanceof' || token.value === 'in';
+      const precedence = isOperator ? BINARY_PRECEDENCE[token.value] : undefined;
+      if (precedence === undefined || precedence < minPrecedence) break;
+
+      this.index++;
+      // `**` is right-associative
+      const right = this.parseBinary(token.value === '**' ? precedence : precedence + 1);
+      left = { type: 'Binary', operator: token.value, left, right };
+    }
+
+    return left;
+  }
+
+  private parseUnary(): ExpressionNode {
+    const token = this.peek();
+    if (UNARY_OPERATORS.includes(token.value) && token.type !== 'string') {
+      this.index++;
+      return { type: 'Unary', operator: token.value, argument: this.parseUnary() };
+    }
+    return this.parsePostfix(this.parsePrimary());
+  }
+
+  private parsePostfix(node: ExpressionNode): ExpressionNode {
+    for (;;) {
+      if (this.eat('.')) {
+        node = { type: 'Member', object: node, property: this.parsePropertyName(), computed: false, optional: false };
+      } else if (this.eat('?.')) {
+        if (this.eat('(')) {
+          node = { type: 'Call', callee: node, arguments: this.parseArguments(), optional: true };
+        } else if (this.eat('[')) {
+          node = { type: 'Member', object: node, property: this.parseSequence(), computed: true, optional: true };
+          this.expect(']');
+        } else {
+          node = { type: 'Member', object: node, property: this.parsePropertyName(), computed: false, optional: true };
+        }
+      } else if (this.eat('[')) {
+        node = { type: 'Member', object: node, property: this.parseSequence(), computed: true, optional: false };
+        this.expect(']');
+      } else if (this.eat('(')) {
+        node = { type: 'Call', callee: node, arguments: this.parseArguments(), optional: false };
+      } else {
+        return node;
+      }
+    }
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.next();
+
+    switch (token.type) {
+      case 'number':
+        return { type: 'Literal', value: Number(token.value.replace(/_/g, '').replace(/n$/, '')), raw: token.value };
+      case 'string':
+        return { type: 'Literal', value: unquote(token.value), raw: token.value };
+      case 'regexp':
+        return { type: 'RegExp', raw: token.value };
+      case 'template':
+        return {
+          type: 'Template',
+          quasis: token.quasis!,
+          expressions: token.expressions!.map(source => parseExpression(source)),
+        };
+      case 'identifier':
+        if (token.value === 'true' || token.value === 'false') {
+          return { type: 'Literal', value: token.value === 'true', raw: token.value };
+        }
+        if (token.value === 'null') {
+          return { type: 'Literal', value: null, raw: 'null' };
+        }
+        if (token.value === 'new') {
+          const callee = this.parseNewCallee();
+          const args = this.eat('(') ? this.parseArguments() : [];
+          return this.parsePostfix({ type: 'New', callee, arguments: args });
+        }
+        return { type: 'Identifier', name: token.value };
+      case 'punctuator':
+        if (token.value === '(') {
+          const node = this.parseSequence();
+          this.expect(')');
+          return node;
+        }
+        if (token.value === '[') {
+          return { type: 'Array', elements: this.parseList(']') };
+        }
+        if (token.value === '{') {
+          return this.parseObject();
+        }
+        break;
+    }
+
+    return this.fail(token.type === 'eof' ? 'Unexpected end of expression' : `Unexpected "${token.value}"`, token);
+  }
+
+  private parseNewCallee(): ExpressionNode {
+    let callee: ExpressionNode = this.parsePrimary();
+    while (this.eat('.')) {
+      callee = { type: 'Member', object: callee, property: this.parsePropertyName(), computed: false, optional: false };
+    }
+    return callee;
+  }
+
+  private parseObject(): ExpressionNode {
+    const properties: ObjectProperty[] = [];
+
+    while (!this.eat('}')) {
+      if (this.eat('...')) {
+        properties.push({ type: 'Spread', argument: this.parseAssignment() });
+      } else {
+        let key: ExpressionNode;
+        let computed = false;
+        if (this.eat('[')) {
+          key = this.parseAssignment();
+          computed = true;
+          this.expect(']');
+        } else {
+          const token = this.next();
+          if (token.type === 'string' || token.type === 'number') {
+            key = { type: 'Literal', value: token.type === 'string' ? unquote(token.value) : Number(token.value), raw: token.value };
+          } else if (token.type === 'identifier') {
+            key = { type: 'Identifier', name: token.value };
+          } else {
+            return this.fail(`Unexpected "${token.value}" in object literal`, token);
+          }
+        }
+
+        if (this.eat(':')) {
+          properties.push({ type: 'Property', key, computed, shorthand: false, value: this.parseAssignment() });
+        } else if (key.type === 'Identifier' && !computed) {
+          properties.push({ type: 'Property', key, computed, shorthand: true, value: key });
+        } else {
+          this.fail('Expected ":" in object literal');
+        }
+      }
+
+      if (!this.eat(',')) {
+        this.expect('}');
+        break;
+      }
+    }
+
+    return { type: 'Object', properties };
+  }
+
+  private parseArguments(): ExpressionNode[] {
+    return this.parseList(')');
+  }
+
+  private parseList(close: string): ExpressionNode[] {
+    const items: ExpressionNode[] = [];
+    while (!this.eat(close)) {
+      items.push(this.eat('...') ? { type: 'Spread', argument: this.parseAssignment() } : this.parseAssignment());
+      if (!this.eat(',')) {
+        this.expect(close);
+        break;
+      }
+    }
+    return items;
+  }
+
+  private parsePropertyName(): ExpressionNode {
+    const token = this.next();
+    if (token.type !== 'identifier') {
+      return this.fail(`Expected property name but found "${token.value}"`, token);
+    }
+    return { type: 'Identifier', name: token.value };
+  }
+
+  private peek(offset: number = 0): Token {
+    return this.tokens[Math.min(this.index + offset, this.tokens.length - 1)];
+  }
+
+  private next(): Token {
+    const token = this.peek();
+    if (token.type !== 'eof') this.index++;
+    return token;
+  }
+
+  private eat(value: string): boolean {
+    const token = this.peek();
+    if (token.type === 'punctuator' && token.value === value) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private expect(value: string): void {
+    if (!this.eat(value)) {
+      this.fail(`Expected "${value}" but found "${this.peek().value || 'end of expression'}"`);
+    }
+  }
+
+  private fail(message: string, token: Token = this.peek()): never {
+    throw new ExpressionSyntaxError(message, token.start);
+  }
+}
+
+/**
+ * Decode a quoted string token
+ */
+function unquote(raw: string): string {
+  const escapes: Record<string, string> = { n: '\n', t: '\t', r: '\r', b: '\b', f: '\f', v: '\v', 0: '\0' };
+
+  return raw.slice(1, -1).replace(/\\(u\{[0-9a-fA-F]+\}|u[0-9a-fA-F]{4}|x[0-9a-fA-F]{2}|\r?\n|.)/g, (_, escape: string) => {
+    if (escape.startsWith('u{')) return String.fromCodePoint(parseInt(escape.slice(2, -1), 16));
+    if (/^[ux][0-9a-fA-F]/.test(escape)) return String.fromCharCode(parseInt(escape.slice(1), 16));
+    if (escape.endsWith('\n')) return '';
+    return escapes[escape] ?? escape;
+  });
+}
+
+/**
+ * Precedence of a node when printed (higher binds tighter)
+ */
+export function precedenceOf(node: ExpressionNode): number {
+  switch (node.type) {
+    case 'Sequence': return 1;
+    case 'Arrow': return 2;
+    case 'Conditional': return 3;
+    case 'Binary': return BINARY_PRECEDENCE[node.operator];
+    case 'Unary': return 15;
+    case 'Spread': return 2;
+    case 'New':
+    case 'Call':
+    case 'Member': return 17;
+    case 'Raw': return node.precedence;
+    default: return 18;
+  }
+}
+
+/**
+ * Print an AST back to JavaScript
+ */
+export function printExpression(node: ExpressionNode): string {
+  const wrap = (child: ExpressionNode, minPrecedence: number) => {
+    const code = printExpression(child);
+    return precedenceOf(child) < minPrecedence ? `(${code})` : code;
+  };
+
+  switch (node.type) {
+    case 'Literal':
+      return typeof node.value === 'string' ? JSON.stringify(node.value) : node.raw;
+    case 'Template':
+      return '`' + node.quasis.map((quasi, i) =>
+        quasi + (i < node.expressions.length ? `\${${printExpression(node.expressions[i])}}` : '')
+      ).join('') + '`';
+    case 'RegExp':
+      return node.raw;
+    case 'Identifier':
+      return node.name;
+    case 'Raw':
+      return node.code;
+    case 'Member': {
+      const object = node.object.type === 'Literal' && typeof node.object.value === 'number'
+        ? `(${printExpression(node.object)})`
+        : wrap(node.object, 17);
+      if (node.computed) {
+        return `${object}${node.optional ? '?.' : ''}[${printExpression(node.property)}]`;
+      }
+      return `${object}${node.optional ? '?.' : '.'}${printExpression(node.property)}`;
+    }
+    case 'Call':
+      return `${wrap(node.callee, 17)}${node.optional ? '?.' : ''}(${node.arguments.map(a => wrap(a, 2)).join(', ')})`;
+    case 'New':
+      return `new ${wrap(node.callee, 18)}(${node.arguments.map(a => wrap(a, 2)).join(', ')})`;
+    case 'Unary': {
+      const space = /^[a-z]/.test(node.operator) ? ' ' : '';
+      return `${node.operator}${space}${wrap(node.argument, 15)}`;
+    }
+    case 'Binary': {
+      const precedence = BINARY_PRECEDENCE[node.operator];
+      const rightAssociative = node.operator === '**';
+      // `??` cannot be mixed with `||`/`&&` without parentheses
+      const mixesNullish = (child: ExpressionNode) =>
+        child.type === 'Binary' &&
+        (node.operator === '??') !== (child.operator === '??') &&
+        ['??', '||', '&&'].includes(node.operator) &&
+        ['??', '||', '&&'].includes(child.operator);
+
+      const left = mixesNullish(node.left)
+        ? `(${printExpression(node.left)})`
+        : wrap(node.left, rightAssociative ? precedence + 1 : precedence);
+      const right = mixesNullish(node.right)
+        ? `(${printExpression(node.right)})`
+        : wrap(node.right, rightAssociative ? precedence : precedence + 1);
+      return `${left} ${node.operator} ${right}`;
+    }
+    case 'Conditional':
+      return `${wrap(node.test, 4)} ? ${wrap(node.consequent, 2)} : ${wrap(node.alternate, 2)}`;
+    case 'Array':
+      return `[${node.elements.map(e => wrap(e, 2)).join(', ')}]`;
+    case 'Object':
+      if (node.properties.length === 0) return '{}';
+      return `{ ${node.properties.map(p => {
+        if (p.type === 'Spread') return `...${wrap(p.argument, 2)}`;
+        if (p.shorthand) return printExpression(p.key);
+        const key = p.computed ? `[${printExpression(p.key)}]` : printExpression(p.key);
+        return `${key}: ${wrap(p.value, 2)}`;
+      }).join(', ')} }`;
+    case 'Spread':
+      return `...${wrap(node.argument, 2)}`;
+    case 'Arrow': {
+      const params = node.params.length === 1 && /^[\w$]+$/.test(node.params[0])
+        ? node.params[0]
+        : `(${node.params.join(', ')})`;
+      const body = node.body.type === 'Object' ? `(${printExpression(node.body)})` : wrap(node.body, 2);
+      return `${params} => ${body}`;
+    }
+    case 'Sequence':
+      return node.expressions.map(e => wrap(e, 2)).join(', ');
+  }
+}
@@ -10,7 +10,9 @@ import {
   N8nConnectionArray,
   getNodeCategory,
   N8nNodeCategory,
+  N8nOnError,
   TRIGGER_NODE_TYPES,
+  N8nPinDataItem,
 } from '../types/n8n.js';
 
 export interface ParsedWorkflow {
@@ -21,6 +23,7 @@ export interface ParsedWorkflow {
   executionGraph: ExecutionGraph;
   credentials: CredentialReference[];
   settings: WorkflowSettings;
+  pinData: Record<string, N8nPinDataItem[]>;
 }
 
 export interface ParsedNode {
@@ -31,10 +34,22 @@ export interface ParsedNode {
   category: N8nNodeCategory;
   parameters: Record<string, unknown>;
   credentials: CredentialReference[];
+  // ID in the URLs of webhook-based triggers (Chat, Form)
+  webhookId?: string;
   disabled: boolean;
   position: [number, number];
   incomingConnections: ConnectionInfo[];
   outgoingConnections: ConnectionInfo[];
+  errorSettings: NodeErrorSettings;
+}
+
+export interface NodeErrorSettings {
+  onError: N8nOnError;
+  retryOnFail: boolean;
+  // Total tries, including the first
+  maxTries: number;
+  // Milliseconds between tries
+  waitBetweenTries: number;
 }
 
 export interface ConnectionInfo {
@@ -70,6 +85,7 @@ export interface GraphEdge {
   to: string;
   outputIndex: number;
   inputIndex: number;
+  connectionType: string;
   condition?: string;
 }
 
@@ -152,6 +168,7 @@ export function parseWorkflow(workflow: N8nWorkflow): ParsedWorkflow {
     executionGraph,
     credentials,
     settings,
+    pinData: workflow.pinData ?? {},
   };
 }
 
@@ -182,10 +199,18 @@ function parseNode(
     category,
     parameters: node.parameters,
     credentials,
+    webhookId: node.webhookId,
     disabled: node.disabled || false,
     position: node.position,
     incomingConnections,
     outgoingConnections,
+    errorSettings: {
+      // continueOnFail is the setting older workflows use for continueRegularOutput
+      onError: node.onError ?? (node.continueOnFail ? 'continueRegularOutput' : 'stopWorkflow'),
+      retryOnFail: node.retryOnFail ?? false,
+      maxTries: node.maxTries ?? 3,
+      waitBetweenTries: node.waitBetweenTries ?? 1000,
+    },
   };
 }
 
@@ -325,6 +350,7 @@ function buildExecutionGraph(
             to: conn.node,
             outputIndex,
             inputIndex: conn.index,
+            connectionType,
           });
         });
       });
@@ -334,9 +360,9 @@ function buildExecutionGraph(
   // Calculate node depths using BFS
   calculateNodeDepths(nodes, edges, entryPoints);
 
-  // Detect branches (IF/Switch nodes)
+  // Detect branches (IF/Switch nodes, and nodes routing failures to an error output)
   parsedNodes
-    .filter(node => ['n8n-nodes-base.if', 'n8n-nodes-base.switch'].includes(node.type))
+    .filter(node => ['n8n-nodes-base.if', 'n8n-nodes-base.switch'].includes(node.type) || hasErrorOutput(node))
     .forEach(node => {
       const branchInfo = detectBranch(node, edges, nodes);
       if (branchInfo) {
@@ -437,6 +463,8 @@ function detectBranch(
     let condition = outputIndex === 0 ? 'true branch' : 'false branch';
     if (conditionNode.type === 'n8n-nodes-base.switch') {
       condition = `output ${outputIndex}`;
+    } else if (hasErrorOutput(conditionNode)) {
+      condition = outputIndex === 0 ? 'success' : 'error';
     }
 
     branches.push({
@@ -459,6 +487,15 @@ function detectBranch(
   };
 }
 
+/**
+ * Whether a node sends failures to a separate error output (output 1)
+ * IF/Switch already branch on their outputs, so they keep failing the workflow
+ */
+export function hasErrorOutput(node: ParsedNode): boolean {
+  return node.errorSettings.onError === 'continueErrorOutput'
+    && !['n8n-nodes-base.if', 'n8n-nodes-base.switch'].includes(node.type);
+}
+
 /**
  * Collect all nodes in a branch
  */
@@ -497,34 +534,17 @@ function findMergePoint(
   branches: BranchInfo['branches'],
   edges: GraphEdge[]
 ): string | undefined {
-  // Find nodes that are targets from multiple branches
-  const targetCounts = new Map<string, number>();
-
-  branches.forEach(branch => {
-    const branchTargets = new Set<string>();
-    branch.nodes.forEach(nodeName => {
-      edges
-        .filter(e => e.from === nodeName)
-        .forEach(edge => {
-          if (!branch.nodes.includes(edge.to)) {
-            branchTargets.add(edge.to);
-          }
-        });
-    });
-
-    branchTargets.forEach(target => {
-      targetCounts.set(target, (targetCounts.get(target) || 0) + 1);
-    });
-  });
+  if (branches.length < 2) return undefined;
 
-  // Merge point is a node that receives connections from all branches
-  for (const [nodeName, count] of targetCounts) {
-    if (count >= branches.length) {
-      return nodeName;
-    }
-  }
+  // Nodes reachable from every branch are downstream of the merge
+  const shared = branches[0].nodes.filter(nodeName =>
+    branches.every(branch => branch.nodes.includes(nodeName))
+  );
 
-  return undefined;
+  // Merge point is the shared node not fed by another shared node
+  return shared.find(nodeName =>
+    !edges.some(e => e.to === nodeName && shared.includes(e.from))
+  );
 }
 
 /**
@@ -621,9 +641,9 @@ export function getExecutionOrder(graph: ExecutionGraph): string[] {
 
     temp.add(nodeName);
 
-    // Visit all nodes that come before this one
+    // Visit all nodes that come before this one (loop bodies run after their loop node)
     graph.edges
-      .filter(e => e.to === nodeName)
+      .filter(e => e.to === nodeName && !isLoopBackEdge(graph, e))
       .forEach(edge => visit(edge.from));
 
     temp.delete(nodeName);
@@ -643,3 +663,78 @@ export function getExecutionOrder(graph: ExecutionGraph): string[] {
 
   return order;
 }
+
+/**
+ * Check whether an edge closes a loop by feeding back into its loop node
+ */
+function isLoopBackEdge(graph: ExecutionGraph, edge: GraphEdge): boolean {
+  return graph.loops.some(loop =>
+    loop.startNodeName === edge.to && loop.loopNodes.includes(edge.from)
+  );
+}
+
+/**
+ * Get all nodes reachable from a start node
+ * Follows main connections downstream and pulls in AI sub-nodes attached along the way
+ */
+export function getReachableNodes(graph: ExecutionGraph, startNode: string): Set<string> {
+  const reachable = new Set<string>();
+  const queue = [startNode];
+
+  while (queue.length > 0) {
+    const nodeName = queue.shift()!;
+    if (reachable.has(nodeName)) continue;
+    reachable.add(nodeName);
+
+    graph.edges.forEach(edge => {
+      if (edge.connectionType === 'main' && edge.from === nodeName) {
+        queue.push(edge.to);
+      }
+      // Sub-nodes (models, memory, tools) connect into the node that uses them
+      if (edge.connectionType !== 'main' && edge.to === nodeName) {
+        queue.push(edge.from);
+      }
+    });
+  }
+
+  reachable.delete(startNode);
+  return reachable;
+}
+
+/**
+ * Get the nodes that only a single branch of a conditional node reaches
+ * Nodes reachable from several branches (the merge point onwards) run after the branch block
+ */
+export function getExclusiveBranchNodes(branchInfo: BranchInfo): Map<number, Set<string>> {
+  const exclusive = new Map<number, Set<string>>();
+
+  for (const branch of branchInfo.branches) {
+    const others = branchInfo.branches.filter(b => b.index !== branch.index);
+    const nodes = branch.nodes.filter(nodeName =>
+      !others.some(other => other.nodes.includes(nodeName))
+    );
+    exclusive.set(branch.index, new Set(nodes));
+  }
+
+  return exclusive;
+}
+
+/**
+ * Get the nodes that several, but not all, branches of a conditional node reach, with the branches reaching them
+ * (e.g. a node joining two of a Switch's three outputs): they run after the branch block when one of those branches ran
+ */
+export function getPartialBranchNodes(branchInfo: BranchInfo): Map<string, number[]> {
+  const partial = new Map<string, number[]>();
+
+  for (const branch of branchInfo.branches) {
+    for (const nodeName of branch.nodes) {
+      if (partial.has(nodeName)) continue;
+      const indexes = branchInfo.branches.filter(b => b.nodes.includes(nodeName)).map(b => b.index);
+      if (indexes.length > 1 && indexes.length < branchInfo.branches.length) {
+        partial.set(nodeName, indexes);
+      }
+    }
+  }
+
+  return partial;
+}
@@ -13,7 +13,6 @@ export interface InngestFunctionConfig {
   debounce?: InngestDebounce;
   rateLimit?: InngestRateLimit;
   cancelOn?: InngestCancelOn[];
-  onFailure?: boolean;
   priority?: InngestPriority;
   batchEvents?: InngestBatchEvents;
 }
@@ -80,13 +79,16 @@ export type InngestStep =
   | InngestWaitForEventStep
   | InngestSendEventStep
   | InngestInvokeStep
-  | InngestAIInferStep;
+  | InngestAIInferStep
+  | InngestAgentRunStep;
 
 export interface InngestRunStep {
   type: 'run';
   id: string;
   code: string;
   comment?: string;
+  // The code reads the handler's `attempt` (retry on fail)
+  usesAttempt?: boolean;
 }
 
 export interface InngestSleepStep {
@@ -118,6 +120,8 @@ export interface InngestSendEventStep {
   id: string;
   eventName: string;
   data: string;
+  // Only send when this condition holds
+  when?: string;
   comment?: string;
 }
 
@@ -129,15 +133,37 @@ export interface InngestInvokeStep {
   comment?: string;
 }
 
+// Model call offloaded to Inngest with step.ai.infer
 export interface InngestAIInferStep {
   type: 'ai.infer';
   id: string;
+  // step.ai.models adapter
   model: string;
   body: {
     messages: string;
+    // Anthropic takes the system prompt outside the messages
+    system?: string;
     temperature?: number;
     maxTokens?: number;
+    // Other request parameters of the provider (e.g. top_p)
+    parameters?: Record<string, unknown>;
   };
+  // Function turning the adapter's response into the node's output
+  output?: string;
+  comment?: string;
+}
+
+// AgentKit network run in the function body, so each inference and tool call is its own step
+export interface InngestAgentRunStep {
+  type: 'agent.run';
+  id: string;
+  // Module-scope network to run
+  network: string;
+  input: string;
+  // State to run with (e.g. the conversation thread)
+  state?: string;
+  // Function turning the NetworkRun into the node's output
+  output: string;
   comment?: string;
 }
 
@@ -163,8 +189,30 @@ export interface CodeGenerationOptions {
   defaultConcurrencyLimit?: number;
   includeEnvValidation?: boolean;
   includeInputValidation?: boolean;
+  // Loop Over Items: run batches in a step loop, or fan out one event per batch
+  batchStrategy?: 'loop' | 'fanOut';
+  // Pass n8n items arrays between steps and run per-item nodes once per item
+  itemSemantics?: boolean;
+  // HTTP ingress generated for Webhook triggers ('none' to skip)
+  webhookFramework?: WebhookFramework;
+  // Body of the onFailure handler, inlined instead of sending the failure to the error workflow
+  // Reads `error`, `event`, `step` and `errorData` (n8n Error Trigger data)
+  onFailureHandler?: string;
+  // Event schemas of the Inngest client: trigger event types (default), Zod schemas, or none
+  eventSchemas?: EventSchemaMode;
+  // Workflows converted alongside this one, to resolve Execute Workflow targets by ID or name
+  workflows?: WorkflowReference[];
 }
 
+export interface WorkflowReference {
+  id?: string;
+  name: string;
+}
+
+export type WebhookFramework = 'express' | 'nextjs' | 'node' | 'none';
+
+export type EventSchemaMode = 'types' | 'zod' | 'none';
+
 // Template fragments for code generation
 export const INNGEST_IMPORTS = {
   core: `import { Inngest } from "inngest";`,
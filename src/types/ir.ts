@@ -0,0 +1,239 @@
+/**
+ * Intermediate Representation Types
+ * Structured form of the generated program, built from the parsed workflow
+ * and converter results, and rendered to code by an emitter
+ */
+
+import { InngestFunctionConfig, InngestStep, InngestTrigger } from './inngest.js';
+
+export interface IRProgram {
+  workflowName: string;
+  appId: string;
+  imports: string[];
+  eventTypes: string[];
+  // Trigger events of the client's event schemas
+  eventSchemas: IREventSchema[];
+  helpers: string[];
+  sharedFunctions: IRSharedFunction[];
+  functions: IRFunction[];
+  webhookRoutes: IRWebhookRoute[];
+}
+
+// Trigger event in the Inngest client's schemas
+export interface IREventSchema {
+  eventName: string;
+  eventType: string;
+  // Zod schema of the event data (eventSchemas 'zod')
+  schema?: string;
+}
+
+// Cron function polling a source for new items and sending one trigger event per item
+export interface IRPoller {
+  id: string;
+  name: string;
+  cron: string;
+  eventName: string;
+  eventType: string;
+  cursorKey: string;
+  // Step code reading the cursor and returning { items: Array<{ id, data }>, cursor }
+  pollCode: string;
+  // Step code run with the cursor save, once the events are sent (reads `poll`)
+  commitCode?: string;
+}
+
+// HTTP route receiving a Webhook trigger's requests and sending its event
+export interface IRWebhookRoute {
+  handlerName: string;
+  // Full URL path, as n8n serves it (/webhook/<path>)
+  path: string;
+  method: string;
+  eventName: string;
+  // Type of the event, for its payload
+  eventType: string;
+  authentication: 'none' | 'basicAuth' | 'headerAuth' | 'jwtAuth';
+  // 'onReceived' responds once the event is sent; otherwise the route waits for the function's response
+  responseMode: 'onReceived' | 'lastNode' | 'responseNode';
+  responseCode: number;
+  responseData: 'allEntries' | 'firstEntryJson' | 'firstEntryBinary' | 'noData';
+  responseHeaders: Record<string, string>;
+  // Chat trigger endpoint, speaking n8n's chat protocol
+  chat?: IRChatEndpoint;
+  // Form trigger endpoint, rendering the form and validating its submissions
+  form?: IRFormEndpoint;
+}
+
+export interface IRChatEndpoint {
+  // Serve n8n's hosted chat page on GET (mode "hostedChat")
+  hostedChat: boolean;
+  initialMessages: string[];
+  // Comma-separated origins allowed to call the endpoint, or *
+  allowedOrigins: string;
+}
+
+export interface IRFormEndpoint {
+  // Variable holding the trigger's page (a FormPage)
+  pageVariable: string;
+  // Variables holding the pages of Form nodes, by page key
+  pages: Record<string, string>;
+  // Event sent when a Form node's page is submitted
+  pageEventName: string;
+  // WebhookResponse expression shown once the form is submitted
+  completion: string;
+}
+
+export interface IRFunction {
+  kind: 'trigger' | 'batchHandler' | 'poller';
+  // Exported variable name
+  name: string;
+  config: Partial<InngestFunctionConfig>;
+  // Several cron triggers when a schedule has several rules
+  triggers: InngestTrigger[];
+  // Doc comment lines
+  description: string[];
+  input: IRFunctionInput;
+  body: IRBlock;
+  returnValue: string;
+  // A step reads the handler's `attempt` (retry on fail)
+  usesAttempt: boolean;
+  onFailure?: IRFailureHandler;
+}
+
+// onFailure handler passing the failure on as n8n's Error Trigger data
+export interface IRFailureHandler {
+  workflowId: string;
+  workflowName: string;
+  // Event the converted error workflow is triggered by
+  eventName?: string;
+  // User-supplied handler body, run instead of sending the event
+  handlerCode?: string;
+}
+
+export type IRFunctionInput =
+  | { kind: 'event' }
+  | { kind: 'cron' }
+  // Several n8n triggers start the function; `eventType` is the union of their events
+  | { kind: 'combined'; eventType: string; triggers: IRTriggerSource[] }
+  | { kind: 'batch'; batchVariable: string; indexVariable: string; upstream: IRUpstreamInput[] };
+
+// Inngest trigger of a combined function and the n8n trigger node it comes from
+export interface IRTriggerSource {
+  nodeName: string;
+  trigger: InngestTrigger;
+}
+
+// Module-level function holding steps shared by several trigger functions
+export interface IRSharedFunction {
+  name: string;
+  nodes: string[];
+  triggers: string[];
+  inputs: IRUpstreamInput[];
+  outputs: string[];
+  body: IRBlock;
+  // A step reads `attempt`, passed in by the caller
+  usesAttempt: boolean;
+}
+
+// A variable read from a node outside the block it is used in
+export interface IRUpstreamInput {
+  variable: string;
+  // Empty for the trigger's inputData
+  nodeName: string;
+}
+
+// How a statement binds its result
+export interface IRBinding {
+  variable: string;
+  // 'const' declares the variable, 'assign' writes to one declared by an enclosing block
+  kind: 'const' | 'assign';
+}
+
+export type IRBlock = IRNode[];
+
+export type IRNode =
+  | IRStepNode
+  | IRDeclareNode
+  | IRBranchNode
+  | IRBranchGuardNode
+  | IRMergeNode
+  | IRLoopNode
+  | IRFanOutNode
+  | IRSharedCallNode;
+
+export interface IRStepNode {
+  kind: 'step';
+  nodeName: string;
+  step: InngestStep;
+  binding?: IRBinding;
+  // Index variables of the enclosing batch loops, appended to the step ID
+  loopIndexes: string[];
+}
+
+// Variables declared ahead of a branch so code after the merge point can read them
+export interface IRDeclareNode {
+  kind: 'declare';
+  variables: string[];
+}
+
+export interface IRBranchNode {
+  kind: 'branch';
+  nodeName: string;
+  // 'error' splits a node's success and error outputs
+  branchType: 'if' | 'switch' | 'error';
+  // Variable holding the IF/Switch step result
+  condition: string;
+  // 'value' takes the one branch the result names; 'items' runs every branch that received items
+  routing: 'value' | 'items';
+  branches: Array<{ outputIndex: number; body: IRBlock }>;
+}
+
+// Nodes that only some branches reach, run after the branch block when one of those branches ran
+export interface IRBranchGuardNode {
+  kind: 'branchGuard';
+  // The Switch node whose branches reach the nodes
+  nodeName: string;
+  condition: string;
+  routing: 'value' | 'items';
+  outputIndexes: number[];
+  body: IRBlock;
+}
+
+export interface IRMergeNode {
+  kind: 'merge';
+  nodeName: string;
+  // The IF/Switch node whose branches rejoin here
+  branchNodeName: string;
+}
+
+export interface IRLoopNode {
+  kind: 'loop';
+  nodeName: string;
+  // Variable holding the Loop Over Items step result
+  source: string;
+  indexVariable: string;
+  batchVariable: string;
+  done: IRBinding;
+  // Outputs of the nodes feeding back into the loop, collected into `done`
+  collect: string[];
+  body: IRBlock;
+}
+
+export interface IRFanOutNode {
+  kind: 'fanOut';
+  nodeName: string;
+  source: string;
+  stepId: string;
+  loopIndexes: string[];
+  eventName: string;
+  handlerName: string;
+  upstream: string[];
+  done: IRBinding;
+}
+
+export interface IRSharedCallNode {
+  kind: 'sharedCall';
+  functionName: string;
+  nodes: string[];
+  inputs: string[];
+  outputs: string[];
+  usesAttempt: boolean;
+}
@@ -7,7 +7,8 @@ export interface N8nWorkflow {
   meta?: N8nMeta;
   nodes: N8nNode[];
   connections: N8nConnections;
-  pinData?: Record<string, unknown>;
+  // Pinned sample output of nodes, by node name
+  pinData?: Record<string, N8nPinDataItem[]>;
   settings?: N8nSettings;
   staticData?: unknown;
   name?: string;
@@ -16,6 +17,10 @@ export interface N8nWorkflow {
   tags?: string[];
 }
 
+export interface N8nPinDataItem {
+  json: Record<string, unknown>;
+}
+
 export interface N8nMeta {
   templateCredsSetupCompleted?: boolean;
   instanceId?: string;
@@ -34,8 +39,17 @@ export interface N8nNode {
   notesInFlow?: boolean;
   webhookId?: string;
   extendsCredential?: string;
+  // Error settings ("Settings" tab of the node)
+  continueOnFail?: boolean;
+  onError?: N8nOnError;
+  retryOnFail?: boolean;
+  maxTries?: number;
+  waitBetweenTries?: number;
 }
 
+// What a node does when it fails
+export type N8nOnError = 'stopWorkflow' | 'continueRegularOutput' | 'continueErrorOutput';
+
 export interface N8nCredential {
   id: string;
   name: string;
@@ -90,8 +104,13 @@ export const TRIGGER_NODE_TYPES = [
   'n8n-nodes-base.cron',
   'n8n-nodes-base.formTrigger',
   'n8n-nodes-base.emailTrigger',
+  'n8n-nodes-base.emailReadImap',
   'n8n-nodes-base.errorTrigger',
   '@n8n/n8n-nodes-langchain.chatTrigger',
+  'n8n-nodes-base.googleDriveTrigger',
+  'n8n-nodes-base.googleSheetsTrigger',
+  'n8n-nodes-base.airtableTrigger',
+  'n8n-nodes-base.executeWorkflowTrigger',
 ] as const;
 
 // Control Flow Node Types
@@ -157,8 +176,19 @@ export const AI_NODE_TYPES = [
   '@n8n/n8n-nodes-langchain.toolThink',
   '@n8n/n8n-nodes-langchain.toolWikipedia',
   '@n8n/n8n-nodes-langchain.toolVectorStore',
+  '@n8n/n8n-nodes-langchain.vectorStoreInMemory',
+  '@n8n/n8n-nodes-langchain.vectorStorePGVector',
+  '@n8n/n8n-nodes-langchain.vectorStoreSupabase',
+  '@n8n/n8n-nodes-langchain.vectorStorePinecone',
+  '@n8n/n8n-nodes-langchain.vectorStoreQdrant',
+  '@n8n/n8n-nodes-langchain.embeddingsOpenAi',
+  '@n8n/n8n-nodes-langchain.embeddingsOllama',
+  '@n8n/n8n-nodes-langchain.documentDefaultDataLoader',
+  '@n8n/n8n-nodes-langchain.textSplitterRecursiveCharacterTextSplitter',
+  '@n8n/n8n-nodes-langchain.retrieverVectorStore',
   '@n8n/n8n-nodes-langchain.memoryBufferWindow',
   '@n8n/n8n-nodes-langchain.outputParserStructured',
+  '@n8n/n8n-nodes-langchain.outputParserAutofixing',
   'n8n-nodes-base.openAi',
   'n8n-nodes-base.perplexityTool',
   'n8n-nodes-base.httpRequestTool',
@@ -257,11 +287,14 @@ export interface CodeNodeParameters {
 export interface CronNodeParameters {
   triggerTimes?: {
     item: Array<{
-      mode: 'everyMinute' | 'everyHour' | 'everyDay' | 'everyWeek' | 'everyMonth' | 'custom';
+      mode: 'everyMinute' | 'everyHour' | 'everyDay' | 'everyWeek' | 'everyMonth' | 'everyX' | 'custom';
       hour?: number;
       minute?: number;
       dayOfMonth?: number;
       weekday?: string;
+      // everyX
+      value?: number;
+      unit?: 'minutes' | 'hours';
       cronExpression?: string;
     }>;
   };
@@ -269,22 +302,28 @@ export interface CronNodeParameters {
 
 export interface ScheduleTriggerParameters {
   rule?: {
-    interval: Array<{
-      field: 'seconds' | 'minutes' | 'hours' | 'days' | 'weeks' | 'months' | 'cronExpression';
-      secondsInterval?: number;
-      minutesInterval?: number;
-      hoursInterval?: number;
-      daysInterval?: number;
-      weeksInterval?: number;
-      monthsInterval?: number;
-      cronExpression?: string;
-      triggerAtHour?: number;
-      triggerAtMinute?: number;
-      triggerAtDay?: number;
-    }>;
+    interval: ScheduleInterval[];
   };
 }
 
+export interface ScheduleInterval {
+  field: 'seconds' | 'minutes' | 'hours' | 'days' | 'weeks' | 'months' | 'cronExpression';
+  secondsInterval?: number;
+  minutesInterval?: number;
+  hoursInterval?: number;
+  daysInterval?: number;
+  weeksInterval?: number;
+  monthsInterval?: number;
+  // n8n names the cron expression field `expression`; older versions used `cronExpression`
+  expression?: string;
+  cronExpression?: string;
+  triggerAtHour?: number;
+  triggerAtMinute?: number;
+  // Weekdays (0 = Sunday) for weeks
+  triggerAtDay?: number | number[];
+  triggerAtDayOfMonth?: number;
+}
+
 export interface WebhookNodeParameters {
   httpMethod: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE' | 'HEAD';
   path: string;
@@ -299,6 +338,125 @@ export interface WebhookNodeParameters {
   };
 }
 
+export interface ChatTriggerParameters {
+  public?: boolean;
+  mode?: 'hostedChat' | 'webhook';
+  authentication?: 'none' | 'basicAuth' | 'n8nUserAuth';
+  // One message per line, shown when the hosted chat opens
+  initialMessages?: string;
+  options?: {
+    // Comma-separated origins, or *
+    allowedOrigins?: string;
+    responseMode?: 'lastNode' | 'responseNode' | 'streaming';
+    loadPreviousSession?: 'notSupported' | 'memory' | 'manually';
+    title?: string;
+    subtitle?: string;
+    inputPlaceholder?: string;
+  };
+}
+
+export interface FormFieldParameter {
+  fieldLabel: string;
+  fieldType?: 'text' | 'textarea' | 'number' | 'email' | 'password' | 'date' | 'dropdown' | 'checkbox' | 'radio' | 'file' | 'hiddenField' | 'html';
+  requiredField?: boolean;
+  placeholder?: string;
+  fieldOptions?: { values?: Array<{ option: string }> };
+  multiselect?: boolean;
+  // Hidden fields: output key and value
+  fieldName?: string;
+  fieldValue?: string;
+  // Custom HTML elements
+  html?: string;
+}
+
+export interface FormTriggerParameters {
+  formTitle?: string;
+  formDescription?: string;
+  formFields?: { values?: FormFieldParameter[] };
+  authentication?: 'none' | 'basicAuth';
+  responseMode?: 'onReceived' | 'lastNode' | 'responseNode';
+  options?: {
+    path?: string;
+    buttonLabel?: string;
+    respondWithOptions?: {
+      values?: { respondWith?: 'text' | 'redirect'; formSubmittedText?: string; redirectUrl?: string };
+    };
+  };
+}
+
+// Form node: a further page of a Form Trigger's form, or its completion screen
+export interface FormNodeParameters {
+  operation?: 'page' | 'completion';
+  defineForm?: 'fields' | 'json';
+  formFields?: { values?: FormFieldParameter[] };
+  jsonOutput?: string;
+  options?: { formTitle?: string; formDescription?: string; buttonLabel?: string };
+  respondWith?: 'text' | 'redirect' | 'showText' | 'returnBinary';
+  completionTitle?: string;
+  completionMessage?: string;
+  redirectUrl?: string;
+}
+
+// A resource picked from a list, or given by ID or URL
+export interface ResourceLocatorParameter {
+  mode?: string;
+  value?: string;
+  cachedResultName?: string;
+}
+
+// Polling triggers: when n8n polls the source
+export interface PollingTriggerParameters {
+  pollTimes?: CronNodeParameters['triggerTimes'];
+}
+
+export interface GoogleDriveTriggerParameters extends PollingTriggerParameters {
+  event?: 'fileCreated' | 'fileUpdated' | 'folderCreated' | 'folderUpdated' | 'watchFolderUpdated';
+  triggerOn?: 'specificFile' | 'specificFolder' | 'anyFileFolder';
+  fileToWatch?: string | ResourceLocatorParameter;
+  folderToWatch?: string | ResourceLocatorParameter;
+}
+
+export interface GoogleSheetsTriggerParameters extends PollingTriggerParameters {
+  event?: 'rowAdded' | 'rowUpdate' | 'anyUpdate';
+  documentId?: string | ResourceLocatorParameter;
+  sheetName?: string | ResourceLocatorParameter;
+}
+
+export interface AirtableTriggerParameters extends PollingTriggerParameters {
+  baseId?: string | ResourceLocatorParameter;
+  tableId?: string | ResourceLocatorParameter;
+  // A last modified time (or created time) field
+  triggerField?: string;
+}
+
+export interface EmailReadImapParameters extends PollingTriggerParameters {
+  mailbox?: string;
+  format?: 'simple' | 'resolved' | 'raw';
+  postProcessAction?: 'read' | 'nothing';
+  downloadAttachments?: boolean;
+  options?: {
+    // Search criteria as JSON, e.g. ["UNSEEN", ["SINCE", "May 20, 2024"]]
+    customEmailConfig?: string;
+    allowUnauthorizedCerts?: boolean;
+  };
+}
+
+export interface ExecuteWorkflowParameters {
+  source?: 'database' | 'localFile' | 'parameter' | 'url';
+  // A workflow ID, or a resource locator (which caches the workflow's name)
+  workflowId?: string | { value?: string; mode?: string; cachedResultName?: string };
+  // Sub-workflow inputs (v1.2+), mapped from expressions
+  workflowInputs?: { mappingMode?: string; value?: Record<string, unknown> };
+  mode?: 'once' | 'each';
+  options?: { waitForSubWorkflow?: boolean };
+}
+
+export interface ExecuteWorkflowTriggerParameters {
+  inputSource?: 'workflowInputs' | 'jsonExample' | 'passthrough';
+  workflowInputs?: { values?: Array<{ name: string; type?: 'string' | 'number' | 'boolean' | 'array' | 'object' | 'any' }> };
+  jsonExample?: string;
+}
+
 export interface SplitInBatchesParameters {
   batchSize: number;
   options?: {